@@ -1,9 +1,15 @@
-import {Api, TelegramClient} from 'telegram';
+import type {Api} from 'telegram';
 import path from 'node:path';
 import {ConfigLoader} from './services/config-loader';
 import {TelegramClientFactory} from './services/telegram-client';
+import {RateLimiter} from './services/rate-limiter';
+import {GramJsGateway, type TelegramGateway} from './services/telegram-gateway';
 import {ForumService} from './services/forum-service';
-import {getFileName, getVideoDuration, normalizeFileName, getFileSizeMB, sleep} from './utils/helpers';
+import {ThumbnailFingerprinter} from './services/thumbnail-fingerprinter';
+import {getFileName, getVideoDuration, getVideoResolution, normalizeFileName, getFileSizeMB} from './utils/helpers';
+import {DEFAULT_CLEANUP_KEEP_POLICY, pickVideoToKeep} from './utils/keep-policy';
+import type {KeepPolicy} from './types/config';
+import {hammingDistance} from './utils/perceptual-hash';
 
 interface VideoInfo {
     messageId: number;
@@ -12,6 +18,9 @@ interface VideoInfo {
     duration: number | null;
     sizeMB: number;
     topicId: number;
+    thumbHash?: string;
+    width?: number;
+    height?: number;
 }
 
 function calculateSimilarity(str1: string, str2: string): number {
@@ -42,8 +51,16 @@ function areVideosDuplicate(
     v2: VideoInfo,
     durationTolerance: number = 30,
     sizeTolerance: number = 2,
-    similarityThreshold: number = 0.85
+    similarityThreshold: number = 0.85,
+    maxThumbDistance: number = 10
 ): boolean {
+    // Re-encodes: near-identical thumbnails and the same duration, whatever the name or size
+    if (v1.thumbHash && v2.thumbHash && v1.duration && v2.duration &&
+        Math.abs(v1.duration - v2.duration) <= durationTolerance &&
+        hammingDistance(v1.thumbHash, v2.thumbHash) <= maxThumbDistance) {
+        return true;
+    }
+
     // Check name similarity
     const nameSimilarity = calculateSimilarity(v1.normalizedName, v2.normalizedName);
     
@@ -70,10 +87,11 @@ function areVideosDuplicate(
 }
 
 async function scanTopicForVideos(
-    client: TelegramClient,
-    forumGroupId: number,
+    gateway: TelegramGateway,
+    forumGroup: Api.InputPeerChannel,
     topicId: number,
-    topicName: string
+    topicName: string,
+    fingerprinter: ThumbnailFingerprinter | null
 ): Promise<VideoInfo[]> {
     const videos: VideoInfo[] = [];
     let offsetId = 0;
@@ -82,20 +100,7 @@ async function scanTopicForVideos(
     
     while (true) {
         try {
-            const result = await client.invoke(
-                new Api.messages.GetReplies({
-                    peer: forumGroupId,
-                    msgId: topicId,
-                    offsetId,
-                    limit: 100,
-                    addOffset: 0,
-                    maxId: 0,
-                    minId: 0,
-                    hash: 0 as any
-                })
-            );
-            
-            const messages = 'messages' in result && Array.isArray(result.messages) ? result.messages : [];
+            const messages = await gateway.getReplies(forumGroup, topicId, {offsetId, limit: 100});
             
             if (messages.length === 0) break;
             
@@ -116,6 +121,7 @@ async function scanTopicForVideos(
                 const normalizedName = normalizeFileName(fileName);
                 const duration = getVideoDuration(document);
                 const sizeMB = getFileSizeMB(document);
+                const resolution = getVideoResolution(document);
                 
                 videos.push({
                     messageId: message.id,
@@ -123,7 +129,10 @@ async function scanTopicForVideos(
                     normalizedName,
                     duration,
                     sizeMB,
-                    topicId
+                    topicId,
+                    width: resolution?.width,
+                    height: resolution?.height,
+                    thumbHash: fingerprinter ? await fingerprinter.fingerprint(message) : undefined
                 });
             }
             
@@ -134,7 +143,6 @@ async function scanTopicForVideos(
                 break;
             }
             
-            await sleep(500); // Increased from 100ms to 500ms for better rate limiting
         } catch (error) {
             console.error(`    ❌ Error scanning topic ${topicName}:`, error);
             break;
@@ -145,7 +153,11 @@ async function scanTopicForVideos(
     return videos;
 }
 
-async function findDuplicates(videos: VideoInfo[]): Promise<Map<number, VideoInfo[]>> {
+async function findDuplicates(
+    videos: VideoInfo[],
+    maxThumbDistance: number,
+    keepPolicy: KeepPolicy
+): Promise<Map<number, VideoInfo[]>> {
     const duplicateGroups = new Map<number, VideoInfo[]>();
     const processed = new Set<number>();
     
@@ -157,16 +169,18 @@ async function findDuplicates(videos: VideoInfo[]): Promise<Map<number, VideoInf
         for (let j = i + 1; j < videos.length; j++) {
             if (processed.has(j)) continue;
             
-            if (areVideosDuplicate(videos[i], videos[j])) {
+            if (areVideosDuplicate(videos[i], videos[j], 30, 2, 0.85, maxThumbDistance)) {
                 group.push(videos[j]);
                 processed.add(j);
             }
         }
         
         if (group.length > 1) {
-            // Sort by message ID (oldest first)
+            // The copy to keep goes first, the rest by message ID (oldest first)
             group.sort((a, b) => a.messageId - b.messageId);
-            duplicateGroups.set(videos[i].messageId, group);
+            const keep = pickVideoToKeep(group.map(video => ({...video, order: video.messageId})), keepPolicy);
+            const ordered = [...group.filter(video => video.messageId === keep.messageId), ...group.filter(video => video.messageId !== keep.messageId)];
+            duplicateGroups.set(videos[i].messageId, ordered);
         }
         
         processed.add(i);
@@ -176,8 +190,8 @@ async function findDuplicates(videos: VideoInfo[]): Promise<Map<number, VideoInf
 }
 
 async function deleteDuplicateMessages(
-    client: TelegramClient,
-    forumGroupId: number,
+    gateway: TelegramGateway,
+    forumGroup: Api.InputPeerChannel,
     duplicateGroups: Map<number, VideoInfo[]>,
     dryRun: boolean = true
 ): Promise<number> {
@@ -187,22 +201,16 @@ async function deleteDuplicateMessages(
         const [original, ...duplicates] = group;
         
         console.log(`\n  🔍 Duplicate group (${group.length} videos):`);
-        console.log(`     📹 Original (KEEP): ${original.fileName} (msg: ${original.messageId})`);
+        console.log(`     📹 Keep: ${original.fileName} (msg: ${original.messageId})`);
         
         for (const dup of duplicates) {
             console.log(`     ❌ Duplicate: ${dup.fileName} (msg: ${dup.messageId})`);
             
             if (!dryRun) {
                 try {
-                    await client.invoke(
-                        new Api.messages.DeleteMessages({
-                            id: [dup.messageId],
-                            revoke: true
-                        })
-                    );
+                    await gateway.deleteMessages(forumGroup, [dup.messageId]);
                     deletedCount++;
                     console.log(`        ✅ Deleted message ${dup.messageId}`);
-                    await sleep(500);
                 } catch (error) {
                     console.error(`        ❌ Failed to delete message ${dup.messageId}:`, error);
                 }
@@ -233,40 +241,51 @@ async function main() {
     const configLoader = new ConfigLoader();
     const sortConfig = configLoader.getConfig();
     const paths = configLoader.getPaths();
-    const matches = configLoader.getMatches();
+    const topicRoutes = configLoader.getTopicRoutes();
+    const usePerceptualHash = args.includes('--perceptual') || sortConfig.duplicateDetection?.usePerceptualHash;
+    const maxThumbDistance = sortConfig.duplicateDetection?.perceptualHashMaxDistance ?? 10;
+    const keepPolicy = sortConfig.duplicateDetection?.keepPolicy ?? DEFAULT_CLEANUP_KEEP_POLICY;
     
-    // Initialize Telegram client
-    const client = TelegramClientFactory.createClient(
-        path.join(process.cwd(), '/session/', sortConfig.sessionFile)
-    );
+    // Initialize Telegram client (the primary account manages the forum group)
+    const gateway = new GramJsGateway(TelegramClientFactory.createClient(
+        path.join(process.cwd(), '/session/', configLoader.getAccounts()[0].sessionFile),
+        // Only this account cleans up, so every FLOOD_WAIT is waited out
+        new RateLimiter(sortConfig.rateLimits, Infinity)
+    ));
     
-    await client.connect();
+    await gateway.connect();
     console.log('✅ Connected to Telegram\n');
+
+    if (usePerceptualHash) {
+        console.log('🧬 Comparing video thumbnails to find re-encodes (downloads one thumbnail per video)\n');
+    }
+    const fingerprinter = usePerceptualHash ? new ThumbnailFingerprinter(gateway) : null;
     
     // Get forum group and topics
-    const forumService = new ForumService(client, paths.forumGroupCache, true);
-    const forumGroupId = await forumService.getOrCreateForumGroup(sortConfig.sortedGroupName);
+    const forumService = new ForumService(gateway, paths.forumGroupCache, true);
+    const forumGroup = await forumService.getOrCreateForumGroup(sortConfig.sortedGroupName);
+    await forumService.reconcileTopics(forumGroup);
     
-    // Create topics for each match string
+    // Resolve a forum topic for each configured topic title
     const topicIds: Record<string, number> = {};
-    for (const matchString of matches) {
-        topicIds[matchString] = await forumService.getOrCreateTopic(forumGroupId, matchString);
+    for (const route of topicRoutes) {
+        topicIds[route.title] = await forumService.getOrCreateTopic(forumGroup, route.title);
     }
     
-    console.log(`📊 Scanning forum: ${sortConfig.sortedGroupName} (${Object.keys(topicIds).length} topics)\n`);
+    console.log(`📊 Scanning forum: ${sortConfig.sortedGroupName} (${Object.keys(topicIds).length} topics, keeping the ${keepPolicy} copy)\n`);
     
     let totalDuplicates = 0;
     let totalDeleted = 0;
     
     for (const [topicName, topicId] of Object.entries(topicIds)) {
-        const videos = await scanTopicForVideos(client, forumGroupId, topicId, topicName);
+        const videos = await scanTopicForVideos(gateway, forumGroup, topicId, topicName, fingerprinter);
         
         if (videos.length === 0) {
             console.log(`    ℹ️  No videos found in topic\n`);
             continue;
         }
         
-        const duplicateGroups = await findDuplicates(videos);
+        const duplicateGroups = await findDuplicates(videos, maxThumbDistance, keepPolicy);
         
         if (duplicateGroups.size === 0) {
             console.log(`    ✅ No duplicates found in topic\n`);
@@ -275,7 +294,7 @@ async function main() {
         
         console.log(`    ⚠️  Found ${duplicateGroups.size} duplicate groups`);
         
-        const deleted = await deleteDuplicateMessages(client, forumGroupId, duplicateGroups, dryRun);
+        const deleted = await deleteDuplicateMessages(gateway, forumGroup, duplicateGroups, dryRun);
         totalDeleted += deleted;
         
         // Count total duplicates (excluding the original in each group)
@@ -284,8 +303,6 @@ async function main() {
         }
         
         console.log(`    📊 ${deleted} duplicates ${dryRun ? 'found' : 'deleted'} in this topic\n`);
-        
-        await sleep(1000);
     }
     
     console.log('\n' + '='.repeat(60));
@@ -300,7 +317,7 @@ async function main() {
     }
     console.log('='.repeat(60));
     
-    await client.disconnect();
+    await gateway.disconnect();
 }
 
 main().catch(console.error);
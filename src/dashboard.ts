@@ -0,0 +1,29 @@
+#!/usr/bin/env ts-node
+
+import {ConfigLoader} from './services/config-loader';
+import {DashboardServer} from './services/dashboard-server';
+import {MessageStorage} from './services/storage';
+import {waitForShutdownSignal} from './utils/helpers';
+
+async function main(): Promise<void> {
+    const configLoader = new ConfigLoader();
+    const dashboardConfig = configLoader.getConfig().dashboard;
+    const storage = new MessageStorage(configLoader.getPaths().processedLogFile);
+    const server = new DashboardServer(storage, dashboardConfig?.host, dashboardConfig?.port);
+
+    try {
+        const port = await server.start();
+        console.log(`📊 Dashboard running at http://${dashboardConfig?.host ?? '127.0.0.1'}:${port}/ (Ctrl+C to stop)`);
+
+        const signal = await waitForShutdownSignal();
+        console.log(`\n🛑 Received ${signal}, stopping dashboard...`);
+    } finally {
+        await server.stop();
+        storage.close();
+    }
+}
+
+main().catch((error: Error) => {
+    console.error('❌ Dashboard failed:', error);
+    process.exit(1);
+});
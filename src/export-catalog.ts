@@ -0,0 +1,117 @@
+#!/usr/bin/env ts-node
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {ConfigLoader} from './services/config-loader';
+import {CatalogExporter, type CatalogFilter, EXPORT_FORMATS, type ExportFormat} from './services/catalog-exporter';
+import {MessageStorage} from './services/storage';
+
+interface ExportOptions {
+    format: ExportFormat;
+    output?: string;
+    filter: CatalogFilter;
+}
+
+function printUsage(): void {
+    console.log('Usage: npm run export -- [options]\n');
+    console.log('Options:');
+    console.log(`  --format <${EXPORT_FORMATS.join('|')}>  Output format (default: csv)`);
+    console.log('  --output <file>           Output file, "-" for stdout (default: <dataDir>/catalog-export.<format>)');
+    console.log('  --topic <name>            Only export this topic (repeatable)');
+    console.log('  --source <id>             Only export videos forwarded from this source, e.g. -1001234567890');
+    console.log('  --from <YYYY-MM-DD>       Only export videos forwarded on or after this date (UTC)');
+    console.log('  --to <YYYY-MM-DD>         Only export videos forwarded on or before this date (UTC)');
+}
+
+/**
+ * Unix seconds of a date, or of the start of the following day for inclusive end dates.
+ */
+function parseDate(value: string, endOfDay: boolean): number | null {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+        return null;
+    }
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    return Math.floor(time / 1000) + (endOfDay && dateOnly ? 24 * 60 * 60 : 0);
+}
+
+function parseArgs(args: string[]): ExportOptions | string {
+    const options: ExportOptions = {format: 'csv', filter: {}};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = args[i + 1];
+        if (value === undefined) {
+            return `Missing value for ${arg}`;
+        }
+        i++;
+
+        switch (arg) {
+            case '--format':
+                if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+                    return `Unknown format: ${value}`;
+                }
+                options.format = value as ExportFormat;
+                break;
+            case '--output':
+                options.output = value;
+                break;
+            case '--topic':
+                options.filter.topics = [...(options.filter.topics ?? []), value];
+                break;
+            case '--source':
+                options.filter.sourceId = value;
+                break;
+            case '--from':
+            case '--to': {
+                const seconds = parseDate(value, arg === '--to');
+                if (seconds === null) {
+                    return `Invalid date for ${arg}: ${value}`;
+                }
+                options.filter[arg === '--from' ? 'from' : 'to'] = seconds;
+                break;
+            }
+            default:
+                return `Unknown option: ${arg}`;
+        }
+    }
+
+    return options;
+}
+
+function main(): void {
+    const options = parseArgs(process.argv.slice(2));
+    if (typeof options === 'string') {
+        console.error(`❌ ${options}\n`);
+        printUsage();
+        process.exitCode = 1;
+        return;
+    }
+
+    // The export owns stdout, so the config and storage banners go to stderr
+    if (options.output === '-') {
+        console.log = console.error;
+    }
+
+    const configLoader = new ConfigLoader();
+    const storage = new MessageStorage(configLoader.getPaths().processedLogFile);
+
+    try {
+        const exporter = new CatalogExporter(storage);
+        const entries = exporter.collect(options.filter);
+        const content = exporter.format(entries, options.format);
+
+        if (options.output === '-') {
+            process.stdout.write(content);
+            return;
+        }
+
+        const outputFile = options.output ?? path.join(configLoader.getConfig().dataDir, `catalog-export.${options.format}`);
+        fs.writeFileSync(outputFile, content);
+        console.log(`📤 Exported ${entries.length} video(s) to ${outputFile}`);
+    } finally {
+        storage.close();
+    }
+}
+
+main();
@@ -0,0 +1,88 @@
+#!/usr/bin/env ts-node
+
+import {ConfigLoader} from './services/config-loader';
+import {type FailedForward, MessageStorage} from './services/storage';
+
+function printUsage(): void {
+    console.log('Usage: npm run failed-forwards -- <command> [options]\n');
+    console.log('Commands:');
+    console.log('  list [--all]          List dead-lettered forwards (--all: include queued ones)');
+    console.log('  retry <id...> | --all Requeue forwards for the next sorter run (--all: every dead-lettered one)');
+    console.log('  drop <id...> | --all  Delete forwards from the queue (--all: every dead-lettered one)');
+}
+
+function formatTimestamp(seconds: number): string {
+    return new Date(seconds * 1000).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function printFailedForward(entry: FailedForward): void {
+    const status = entry.queueStatus === 'dead' ? '💀 dead' : `⏳ queued (retry ${formatTimestamp(entry.nextRetryAt)})`;
+    console.log(`  #${entry.id} ${status}`);
+    console.log(`     📹 ${entry.fileName} → "${entry.topicName}"`);
+    console.log(`     📂 Source ${entry.sourceId}, message ${entry.messageId}`);
+    console.log(`     ❌ ${entry.errorClass} after ${entry.attempts} attempt(s), last at ${formatTimestamp(entry.updatedAt)}`);
+    if (entry.errorMessage && entry.errorMessage !== entry.errorClass) {
+        console.log(`        ${entry.errorMessage}`);
+    }
+}
+
+function parseIds(args: string[]): number[] | undefined | null {
+    if (args.includes('--all')) {
+        return undefined;
+    }
+
+    const ids = args.map((arg) => Number.parseInt(arg, 10));
+    if (ids.length === 0 || ids.some((id) => Number.isNaN(id))) {
+        return null;
+    }
+    return ids;
+}
+
+function main(): void {
+    const [command = 'list', ...args] = process.argv.slice(2);
+
+    const configLoader = new ConfigLoader();
+    const storage = new MessageStorage(configLoader.getPaths().processedLogFile);
+
+    try {
+        switch (command) {
+            case 'list': {
+                const entries = storage.getFailedForwards(args.includes('--all') ? undefined : 'dead');
+                if (entries.length === 0) {
+                    console.log('✅ No failed forwards');
+                    break;
+                }
+                console.log(`📋 ${entries.length} failed forward(s):\n`);
+                entries.forEach(printFailedForward);
+                break;
+            }
+            case 'retry':
+            case 'drop': {
+                const ids = parseIds(args);
+                if (ids === null) {
+                    console.error('❌ Please pass one or more numeric IDs or --all\n');
+                    printUsage();
+                    process.exitCode = 1;
+                    break;
+                }
+
+                if (command === 'retry') {
+                    const count = storage.requeueFailedForwards(ids);
+                    console.log(`♻️  Requeued ${count} forward(s), they will be retried on the next sorter run`);
+                } else {
+                    const count = storage.dropFailedForwards(ids);
+                    console.log(`🗑️  Dropped ${count} forward(s)`);
+                }
+                break;
+            }
+            default:
+                console.error(`❌ Unknown command: ${command}\n`);
+                printUsage();
+                process.exitCode = 1;
+        }
+    } finally {
+        storage.close();
+    }
+}
+
+main();
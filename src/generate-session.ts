@@ -22,7 +22,8 @@ if (!apiId || !apiHash) {
 
 const stringSession = new StringSession('');
 const dataDir = path.join(process.cwd(), 'session');
-const sessionFile = path.join(dataDir, 'telegram_session.session');
+// Pass a file name to create the session of an additional account, e.g. `npm run generate-session -- second.session`
+const sessionFile = path.join(dataDir, process.argv[2] ?? 'telegram_session.session');
 
 // Ensure data directory exists
 if (!fs.existsSync(dataDir)) {
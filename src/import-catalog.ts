@@ -0,0 +1,68 @@
+#!/usr/bin/env ts-node
+
+import * as path from 'node:path';
+import {ConfigLoader} from './services/config-loader';
+import {CatalogImporter, CatalogImportError} from './services/catalog-importer';
+import {MessageStorage} from './services/storage';
+
+function printUsage(): void {
+    console.log('Usage: npm run import -- <source> [--dry-run]\n');
+    console.log('Source can be another instance\'s data directory, its processed-messages.db');
+    console.log('or a .jsonl file written by "npm run export -- --format jsonl".\n');
+    console.log('Options:');
+    console.log('  --dry-run  Report what would be merged without changing the local database');
+}
+
+function main(): void {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const sources = args.filter((arg) => arg !== '--dry-run');
+
+    if (sources.length !== 1 || sources[0].startsWith('--')) {
+        printUsage();
+        process.exitCode = 1;
+        return;
+    }
+
+    const configLoader = new ConfigLoader();
+    const processedLogFile = configLoader.getPaths().processedLogFile;
+    if (path.resolve(sources[0]) === path.resolve(processedLogFile.replace('.txt', '.db'))
+        || path.resolve(sources[0]) === path.resolve(configLoader.getConfig().dataDir)) {
+        console.error('❌ Cannot import the local catalog into itself');
+        process.exitCode = 1;
+        return;
+    }
+
+    const importer = new CatalogImporter(configLoader.getConfig().duplicateDetection?.normalizeFilenames !== false);
+    let catalog;
+    try {
+        catalog = importer.read(sources[0]);
+    } catch (error) {
+        if (error instanceof CatalogImportError) {
+            console.error(`❌ ${error.message}`);
+            process.exitCode = 1;
+            return;
+        }
+        throw error;
+    }
+
+    console.log(`📥 Read ${catalog.videos.length} video(s) and ${catalog.messageIds.length} processed message(s) from ${sources[0]}`);
+
+    const storage = new MessageStorage(processedLogFile);
+    try {
+        const result = storage.mergeCatalog(catalog.messageIds, catalog.videos, dryRun);
+
+        console.log(dryRun ? '\n🔍 [DRY RUN] Would merge:' : '\n✅ Merged:');
+        console.log(`   Processed messages added: ${result.messagesAdded}`);
+        console.log(`   Videos added: ${result.videosAdded}`);
+        for (const [topic, count] of Object.entries(result.addedPerTopic)) {
+            console.log(`      "${topic}": ${count}`);
+        }
+        console.log(`   Existing videos with metadata filled in: ${result.videosUpdated}`);
+        console.log(`   Existing videos unchanged: ${result.videosUnchanged}`);
+    } finally {
+        storage.close();
+    }
+}
+
+main();
@@ -0,0 +1,138 @@
+import * as path from 'node:path';
+import {Api, utils} from 'telegram';
+import type {AccountConfig, RateLimitConfig} from '../types/config';
+import {RateLimiter} from './rate-limiter';
+import {TelegramClientFactory} from './telegram-client';
+import {GramJsGateway, type TelegramGateway} from './telegram-gateway';
+
+export interface TelegramAccount {
+    name: string;
+    gateway: TelegramGateway;
+    sourceGroups?: (string | number)[];
+    canForward: boolean;      // Member of the sorted forum group
+    forumGroup?: Api.InputPeerChannel;  // The forum group with this account's access hash
+    floodWaitUntil: number;   // Epoch milliseconds until which the account is rate limited
+}
+
+/**
+ * Holds one Telegram client per configured account. The first account manages the
+ * forum group; sources are read by the account they were assigned to, and forwards
+ * fail over to another forum member when an account hits a long FLOOD_WAIT.
+ */
+export class AccountPool {
+    private readonly accounts: TelegramAccount[];
+    private sourceAccounts: Map<string, TelegramAccount> = new Map();
+
+    constructor(
+        configs: AccountConfig[],
+        private readonly failoverSeconds: number = 60,
+        rateLimits: RateLimitConfig = {},
+        // Flood limits are per account, so every account gets its own limiter. A single account has
+        // nothing to fail over to, so it waits out every FLOOD_WAIT instead of giving up
+        createGateway: (config: AccountConfig) => TelegramGateway = (config) => new GramJsGateway(
+            TelegramClientFactory.createClient(
+                path.join(process.cwd(), '/session/', config.sessionFile),
+                new RateLimiter(rateLimits, configs.length > 1 ? failoverSeconds : Infinity)
+            )
+        )
+    ) {
+        this.accounts = configs.map((config) => ({
+            name: config.name,
+            gateway: createGateway(config),
+            sourceGroups: config.sourceGroups,
+            canForward: true,
+            floodWaitUntil: 0
+        }));
+    }
+
+    getPrimary(): TelegramAccount {
+        return this.accounts[0];
+    }
+
+    getAccounts(): TelegramAccount[] {
+        return this.accounts;
+    }
+
+    isMultiAccount(): boolean {
+        return this.accounts.length > 1;
+    }
+
+    async connect(): Promise<void> {
+        for (const account of this.accounts) {
+            await account.gateway.connect();
+            if (this.isMultiAccount()) {
+                console.log(`  ✅ Account "${account.name}" connected`);
+            }
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        for (const account of this.accounts) {
+            await account.gateway.disconnect();
+        }
+    }
+
+    /**
+     * Check which accounts can post to the forum group. The primary account owns it.
+     */
+    async checkForumMembership(forumGroup: Api.InputPeerChannel): Promise<void> {
+        this.getPrimary().forumGroup = forumGroup;
+        for (const account of this.accounts.slice(1)) {
+            try {
+                // Access hashes differ per account, so every member looks the group up in its own cache
+                const peer = await account.gateway.resolvePeer(utils.getPeerId(forumGroup));
+                if (!(peer instanceof Api.InputPeerChannel)) {
+                    throw new Error(`${utils.getPeerId(forumGroup)} is not a channel`);
+                }
+                await account.gateway.checkChannelAccess(peer);
+                account.forumGroup = peer;
+                account.canForward = true;
+            } catch (error) {
+                account.canForward = false;
+                console.warn(`  ⚠️  Account "${account.name}" is not a member of the forum group, it will not forward (${(error as Error).message})`);
+            }
+        }
+    }
+
+    assignSource(sourceKey: string, account: TelegramAccount): void {
+        this.sourceAccounts.set(sourceKey, account);
+    }
+
+    /**
+     * The account that reads a source. Unassigned sources (e.g. from older runs) belong to the primary account.
+     */
+    getSourceAccount(sourceKey: string): TelegramAccount {
+        return this.sourceAccounts.get(sourceKey) ?? this.getPrimary();
+    }
+
+    /**
+     * Pick the account to forward a message from a source with: its own account if it can,
+     * otherwise another forum member that is not rate limited. When every account is rate
+     * limited, the one that is free again first is returned.
+     */
+    getForwardingAccount(sourceKey: string, exclude?: TelegramAccount): TelegramAccount | null {
+        const owner = this.getSourceAccount(sourceKey);
+        const candidates = [owner, ...this.accounts.filter((account) => account !== owner)]
+            .filter((account) => account.canForward && account !== exclude);
+
+        const now = Date.now();
+        const available = candidates.find((account) => account.floodWaitUntil <= now);
+        if (available || exclude) {
+            return available ?? null;
+        }
+
+        return candidates.sort((a, b) => a.floodWaitUntil - b.floodWaitUntil)[0] ?? owner;
+    }
+
+    /**
+     * Record a FLOOD_WAIT. Returns true if it is long enough to switch to another account.
+     */
+    markFloodWait(account: TelegramAccount, seconds: number): boolean {
+        if (!this.isMultiAccount() || seconds < this.failoverSeconds) {
+            return false;
+        }
+
+        account.floodWaitUntil = Date.now() + seconds * 1000;
+        return true;
+    }
+}
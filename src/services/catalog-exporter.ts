@@ -0,0 +1,181 @@
+import type {ForwardHistoryEntry, MessageStorage, SortedVideo} from './storage';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'html';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'jsonl', 'html'];
+
+export interface CatalogEntry {
+    topicName: string;
+    fileName: string;
+    duration?: number;
+    sizeMB?: number;
+    sourceId?: string;      // Source group/channel ID, recorded for videos sorted by recent versions
+    sourceMessageId?: number;
+    forwardedAt?: number;   // Unix seconds; when it was sorted for videos from before forward dates were recorded
+}
+
+export interface CatalogFilter {
+    topics?: string[];
+    sourceId?: string;
+    from?: number;          // Unix seconds, inclusive
+    to?: number;            // Unix seconds, exclusive
+}
+
+const CSV_COLUMNS = ['topic', 'file_name', 'duration_seconds', 'size_mb', 'source', 'date'];
+
+export class CatalogExporter {
+    constructor(private storage: MessageStorage) {
+    }
+
+    /**
+     * Catalog videos joined with their latest forward of the same source message, sorted by
+     * topic and file name. The source filter drops videos without a recorded source.
+     */
+    collect(filter: CatalogFilter = {}): CatalogEntry[] {
+        const videos: SortedVideo[] = filter.topics?.length
+            ? filter.topics.flatMap(topic => this.storage.getSortedVideos(topic))
+            : this.storage.getSortedVideos();
+
+        // The history is oldest first, so later forwards of the same message win
+        const latestForwards = new Map<string, ForwardHistoryEntry>();
+        for (const forward of this.storage.getForwardHistory()) {
+            if (forward.sourceMessageId !== undefined) {
+                latestForwards.set(this.forwardKey(forward.sourceId, forward.sourceMessageId, forward.topicName), forward);
+            }
+        }
+
+        const entries: CatalogEntry[] = videos.map(video => {
+            const forward = video.sourceId !== undefined && video.sourceMessageId !== undefined
+                ? latestForwards.get(this.forwardKey(video.sourceId, video.sourceMessageId, video.topicName))
+                : undefined;
+            return {
+                topicName: video.topicName,
+                fileName: video.fileName,
+                duration: video.duration,
+                sizeMB: video.sizeMB,
+                sourceId: video.sourceId,
+                sourceMessageId: video.sourceMessageId,
+                forwardedAt: forward?.forwardedAt ?? video.forwardedAt ?? video.processedAt
+            };
+        });
+
+        return entries
+            .filter(entry => filter.sourceId === undefined || entry.sourceId === filter.sourceId)
+            .filter(entry => filter.from === undefined || (entry.forwardedAt !== undefined && entry.forwardedAt >= filter.from))
+            .filter(entry => filter.to === undefined || (entry.forwardedAt !== undefined && entry.forwardedAt < filter.to))
+            .sort((a, b) => a.topicName.localeCompare(b.topicName) || a.fileName.localeCompare(b.fileName));
+    }
+
+    format(entries: CatalogEntry[], format: ExportFormat): string {
+        switch (format) {
+            case 'csv':
+                return this.toCsv(entries);
+            case 'jsonl':
+                return this.toJsonl(entries);
+            case 'html':
+                return this.toHtml(entries);
+        }
+    }
+
+    private toCsv(entries: CatalogEntry[]): string {
+        const lines = [CSV_COLUMNS.join(',')];
+        for (const entry of entries) {
+            lines.push([
+                entry.topicName,
+                entry.fileName,
+                entry.duration ?? '',
+                entry.sizeMB ?? '',
+                entry.sourceId ?? '',
+                this.formatDate(entry.forwardedAt)
+            ].map(value => this.escapeCsv(String(value))).join(','));
+        }
+        return lines.join('\r\n') + '\r\n';
+    }
+
+    private escapeCsv(value: string): string {
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private toJsonl(entries: CatalogEntry[]): string {
+        return entries.map(entry => JSON.stringify({
+            topic: entry.topicName,
+            fileName: entry.fileName,
+            duration: entry.duration ?? null,
+            sizeMB: entry.sizeMB ?? null,
+            source: entry.sourceId ?? null,
+            sourceMessageId: entry.sourceMessageId ?? null,
+            date: entry.forwardedAt !== undefined ? this.formatDate(entry.forwardedAt) : null
+        }) + '\n').join('');
+    }
+
+    private toHtml(entries: CatalogEntry[]): string {
+        const byTopic = new Map<string, CatalogEntry[]>();
+        for (const entry of entries) {
+            const topicEntries = byTopic.get(entry.topicName) ?? [];
+            topicEntries.push(entry);
+            byTopic.set(entry.topicName, topicEntries);
+        }
+
+        const sections = [...byTopic].map(([topicName, topicEntries]) => {
+            const totalSizeMB = topicEntries.reduce((sum, entry) => sum + (entry.sizeMB ?? 0), 0);
+            const rows = topicEntries.map(entry => `<tr>${[
+                entry.fileName,
+                this.formatDuration(entry.duration),
+                entry.sizeMB !== undefined ? `${entry.sizeMB.toFixed(1)} MB` : '',
+                entry.sourceId ?? '',
+                this.formatDate(entry.forwardedAt)
+            ].map(value => `<td>${this.escapeHtml(value)}</td>`).join('')}</tr>`);
+
+            return `<h2>${this.escapeHtml(topicName)}</h2>
+<p>${topicEntries.length} video(s), ${totalSizeMB.toFixed(1)} MB</p>
+<table>
+<thead><tr><th>File</th><th>Duration</th><th>Size</th><th>Source</th><th>Date</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+        });
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Video Catalog</title>
+<style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; }
+    th { background: #f4f4f4; }
+</style>
+</head>
+<body>
+<h1>Video Catalog</h1>
+<p>${entries.length} video(s) in ${byTopic.size} topic(s), exported ${this.formatDate(Math.floor(Date.now() / 1000))}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+    }
+
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    private formatDate(seconds?: number): string {
+        return seconds !== undefined ? new Date(seconds * 1000).toISOString().replace('T', ' ').slice(0, 19) : '';
+    }
+
+    private formatDuration(seconds?: number): string {
+        if (seconds === undefined) return '';
+        const total = Math.round(seconds);
+        return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+    }
+
+    private forwardKey(sourceId: string, sourceMessageId: number, topicName: string): string {
+        return `${sourceId}\u0000${sourceMessageId}\u0000${topicName}`;
+    }
+}
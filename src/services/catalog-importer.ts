@@ -0,0 +1,135 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import Database from 'better-sqlite3';
+import type {ImportedVideo} from './storage';
+import {normalizeFileName} from '../utils/helpers';
+
+export interface ImportedCatalog {
+    messageIds: string[];
+    videos: ImportedVideo[];
+}
+
+export class CatalogImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CatalogImportError';
+    }
+}
+
+const VIDEO_COLUMNS = [
+    'file_name', 'normalized_name', 'topic_name', 'duration', 'size_mb',
+    'document_id', 'file_hash', 'thumb_hash', 'width', 'height',
+    'source_id', 'source_message_id', 'caption', 'forwarded_at', 'processed_at'
+];
+
+export class CatalogImporter {
+    constructor(private normalizeFilenames: boolean = true) {
+    }
+
+    /**
+     * Read a catalog from another instance: its data directory, its processed-messages.db,
+     * or a JSON Lines file written by the export command.
+     */
+    read(source: string): ImportedCatalog {
+        if (!fs.existsSync(source)) {
+            throw new CatalogImportError(`${source} does not exist`);
+        }
+
+        if (fs.statSync(source).isDirectory()) {
+            return this.readDatabase(path.join(source, 'processed-messages.db'));
+        }
+        return source.endsWith('.jsonl') ? this.readJsonl(source) : this.readDatabase(source);
+    }
+
+    private readDatabase(dbPath: string): ImportedCatalog {
+        let db: Database.Database;
+        try {
+            // Read-only, so importing never migrates or otherwise touches the other instance's database
+            db = new Database(dbPath, {readonly: true, fileMustExist: true});
+        } catch (error) {
+            throw new CatalogImportError(`Cannot open ${dbPath}: ${(error as Error).message}`);
+        }
+
+        try {
+            const tables = (db.prepare('SELECT name FROM sqlite_master WHERE type = \'table\'').all() as { name: string }[])
+                .map(table => table.name);
+            if (!tables.includes('processed_videos')) {
+                throw new CatalogImportError(`${dbPath} is not a sorter database (no processed_videos table)`);
+            }
+
+            const messageIds = tables.includes('processed_messages')
+                ? (db.prepare('SELECT message_id FROM processed_messages').all() as { message_id: string }[]).map(row => row.message_id)
+                : [];
+
+            // Databases of older versions lack the fingerprint and provenance columns
+            const available = new Set((db.prepare('PRAGMA table_info(processed_videos)').all() as { name: string }[]).map(c => c.name));
+            const columns = VIDEO_COLUMNS.filter(column => available.has(column));
+            const rows = db.prepare(`SELECT ${columns.join(', ')} FROM processed_videos ORDER BY id`).all() as any[];
+
+            const videos = rows.map(row => ({
+                fileName: row.file_name,
+                normalizedName: row.normalized_name,
+                topicName: row.topic_name,
+                duration: row.duration ?? undefined,
+                sizeMB: row.size_mb ?? undefined,
+                documentId: row.document_id ?? undefined,
+                fileHash: row.file_hash ?? undefined,
+                thumbHash: row.thumb_hash ?? undefined,
+                width: row.width ?? undefined,
+                height: row.height ?? undefined,
+                sourceId: row.source_id ?? undefined,
+                sourceMessageId: row.source_message_id ?? undefined,
+                caption: row.caption ?? undefined,
+                forwardedAt: row.forwarded_at ?? undefined,
+                processedAt: row.processed_at ?? undefined
+            }));
+
+            return {messageIds, videos};
+        } catch (error) {
+            if (error instanceof CatalogImportError) throw error;
+            throw new CatalogImportError(`Cannot read ${dbPath}: ${(error as Error).message}`);
+        } finally {
+            db.close();
+        }
+    }
+
+    private readJsonl(file: string): ImportedCatalog {
+        const videos: ImportedVideo[] = [];
+        const lines = fs.readFileSync(file, 'utf-8').split('\n');
+
+        lines.forEach((line, index) => {
+            if (line.trim().length === 0) return;
+
+            let entry: any;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                throw new CatalogImportError(`${file}:${index + 1}: invalid JSON`);
+            }
+            if (typeof entry?.topic !== 'string' || typeof entry?.fileName !== 'string') {
+                throw new CatalogImportError(`${file}:${index + 1}: topic and fileName are required`);
+            }
+
+            // Exported dates are UTC in "YYYY-MM-DD HH:MM:SS" form
+            const date = typeof entry.date === 'string' ? Date.parse(`${entry.date.replace(' ', 'T')}Z`) : NaN;
+            const seconds = Number.isNaN(date) ? undefined : Math.floor(date / 1000);
+            // The source message only counts together with its source
+            const sourceId = typeof entry.source === 'string' ? entry.source : undefined;
+
+            videos.push({
+                fileName: entry.fileName,
+                normalizedName: this.normalizeFilenames ? normalizeFileName(entry.fileName) : entry.fileName.toLowerCase(),
+                topicName: entry.topic,
+                duration: typeof entry.duration === 'number' ? entry.duration : undefined,
+                sizeMB: typeof entry.sizeMB === 'number' ? entry.sizeMB : undefined,
+                sourceId,
+                sourceMessageId: sourceId !== undefined && Number.isInteger(entry.sourceMessageId) ? entry.sourceMessageId : undefined,
+                forwardedAt: sourceId !== undefined ? seconds : undefined,
+                processedAt: seconds
+            });
+        });
+
+        // Exports only contain videos, not processed message IDs
+        return {messageIds: [], videos};
+    }
+}
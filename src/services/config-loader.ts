@@ -1,13 +1,22 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import {config as loadEnv} from 'dotenv';
-import type {DerivedPaths, SortingConfig} from '../types/config';
+import type {AccountConfig, DerivedPaths, SortingConfig, TopicLimits} from '../types/config';
+import {compileMatchRule, type MatchRule, MatchRuleError} from '../utils/match-rules';
+import {ORPHANED_TOPIC_POLICIES, TOPIC_ICON_COLORS, type TopicRoute} from '../utils/topic-routing';
+import {KEEP_POLICIES} from '../utils/keep-policy';
+import {DELIVERY_MODES} from '../utils/caption-template';
+import {parseSourceGroup} from '../utils/peers';
 
 export class ConfigLoader {
     private sortConfig!: SortingConfig;
     private derivedPaths!: DerivedPaths;
     private matches: string[] = [];
     private exclusions: string[] = [];
+    private matchRules: MatchRule[] = [];
+    private exclusionRules: MatchRule[] = [];
+    private topicRoutes: TopicRoute[] = [];
+    private accounts: AccountConfig[] = [];
 
     constructor() {
         this.loadEnvironment();
@@ -28,8 +37,7 @@ export class ConfigLoader {
 
             this.derivedPaths = {
                 processedLogFile: path.join(this.sortConfig.dataDir, 'processed-messages.txt'),
-                forumGroupCache: path.join(this.sortConfig.dataDir, 'forum-group-cache.json'),
-                forwardingLogFile: path.join(this.sortConfig.dataDir, 'forwarding-log.json')
+                forumGroupCache: path.join(this.sortConfig.dataDir, 'forum-group-cache.json')
             };
 
             if (!fs.existsSync(this.sortConfig.dataDir)) {
@@ -42,18 +50,20 @@ export class ConfigLoader {
     }
 
     private validateConfiguration(): void {
-        this.matches = this.sortConfig.videoMatches
+        this.matches = (this.sortConfig.videoMatches ?? [])
             .map((s) => s.trim())
             .filter((s) => s.length > 0);
 
-        if (this.matches.length === 0) {
-            console.error('❌ ERROR: videoMatches in config file is not set or empty!');
-            console.error('Please set videoMatches with an array of keywords to search for.');
+        if (this.matches.length === 0 && !this.sortConfig.topics?.length) {
+            console.error('❌ ERROR: Neither videoMatches nor topics are set in config file!');
+            console.error('Please set videoMatches with an array of keywords to search for,');
+            console.error('or topics with a title and keywords for each forum topic.');
             console.error('Example: "videoMatches": ["keyword1", "keyword2", "keyword3"]');
+            console.error('Example: "topics": [{"title": "Cats", "keywords": ["cat", "kitten", "feline"]}]');
             process.exit(1);
         }
 
-        this.exclusions = this.sortConfig.videoExclusions
+        this.exclusions = (this.sortConfig.videoExclusions ?? [])
             .map((s) => s.trim())
             .filter((s) => s.length > 0);
 
@@ -61,6 +71,203 @@ export class ConfigLoader {
             console.warn('⚠️  WARNING: videoExclusions in config file is not set or empty!');
             console.warn('No exclusion filters will be applied.');
         }
+
+        const errors: string[] = [];
+        this.matchRules = this.compileRules(this.matches, 'videoMatches', errors);
+        this.exclusionRules = this.compileRules(this.exclusions, 'videoExclusions', errors);
+        this.topicRoutes = this.buildTopicRoutes(errors);
+        this.accounts = this.buildAccounts(errors);
+
+        const keepPolicy = this.sortConfig.duplicateDetection?.keepPolicy;
+        if (keepPolicy !== undefined && !KEEP_POLICIES.includes(keepPolicy)) {
+            errors.push(`duplicateDetection.keepPolicy: must be one of ${KEEP_POLICIES.join(', ')}`);
+        }
+
+        const deliveryMode = this.sortConfig.deliveryMode;
+        if (deliveryMode !== undefined && !DELIVERY_MODES.includes(deliveryMode)) {
+            errors.push(`deliveryMode: must be one of ${DELIVERY_MODES.join(', ')}`);
+        }
+
+        const orphanedTopics = this.sortConfig.orphanedTopics;
+        if (orphanedTopics !== undefined && !ORPHANED_TOPIC_POLICIES.includes(orphanedTopics)) {
+            errors.push(`orphanedTopics: must be one of ${ORPHANED_TOPIC_POLICIES.join(', ')}`);
+        }
+
+        for (const [key, value] of Object.entries(this.sortConfig.rateLimits ?? {})) {
+            const valid = key === 'maxRetries' ? Number.isInteger(value) && value >= 0 : typeof value === 'number' && value > 0;
+            if (!valid) {
+                errors.push(`rateLimits.${key}: must be ${key === 'maxRetries' ? 'a non-negative integer' : 'a positive number'}`);
+            }
+        }
+
+        const sourceGroupLists: [string, (string | number)[] | undefined][] = [
+            ['sourceGroups', this.sortConfig.sourceGroups],
+            ...(this.sortConfig.accounts ?? []).map((account, index): [string, (string | number)[] | undefined] =>
+                [`accounts[${index}].sourceGroups`, account.sourceGroups])
+        ];
+        for (const [field, entries] of sourceGroupLists) {
+            for (const entry of entries ?? []) {
+                if (typeof entry === 'number' && !Number.isSafeInteger(entry)) {
+                    errors.push(`${field}: ${entry} is too large for a JSON number, write it as a string`);
+                } else if (parseSourceGroup(entry) === null) {
+                    errors.push(`${field}: "${entry}" is not a chat ID, @username or t.me link`);
+                }
+            }
+        }
+
+        const dashboardPort = this.sortConfig.dashboard?.port;
+        if (dashboardPort !== undefined && (!Number.isInteger(dashboardPort) || dashboardPort < 0 || dashboardPort > 65535)) {
+            errors.push('dashboard.port: must be an integer between 0 and 65535');
+        }
+
+        if (errors.length > 0) {
+            console.error('❌ ERROR: Invalid configuration in config file:');
+            for (const error of errors) {
+                console.error(`   ${error}`);
+            }
+            console.error('Rules can be plain keywords, regexes like "re:/\\\\bcat\\\\b/i" or expressions like "expr:cat AND NOT \\"cat food\\"".');
+            process.exit(1);
+        }
+    }
+
+    /**
+     * Combine configured topics with legacy videoMatches entries (one topic per keyword).
+     * Topic limits fall back to the global limits so routes can be checked on their own.
+     */
+    private buildTopicRoutes(errors: string[]): TopicRoute[] {
+        const routes: TopicRoute[] = [];
+        const seenTitles = new Set<string>();
+
+        const addRoute = (route: TopicRoute, field: string): void => {
+            // Topics are looked up by case-insensitive title in the forum
+            const key = route.title.toLowerCase();
+            if (seenTitles.has(key)) {
+                errors.push(`${field}: duplicate topic title "${route.title}"`);
+                return;
+            }
+            seenTitles.add(key);
+            routes.push(route);
+        };
+
+        (this.sortConfig.topics ?? []).forEach((topic, index) => {
+            const title = topic.title?.trim() ?? '';
+            const field = `topics[${index}]`;
+
+            if (!title) {
+                errors.push(`${field}: title is not set or empty`);
+                return;
+            }
+
+            const keywords = (topic.keywords ?? []).map((s) => s.trim()).filter((s) => s.length > 0);
+            if (keywords.length === 0) {
+                errors.push(`${field} ("${title}"): keywords is not set or empty`);
+                return;
+            }
+
+            const limits = this.resolveLimits(topic);
+            if (limits.minVideoDurationInSeconds && limits.maxVideoDurationInSeconds &&
+                limits.minVideoDurationInSeconds > limits.maxVideoDurationInSeconds) {
+                errors.push(`${field} ("${title}"): minVideoDurationInSeconds is greater than maxVideoDurationInSeconds`);
+            }
+            if (limits.minFileSizeMB && limits.maxFileSizeMB && limits.minFileSizeMB > limits.maxFileSizeMB) {
+                errors.push(`${field} ("${title}"): minFileSizeMB is greater than maxFileSizeMB`);
+            }
+
+            const exclusions = (topic.exclusions ?? []).map((s) => s.trim()).filter((s) => s.length > 0);
+
+            if (topic.iconColor !== undefined && !TOPIC_ICON_COLORS.includes(topic.iconColor)) {
+                const colors = TOPIC_ICON_COLORS.map((color) => `0x${color.toString(16).toUpperCase()} (${color})`);
+                errors.push(`${field} ("${title}"): iconColor must be one of ${colors.join(', ')}`);
+            }
+            // Emoji IDs exceed Number precision, so only strings keep them intact
+            if (topic.iconEmojiId !== undefined && (typeof topic.iconEmojiId !== 'string' || !/^\d+$/.test(topic.iconEmojiId))) {
+                errors.push(`${field} ("${title}"): iconEmojiId must be a custom emoji ID written as a string`);
+            }
+
+            addRoute({
+                ...limits,
+                title,
+                matchRules: this.compileRules(keywords, `${field}.keywords`, errors),
+                exclusionRules: this.compileRules(exclusions, `${field}.exclusions`, errors),
+                iconColor: topic.iconColor,
+                iconEmojiId: topic.iconEmojiId,
+                pinnedIndex: topic.pinnedIndex
+            }, field);
+        });
+
+        for (const rule of this.matchRules) {
+            // The rule becomes the topic title, which only reads well for plain keywords
+            if (rule.kind !== 'keyword') {
+                errors.push(`videoMatches: "${rule.source}" is a ${rule.kind} rule, move it to the keywords of an entry in topics so the topic gets a title`);
+                continue;
+            }
+            addRoute({
+                ...this.resolveLimits({}),
+                title: rule.source,
+                matchRules: [rule],
+                exclusionRules: []
+            }, 'videoMatches');
+        }
+
+        return routes;
+    }
+
+    /**
+     * Without an accounts list the top-level sessionFile is used as a single "default" account.
+     */
+    private buildAccounts(errors: string[]): AccountConfig[] {
+        if (!this.sortConfig.accounts?.length) {
+            return [{name: 'default', sessionFile: this.sortConfig.sessionFile}];
+        }
+
+        const accounts: AccountConfig[] = [];
+        const seenNames = new Set<string>();
+
+        this.sortConfig.accounts.forEach((account, index) => {
+            const name = account.name?.trim() ?? '';
+            const sessionFile = account.sessionFile?.trim() ?? '';
+            const field = `accounts[${index}]`;
+
+            if (!name) {
+                errors.push(`${field}: name is not set or empty`);
+                return;
+            }
+            if (!sessionFile) {
+                errors.push(`${field} ("${name}"): sessionFile is not set or empty`);
+                return;
+            }
+            if (seenNames.has(name.toLowerCase())) {
+                errors.push(`${field}: duplicate account name "${name}"`);
+                return;
+            }
+
+            seenNames.add(name.toLowerCase());
+            accounts.push({...account, name, sessionFile});
+        });
+
+        return accounts;
+    }
+
+    private resolveLimits(limits: TopicLimits): TopicLimits {
+        return {
+            minVideoDurationInSeconds: limits.minVideoDurationInSeconds ?? this.sortConfig.minVideoDurationInSeconds,
+            maxVideoDurationInSeconds: limits.maxVideoDurationInSeconds ?? this.sortConfig.maxVideoDurationInSeconds,
+            minFileSizeMB: limits.minFileSizeMB ?? this.sortConfig.minFileSizeMB,
+            maxFileSizeMB: limits.maxFileSizeMB ?? this.sortConfig.maxFileSizeMB
+        };
+    }
+
+    private compileRules(sources: string[], field: string, errors: string[]): MatchRule[] {
+        const rules: MatchRule[] = [];
+        for (const source of sources) {
+            try {
+                rules.push(compileMatchRule(source));
+            } catch (error) {
+                if (!(error instanceof MatchRuleError)) throw error;
+                errors.push(`${field}: ${error.message}`);
+            }
+        }
+        return rules;
     }
 
     getConfig(): SortingConfig {
@@ -78,4 +285,20 @@ export class ConfigLoader {
     getExclusions(): string[] {
         return this.exclusions;
     }
+
+    getMatchRules(): MatchRule[] {
+        return this.matchRules;
+    }
+
+    getExclusionRules(): MatchRule[] {
+        return this.exclusionRules;
+    }
+
+    getTopicRoutes(): TopicRoute[] {
+        return this.topicRoutes;
+    }
+
+    getAccounts(): AccountConfig[] {
+        return this.accounts;
+    }
 }
@@ -1,8 +1,9 @@
 import type {SortingConfig} from '../types/config';
 import {formatDuration} from '../utils/helpers';
+import type {TopicRoute} from '../utils/topic-routing';
 
 export class ConsoleLogger {
-    static logStartup(sortConfig: SortingConfig, matches: string[], exclusions: string[]): void {
+    static logStartup(sortConfig: SortingConfig, topics: TopicRoute[], exclusions: string[]): void {
         console.log('🚀 Starting Telegram Video Sorter...');
         console.log(
             `📋 Dry run mode: ${sortConfig.dryRun ? 'ON (no messages will be forwarded)' : 'OFF'}`
@@ -26,7 +27,14 @@ export class ConsoleLogger {
         }
 
         console.log(`🎯 Max forwards per run: ${sortConfig.maxForwards}`);
-        console.log(`🔍 Searching for: ${matches.join(', ')}`);
+        console.log(`🔍 Sorting into ${topics.length} topic(s):`);
+        for (const topic of topics) {
+            const keywords = topic.matchRules.map(rule => rule.source);
+            const exclusionsSuffix = topic.exclusionRules.length > 0
+                ? ` | excluding: ${topic.exclusionRules.map(rule => rule.source).join(', ')}`
+                : '';
+            console.log(`   📁 ${topic.title}: ${keywords.join(', ')}${exclusionsSuffix}`);
+        }
         console.log(`🚫 Excluding: ${exclusions.join(', ')}`);
 
         if (sortConfig.duplicateDetection?.checkDuration) {
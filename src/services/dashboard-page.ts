@@ -0,0 +1,132 @@
+/**
+ * Single-page catalog browser served by the dashboard. Self-contained (no external
+ * scripts or styles) so it works without internet access.
+ */
+export const DASHBOARD_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Telegram Video Sorter</title>
+<style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    h1 { font-size: 1.4rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; }
+    th { background: #f4f4f4; }
+    input, select, button { font-size: 1rem; padding: 0.3rem; }
+    #stats { color: #555; }
+</style>
+</head>
+<body>
+<h1>📹 Telegram Video Sorter</h1>
+<p id="stats"></p>
+
+<form id="search">
+    <input id="query" type="search" placeholder="Search file names" size="40">
+    <select id="topic"><option value="">All topics</option></select>
+    <button type="submit">Search</button>
+</form>
+<p id="total"></p>
+<table>
+    <thead><tr><th>File</th><th>Topic</th><th>Duration</th><th>Size</th><th>Added</th></tr></thead>
+    <tbody id="videos"></tbody>
+</table>
+<button id="more" hidden>Load more</button>
+
+<h2>Recent forwards</h2>
+<table>
+    <thead><tr><th>File</th><th>Topic</th><th>Source</th><th>Forwarded</th></tr></thead>
+    <tbody id="forwards"></tbody>
+</table>
+
+<h2>Duplicates removed</h2>
+<table>
+    <thead><tr><th>File</th><th>Topic</th><th>Matched by</th><th>Replaced by</th><th>Removed</th></tr></thead>
+    <tbody id="duplicates"></tbody>
+</table>
+
+<h2>Runs</h2>
+<table>
+    <thead><tr><th>#</th><th>Status</th><th>Started</th><th>Finished</th><th>Processed</th><th>Forwarded</th></tr></thead>
+    <tbody id="runs"></tbody>
+</table>
+
+<script>
+    const PAGE_SIZE = 50;
+    let offset = 0;
+
+    const formatTime = (seconds) => seconds ? new Date(seconds * 1000).toLocaleString() : '';
+    const formatDuration = (seconds) => seconds == null ? '' : Math.floor(Math.round(seconds) / 60) + ':' + String(Math.round(seconds) % 60).padStart(2, '0');
+    const formatSize = (mb) => mb == null ? '' : mb.toFixed(1) + ' MB';
+
+    async function getJson(path) {
+        const response = await fetch(path);
+        if (!response.ok) throw new Error((await response.json()).error);
+        return response.json();
+    }
+
+    function addRows(tbody, rows, columns) {
+        for (const row of rows) {
+            const tr = document.createElement('tr');
+            for (const column of columns) {
+                const td = document.createElement('td');
+                td.textContent = column(row);
+                tr.appendChild(td);
+            }
+            tbody.appendChild(tr);
+        }
+    }
+
+    async function loadVideos(reset) {
+        const tbody = document.getElementById('videos');
+        if (reset) {
+            offset = 0;
+            tbody.textContent = '';
+        }
+
+        const params = new URLSearchParams({q: document.getElementById('query').value, limit: PAGE_SIZE, offset});
+        const topic = document.getElementById('topic').value;
+        if (topic) params.set('topic', topic);
+
+        const page = await getJson('/api/videos?' + params);
+        addRows(tbody, page.videos, [v => v.fileName, v => v.topicName, v => formatDuration(v.duration), v => formatSize(v.sizeMB), v => formatTime(v.processedAt)]);
+        offset += page.videos.length;
+        document.getElementById('total').textContent = page.total + ' video(s)';
+        document.getElementById('more').hidden = offset >= page.total;
+    }
+
+    async function loadOverview() {
+        const stats = await getJson('/api/stats');
+        document.getElementById('stats').textContent =
+            stats.videos + ' videos in ' + stats.topics + ' topics, ' + stats.processedMessages + ' messages processed' +
+            (stats.lastRun ? ', last run ' + stats.lastRun.status + ' at ' + formatTime(stats.lastRun.startedAt) : '');
+
+        const select = document.getElementById('topic');
+        for (const topic of await getJson('/api/topics')) {
+            const option = document.createElement('option');
+            option.value = topic.topicName;
+            option.textContent = topic.topicName + ' (' + topic.videoCount + ')';
+            select.appendChild(option);
+        }
+
+        addRows(document.getElementById('forwards'), await getJson('/api/forwards'),
+            [f => f.fileName, f => f.topicName, f => f.sourceId, f => formatTime(f.forwardedAt)]);
+        addRows(document.getElementById('duplicates'), await getJson('/api/duplicates'),
+            [d => d.fileName, d => d.topicName, d => d.matchedBy, d => d.replacedBy, d => formatTime(d.removedAt)]);
+        addRows(document.getElementById('runs'), await getJson('/api/runs'),
+            [r => r.id, r => r.status, r => formatTime(r.startedAt), r => formatTime(r.finishedAt), r => r.processed, r => r.forwarded]);
+    }
+
+    document.getElementById('search').addEventListener('submit', (event) => {
+        event.preventDefault();
+        loadVideos(true);
+    });
+    document.getElementById('more').addEventListener('click', () => loadVideos(false));
+
+    loadOverview();
+    loadVideos(true);
+</script>
+</body>
+</html>
+`;
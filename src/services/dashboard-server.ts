@@ -0,0 +1,149 @@
+import * as http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import type {MessageStorage} from './storage';
+import {DASHBOARD_PAGE} from './dashboard-page';
+
+const MAX_LIMIT = 500;
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Read-only HTTP dashboard over the local catalog. Serves a search page at / and
+ * JSON endpoints under /api; everything comes from the SQLite database, so it works offline.
+ */
+export class DashboardServer {
+    private server: http.Server | null = null;
+
+    constructor(
+        private storage: MessageStorage,
+        private host: string = '127.0.0.1',
+        private port: number = 8080
+    ) {
+    }
+
+    /**
+     * Start listening. Returns the bound port (useful with port 0).
+     */
+    async start(): Promise<number> {
+        const server = http.createServer((req, res) => this.handleRequest(req, res));
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, this.host, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+
+        return (server.address() as AddressInfo).port;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+
+        // Idle keep-alive connections would otherwise hold close() open
+        const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+        server.closeAllConnections();
+        await closed;
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        try {
+            if (req.method !== 'GET') {
+                throw new HttpError(405, 'Only GET requests are supported');
+            }
+
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            if (url.pathname === '/') {
+                res.writeHead(200, {'Content-Type': 'text/html; charset=utf-8'});
+                res.end(DASHBOARD_PAGE);
+                return;
+            }
+
+            this.sendJson(res, 200, this.route(url));
+        } catch (error) {
+            if (error instanceof HttpError) {
+                this.sendJson(res, error.status, {error: error.message});
+            } else {
+                console.error('❌ Dashboard request failed:', error);
+                this.sendJson(res, 500, {error: 'Internal server error'});
+            }
+        }
+    }
+
+    private route(url: URL): unknown {
+        const params = url.searchParams;
+        const topicVideos = /^\/api\/topics\/([^/]+)\/videos$/.exec(url.pathname);
+
+        if (topicVideos) {
+            return this.storage.searchVideos({
+                topicName: this.decodePathSegment(topicVideos[1]),
+                search: params.get('q') ?? undefined,
+                limit: this.parseLimit(params, 50),
+                offset: this.parseNumber(params, 'offset', 0)
+            });
+        }
+
+        switch (url.pathname) {
+            case '/api/stats':
+                return {
+                    processedMessages: this.storage.getProcessedMessagesCount(),
+                    videos: this.storage.getProcessedVideoNamesCount(),
+                    topics: this.storage.getTopicSummaries().length,
+                    lastRun: this.storage.getRuns(1)[0] ?? null
+                };
+            case '/api/topics':
+                return this.storage.getTopicSummaries();
+            case '/api/videos':
+                return this.storage.searchVideos({
+                    topicName: params.get('topic') ?? undefined,
+                    search: params.get('q') ?? undefined,
+                    limit: this.parseLimit(params, 50),
+                    offset: this.parseNumber(params, 'offset', 0)
+                });
+            case '/api/forwards':
+                return this.storage.getRecentForwards(this.parseLimit(params, 50));
+            case '/api/duplicates':
+                return this.storage.getRemovedDuplicates(this.parseLimit(params, 100));
+            case '/api/runs':
+                return this.storage.getRuns(this.parseLimit(params, 20));
+            default:
+                throw new HttpError(404, `Not found: ${url.pathname}`);
+        }
+    }
+
+    private decodePathSegment(segment: string): string {
+        try {
+            return decodeURIComponent(segment);
+        } catch {
+            throw new HttpError(400, `Malformed path segment: ${segment}`);
+        }
+    }
+
+    private parseNumber(params: URLSearchParams, name: string, defaultValue: number): number {
+        const value = params.get(name);
+        if (value === null) return defaultValue;
+
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+            throw new HttpError(400, `${name} must be a non-negative integer`);
+        }
+        return parsed;
+    }
+
+    private parseLimit(params: URLSearchParams, defaultValue: number): number {
+        return Math.min(this.parseNumber(params, 'limit', defaultValue), MAX_LIMIT);
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, {'Content-Type': 'application/json; charset=utf-8'});
+        res.end(JSON.stringify(body));
+    }
+}
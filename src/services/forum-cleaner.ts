@@ -1,7 +1,14 @@
-import {Api, TelegramClient} from 'telegram';
+import type {Api} from 'telegram';
 import type {SortingConfig} from '../types/config';
-import {getFileName, sleep} from '../utils/helpers';
+import type {TelegramGateway} from './telegram-gateway';
+import {getFileName, getFileSizeMB, getVideoDuration, getVideoResolution} from '../utils/helpers';
+import {DEFAULT_KEEP_POLICY, type KeepCandidate, pickVideoToKeep} from '../utils/keep-policy';
 import {shouldExcludeVideo} from '../utils/video-matching';
+import type {MatchRule} from '../utils/match-rules';
+
+interface TopicVideo extends KeepCandidate {
+    messageId: number;
+}
 
 export interface CleanupResult {
     totalExcluded: number;
@@ -10,14 +17,14 @@ export interface CleanupResult {
 
 export class ForumCleaner {
     constructor(
-        private client: TelegramClient,
+        private gateway: TelegramGateway,
         private sortConfig: SortingConfig
     ) {
     }
 
     async cleanupForumGroup(
-        groupId: number,
-        exclusions: string[],
+        group: Api.InputPeerChannel,
+        exclusions: MatchRule[],
         skipCleanup: boolean = false
     ): Promise<CleanupResult> {
         // Skip cleanup if disabled or in dry run with no exclusions
@@ -34,27 +41,12 @@ export class ForumCleaner {
         try {
             let offsetId = 0;
             let hasMore = true;
-            // Track videos per topic: Map<topicId, Map<normalizedFileName, messageIds[]>>
-            const videosByTopic = new Map<number, Map<string, number[]>>();
+            // Track videos per topic: Map<topicId, Map<normalizedFileName, copies[]>>
+            const videosByTopic = new Map<number, Map<string, TopicVideo[]>>();
 
             while (hasMore) {
-                const result = await this.client.invoke(
-                    new Api.messages.GetHistory({
-                        peer: groupId,
-                        offsetId,
-                        limit: 100,  // Telegram API limit
-                        addOffset: 0,
-                        maxId: 0,
-                        minId: 0,
-                        hash: 0 as any
-                    })
-                );
-                console.log(`🔍 Fetching messages from group: ${groupId} (offset: ${offsetId})`);
-
-                const messages =
-                    'messages' in result && Array.isArray(result.messages)
-                        ? result.messages
-                        : [];
+                const messages = await this.gateway.getHistory(group, {offsetId, limit: 100});
+                console.log(`🔍 Fetching messages from group: ${group.channelId} (offset: ${offsetId})`);
 
                 if (messages.length === 0) {
                     hasMore = false;
@@ -74,7 +66,7 @@ export class ForumCleaner {
                         const normalizedFileName = fileName.toLowerCase();
 
                         if (shouldExcludeVideo(messageText, fileName, exclusions)) {
-                            totalExcluded += await this.deleteExcludedVideo(message.id, fileName);
+                            totalExcluded += await this.deleteExcludedVideo(group, message.id, fileName);
                             continue;
                         }
 
@@ -87,7 +79,15 @@ export class ForumCleaner {
                         if (!topicVideos.has(normalizedFileName)) {
                             topicVideos.set(normalizedFileName, []);
                         }
-                        topicVideos.get(normalizedFileName)?.push(message.id);
+                        const resolution = getVideoResolution(document);
+                        topicVideos.get(normalizedFileName)?.push({
+                            messageId: message.id,
+                            order: message.id,
+                            width: resolution?.width,
+                            height: resolution?.height,
+                            sizeMB: getFileSizeMB(document),
+                            duration: getVideoDuration(document)
+                        });
                     }
                 }
 
@@ -97,12 +97,10 @@ export class ForumCleaner {
                 } else {
                     hasMore = false;
                 }
-
-                await sleep(500);
             }
 
             // Clean up duplicates per topic
-            totalDuplicates = await this.cleanDuplicatesPerTopic(videosByTopic);
+            totalDuplicates = await this.cleanDuplicatesPerTopic(group, videosByTopic);
 
             console.log('\n✅ Cleanup complete:');
             console.log(`   Excluded videos removed: ${totalExcluded}`);
@@ -114,17 +112,12 @@ export class ForumCleaner {
         return {totalExcluded, totalDuplicates};
     }
 
-    private async deleteExcludedVideo(messageId: number, fileName: string): Promise<number> {
+    private async deleteExcludedVideo(group: Api.InputPeerChannel, messageId: number, fileName: string): Promise<number> {
         console.log(`  🚫 Removing excluded video: "${fileName}"`);
 
         if (!this.sortConfig.dryRun) {
             try {
-                await this.client.invoke(
-                    new Api.messages.DeleteMessages({
-                        id: [messageId],
-                        revoke: true
-                    })
-                );
+                await this.gateway.deleteMessages(group, [messageId]);
                 return 1;
             } catch (error) {
                 console.error(`  ❌ Error removing excluded video:`, error);
@@ -136,18 +129,20 @@ export class ForumCleaner {
         }
     }
 
-    private async cleanDuplicatesPerTopic(videosByTopic: Map<number, Map<string, number[]>>): Promise<number> {
+    private async cleanDuplicatesPerTopic(group: Api.InputPeerChannel, videosByTopic: Map<number, Map<string, TopicVideo[]>>): Promise<number> {
         let totalDuplicates = 0;
+        const policy = this.sortConfig.duplicateDetection?.keepPolicy ?? DEFAULT_KEEP_POLICY;
         
         // Collect all IDs to delete in batches for efficiency
         const allToDelete: number[] = [];
         
         for (const [topicId, videosByFilename] of videosByTopic.entries()) {
-            for (const [fileName, messageIds] of videosByFilename.entries()) {
-                if (messageIds.length > 1) {
-                    const toDelete = messageIds.slice(1);
+            for (const [fileName, copies] of videosByFilename.entries()) {
+                if (copies.length > 1) {
+                    const keep = pickVideoToKeep(copies, policy);
+                    const toDelete = copies.filter(copy => copy !== keep).map(copy => copy.messageId);
                     console.log(
-                        `  🔄 Topic ${topicId}: Found ${messageIds.length} copies of "${fileName}", removing ${toDelete.length}...`
+                        `  🔄 Topic ${topicId}: Found ${copies.length} copies of "${fileName}", keeping message ${keep.messageId} (${policy}), removing ${toDelete.length}...`
                     );
                     allToDelete.push(...toDelete);
                     totalDuplicates += toDelete.length;
@@ -165,20 +160,11 @@ export class ForumCleaner {
             for (let i = 0; i < allToDelete.length; i += batchSize) {
                 const batch = allToDelete.slice(i, i + batchSize);
                 try {
-                    await this.client.invoke(
-                        new Api.messages.DeleteMessages({
-                            id: batch,
-                            revoke: true
-                        })
-                    );
+                    await this.gateway.deleteMessages(group, batch);
                     console.log(`  🗑️  Deleted batch of ${batch.length} duplicates`);
                 } catch (error) {
                     console.error(`  ❌ Error removing duplicates batch:`, error);
                 }
-                
-                if (i + batchSize < allToDelete.length) {
-                    await sleep(200);
-                }
             }
         } else {
             console.log(`  🔍 [DRY RUN] Would remove ${allToDelete.length} total duplicates`);
@@ -1,15 +1,34 @@
 import * as fs from 'node:fs';
-import {Api, TelegramClient} from 'telegram';
-import type {ForumGroupCache} from '../types/config';
+import {Api, helpers, utils} from 'telegram';
+import type {ForumGroupCache, OrphanedTopicPolicy, TopicAppearance} from '../types/config';
+import type {ForumTopicInfo, TelegramGateway} from './telegram-gateway';
+import {toInputPeer, toStoredPeer} from '../utils/peers';
+import type {TopicRoute} from '../utils/topic-routing';
+
+// Stands in for the forum group a dry run would have created
+const DRY_RUN_GROUP = new Api.InputPeerChannel({channelId: helpers.returnBigInt(0), accessHash: helpers.returnBigInt(0)});
+
+// Topics are matched by case-insensitive title
+const normalizeTitle = (title: string): string => title.toLowerCase().trim();
+
+// A cached topic that no longer matches the forum, and what reconcileTopics did about it
+export interface TopicCacheChange {
+    matchString: string;
+    cachedId: number;
+    issue: 'deleted' | 'renamed' | 'closed' | 'hidden';
+    liveTitle?: string;       // Current title of a renamed topic
+    resolution: string;       // Human-readable, for the diff
+}
 
 export class ForumService {
     private forumCache: ForumGroupCache = {topics: {}};
+    private groupTopics: Map<string, Promise<ForumTopicInfo[]>> = new Map();  // All topics per group ID, fetched once per run
     private readonly cacheFile: string;
-    private client: TelegramClient;
+    private gateway: TelegramGateway;
     private readonly dryRun: boolean;
 
-    constructor(client: TelegramClient, cacheFile: string, dryRun: boolean) {
-        this.client = client;
+    constructor(gateway: TelegramGateway, cacheFile: string, dryRun: boolean) {
+        this.gateway = gateway;
         this.cacheFile = cacheFile;
         this.dryRun = dryRun;
         this.loadCache();
@@ -30,18 +49,44 @@ export class ForumService {
         fs.writeFileSync(this.cacheFile, JSON.stringify(this.forumCache, null, 2));
     }
 
-    private async validateGroupExists(groupId: number): Promise<boolean> {
+    /**
+     * Remember the forum group. Topic IDs are only valid in the group they were created in.
+     */
+    private saveGroup(group: Api.InputPeerChannel): void {
+        const previousId = this.forumCache.group?.id ?? this.forumCache.groupId?.toString().replace('-', '');
+        if (previousId && previousId !== group.channelId.toString()) {
+            this.forumCache.topics = {};
+        }
+        this.forumCache.group = toStoredPeer(group);
+        delete this.forumCache.groupId;
+        this.saveCache();
+    }
+
+    /**
+     * Caches of older releases only kept the group ID; its access hash is looked up in the
+     * session's entity cache once and stored from then on.
+     */
+    private async getCachedGroup(): Promise<Api.InputPeerChannel | null> {
+        if (this.forumCache.group) {
+            return toInputPeer(this.forumCache.group);
+        }
+        if (!this.forumCache.groupId) {
+            return null;
+        }
+
+        try {
+            const peer = await this.gateway.resolvePeer(`-100${this.forumCache.groupId.toString().replace('-', '')}`);
+            return peer instanceof Api.InputPeerChannel ? peer : null;
+        } catch (error) {
+            console.log(`     Cached group ${this.forumCache.groupId} is not in the session cache:`, (error as Error).message);
+            return null;
+        }
+    }
+
+    private async validateGroupExists(group: Api.InputPeerChannel): Promise<boolean> {
         try {
-            const channelPeer = new Api.PeerChannel({
-                channelId: BigInt(Math.abs(groupId)) as any
-            });
-            
             // Try to get channel info - if it fails, the group doesn't exist or isn't accessible
-            await this.client.invoke(
-                new Api.channels.GetFullChannel({
-                    channel: channelPeer
-                })
-            );
+            await this.gateway.checkChannelAccess(group);
             return true;
         } catch (error) {
             console.log(`     Group validation failed:`, (error as Error).message);
@@ -49,16 +94,21 @@ export class ForumService {
         }
     }
 
-    async getOrCreateForumGroup(groupName: string): Promise<number> {
+    async getOrCreateForumGroup(groupName: string): Promise<Api.InputPeerChannel> {
         // Check cache first
-        if (this.forumCache.groupId) {
+        const cachedGroup = await this.getCachedGroup();
+        if (cachedGroup) {
             // Validate that cached group still exists and is accessible
-            const isValid = await this.validateGroupExists(this.forumCache.groupId);
+            const isValid = await this.validateGroupExists(cachedGroup);
             if (isValid) {
-                console.log(`  📂 Using cached forum group: ${this.forumCache.groupId}`);
-                return this.forumCache.groupId;
+                console.log(`  📂 Using cached forum group: ${cachedGroup.channelId}`);
+                if (!this.forumCache.group && !this.dryRun) {
+                    this.saveGroup(cachedGroup);
+                }
+                return cachedGroup;
             } else {
-                console.log(`  ⚠️  Cached group ${this.forumCache.groupId} no longer accessible, searching again...`);
+                console.log(`  ⚠️  Cached group ${cachedGroup.channelId} no longer accessible, searching again...`);
+                this.forumCache.group = undefined;
                 this.forumCache.groupId = undefined;
                 this.forumCache.topics = {};
                 this.saveCache();
@@ -67,62 +117,40 @@ export class ForumService {
 
         if (this.dryRun) {
             console.log(`  🔍 [DRY RUN] Would search/create forum group "${groupName}"`);
-            return -1;
+            return DRY_RUN_GROUP;
         }
 
         // Search for existing forum group by name
         console.log(`  🔍 Searching for existing forum group "${groupName}"...`);
-        const existingGroupId = await this.findForumGroupByName(groupName);
+        const existingGroup = await this.findForumGroupByName(groupName);
 
-        if (existingGroupId) {
-            console.log(`  ✅ Found existing forum group "${groupName}" with ID: ${existingGroupId}`);
-            this.forumCache.groupId = existingGroupId;
-            this.saveCache();
-            return existingGroupId;
+        if (existingGroup) {
+            console.log(`  ✅ Found existing forum group "${groupName}" with ID: ${existingGroup.channelId}`);
+            this.saveGroup(existingGroup);
+            return existingGroup;
         }
 
         // Create new forum group if not found
         console.log(`  ✨ Forum group "${groupName}" not found, creating new one...`);
 
         try {
-            const result = await this.client.invoke(
-                new Api.channels.CreateChannel({
-                    title: groupName,
-                    about: 'Auto-sorted videos organized by topics',
-                    megagroup: true,
-                    forum: true
-                })
-            );
+            const group = await this.gateway.createForumGroup(groupName, 'Auto-sorted videos organized by topics');
 
-            let groupId: number;
+            this.saveGroup(group);
 
-            if ('chats' in result && result.chats.length > 0) {
-                const chat = result.chats[0];
-                if ('id' in chat) {
-                    groupId = -Math.abs(Number(chat.id));
-                } else {
-                    throw new Error('Could not extract group ID from result');
-                }
-            } else {
-                throw new Error('Group creation returned no chats');
-            }
-
-            this.forumCache.groupId = groupId;
-            this.saveCache();
-
-            console.log(`  ✅ Created forum group "${groupName}" with ID: ${groupId}`);
-            return groupId;
+            console.log(`  ✅ Created forum group "${groupName}" with ID: ${group.channelId}`);
+            return group;
         } catch (error) {
             console.error(`  ❌ Error creating forum group:`, error);
             throw error;
         }
     }
 
-    private async findForumGroupByName(groupName: string): Promise<number | null> {
+    private async findForumGroupByName(groupName: string): Promise<Api.InputPeerChannel | null> {
         try {
             console.log('     Fetching dialogs...');
             // Fetch both regular and archived dialogs
-            const dialogs = await this.client.getDialogs({limit: 500});
+            const dialogs = await this.gateway.getDialogs();
             
             const normalizedSearchName = groupName.toLowerCase().trim();
             console.log(`     Looking for forum group: "${normalizedSearchName}"`);
@@ -134,24 +162,17 @@ export class ForumService {
                 if (!entity) continue;
 
                 // Get title for logging
-                const title = 'title' in entity ? (entity.title as string) : '';
-                const isForum = 'forum' in entity && entity.forum;
-                const isChannel = entity.className === 'Channel';
-                
                 // Check if it's a channel/supergroup with forum enabled
-                if (isChannel && isForum) {
+                if (entity instanceof Api.Channel && entity.forum) {
+                    const title = entity.title;
                     const normalizedTitle = title.toLowerCase().trim();
                     
                     console.log(`     Checking forum: "${title}" (normalized: "${normalizedTitle}")`);
 
                     if (normalizedTitle === normalizedSearchName) {
-                        const id = 'id' in entity ? Number(entity.id) : null;
-                        if (id) {
-                            // Convert to the proper format (negative for channels/supergroups)
-                            const groupId = -Math.abs(id);
-                            console.log(`     ✅ Match found! ID: ${groupId}`);
-                            return groupId;
-                        }
+                        console.log(`     ✅ Match found! ID: ${entity.id}`);
+                        // The input peer keeps the access hash of the dialog's entity
+                        return utils.getInputPeer(entity) as Api.InputPeerChannel;
                     }
                 }
             }
@@ -164,7 +185,7 @@ export class ForumService {
         }
     }
 
-    async getOrCreateTopic(groupId: number, matchString: string): Promise<number> {
+    async getOrCreateTopic(group: Api.InputPeerChannel, matchString: string, appearance: TopicAppearance = {}): Promise<number> {
         // Check cache first
         if (this.forumCache.topics[matchString]) {
             console.log(
@@ -180,7 +201,7 @@ export class ForumService {
 
         // Search for existing topic by name
         console.log(`  🔍 Searching for existing topic "${matchString}"...`);
-        const existingTopicId = await this.findTopicByName(groupId, matchString);
+        const existingTopicId = await this.findTopicByName(group, matchString);
 
         if (existingTopicId) {
             console.log(`  ✅ Found existing topic "${matchString}" with ID: ${existingTopicId}`);
@@ -193,72 +214,261 @@ export class ForumService {
         console.log(`  ✨ Topic "${matchString}" not found, creating new one...`);
 
         try {
-            const channelPeer = new Api.PeerChannel({
-                channelId: BigInt(Math.abs(groupId)) as any
+            const topicId = await this.gateway.createForumTopic(group, matchString, appearance);
+
+            (await this.groupTopics.get(group.channelId.toString()))?.push({
+                id: topicId,
+                title: matchString,
+                closed: false,
+                hidden: false,
+                iconEmojiId: appearance.iconEmojiId
             });
+            this.forumCache.topics[matchString] = topicId;
+            this.saveCache();
 
-            const result = await this.client.invoke(
-                new Api.channels.CreateForumTopic({
-                    channel: channelPeer,
-                    title: matchString,
-                    randomId: BigInt(Math.floor(Math.random() * 1e16)) as any
-                })
-            );
+            console.log(`  ✅ Created topic "${matchString}" with ID: ${topicId}`);
+            return topicId;
+        } catch (error) {
+            console.error(`  ❌ Error creating topic "${matchString}":`, error);
+            throw error;
+        }
+    }
 
-            let topicId: number;
+    /**
+     * Compare the cached topic IDs with the live topics of the group and repair the cache: deleted
+     * topics are dropped (or repointed to a live topic of the same name), renamed ones are kept
+     * unless another topic carries the name. Closed topics are reopened when reopenClosed is set.
+     * Prints the differences; dry runs only repair the cache in memory and reopen nothing.
+     */
+    async reconcileTopics(group: Api.InputPeerChannel, reopenClosed: boolean = false): Promise<TopicCacheChange[]> {
+        const cached = Object.entries(this.forumCache.topics);
+        if (cached.length === 0) {
+            return [];
+        }
 
-            if ('updates' in result) {
-                const updates = Array.isArray(result.updates) ? result.updates : [];
-                const messageUpdate = updates.find(
-                    (update: any) => 'message' in update && 'id' in update.message
-                );
+        let topics: ForumTopicInfo[];
+        try {
+            topics = await this.getTopics(group);
+        } catch (error) {
+            console.error('  ⚠️  Could not fetch topics to check the topic cache:', (error as Error).message);
+            return [];
+        }
 
-                if (messageUpdate && 'message' in messageUpdate) {
-                    topicId = Number((messageUpdate as any).message.id);
+        const orphaned = new Set(this.forumCache.orphanedTopics ?? []);
+        const topicsById = new Map(topics.map(topic => [topic.id, topic]));
+        const changes: TopicCacheChange[] = [];
+
+        for (const [matchString, cachedId] of cached) {
+            const live = topicsById.get(cachedId);
+            const namesake = topics.find(t => t.id !== cachedId && normalizeTitle(t.title) === normalizeTitle(matchString));
+            let topic = live;
+
+            if (!live || normalizeTitle(live.title) !== normalizeTitle(matchString)) {
+                const issue = live ? 'renamed' : 'deleted';
+                let resolution: string;
+                if (namesake) {
+                    this.forumCache.topics[matchString] = namesake.id;
+                    topic = namesake;
+                    resolution = `now topic ${namesake.id} of the same name`;
+                } else if (live) {
+                    resolution = 'kept, videos still go there';
                 } else {
-                    throw new Error('Could not extract topic ID from result');
+                    delete this.forumCache.topics[matchString];
+                    resolution = 'removed from cache, created again';
                 }
-            } else {
-                throw new Error('Topic creation returned unexpected result');
+                changes.push({matchString, cachedId, issue, liveTitle: live?.title, resolution});
+            }
+            // Topics closed for being removed from the config are handled by syncOrphanedTopics
+            if (!topic || orphaned.has(matchString)) {
+                continue;
             }
 
-            this.forumCache.topics[matchString] = topicId;
+            if (topic.closed) {
+                let resolution = 'still closed, forwards fail unless the account is an admin (set reopenClosedTopics)';
+                if (reopenClosed && !this.dryRun) {
+                    try {
+                        await this.gateway.editForumTopic(group, topic.id, {closed: false});
+                        topic.closed = false;
+                        resolution = 'reopened';
+                    } catch (error) {
+                        resolution = `could not reopen: ${(error as Error).message}`;
+                    }
+                } else if (reopenClosed) {
+                    resolution = 'would reopen';
+                }
+                changes.push({matchString, cachedId, issue: 'closed', resolution});
+            }
+            if (topic.hidden) {
+                changes.push({matchString, cachedId, issue: 'hidden', resolution: 'kept, hidden from the topic list'});
+            }
+        }
+
+        this.logTopicChanges(changes, cached.length);
+        if (changes.length > 0 && !this.dryRun) {
+            this.saveCache();
+        }
+        return changes;
+    }
+
+    /**
+     * Close the cached topics whose title is no longer configured, so they stop looking active, and
+     * reopen topics closed that way once they are configured again. Telegram only lets the General
+     * topic be hidden, so closing is as far as it goes.
+     */
+    async syncOrphanedTopics(group: Api.InputPeerChannel, configuredTitles: string[], policy: OrphanedTopicPolicy = 'close'): Promise<void> {
+        const configured = new Set(configuredTitles.map(normalizeTitle));
+        // Orphans deleted in Telegram were already dropped from the topic cache
+        const orphaned = new Set((this.forumCache.orphanedTopics ?? []).filter(matchString => matchString in this.forumCache.topics));
+        let changed = orphaned.size !== (this.forumCache.orphanedTopics ?? []).length;
+
+        for (const matchString of orphaned) {
+            if (!configured.has(normalizeTitle(matchString))) {
+                continue;
+            }
+            if (this.dryRun) {
+                console.log(`  🔍 [DRY RUN] Would reopen topic "${matchString}", it is configured again`);
+                continue;
+            }
+            try {
+                await this.gateway.editForumTopic(group, this.forumCache.topics[matchString], {closed: false});
+                orphaned.delete(matchString);
+                changed = true;
+                console.log(`  📂 Reopened topic "${matchString}", it is configured again`);
+            } catch (error) {
+                console.error(`  ⚠️  Could not reopen topic "${matchString}":`, (error as Error).message);
+            }
+        }
+
+        const toClose = policy === 'close'
+            ? Object.entries(this.forumCache.topics).filter(([matchString]) =>
+                !configured.has(normalizeTitle(matchString)) && !orphaned.has(matchString))
+            : [];
+        for (const [matchString, topicId] of toClose) {
+            if (this.dryRun) {
+                console.log(`  🔍 [DRY RUN] Would close topic "${matchString}", it is no longer configured`);
+                continue;
+            }
+            try {
+                const topic = (await this.getTopics(group)).find(t => t.id === topicId);
+                // Telegram refuses to close a topic that is closed already
+                if (topic && !topic.closed) {
+                    await this.gateway.editForumTopic(group, topicId, {closed: true});
+                    topic.closed = true;
+                }
+                orphaned.add(matchString);
+                changed = true;
+                console.log(`  🔒 Closed topic "${matchString}", it is no longer configured`);
+            } catch (error) {
+                console.error(`  ⚠️  Could not close topic "${matchString}":`, (error as Error).message);
+            }
+        }
+
+        if (changed && !this.dryRun) {
+            this.forumCache.orphanedTopics = [...orphaned];
             this.saveCache();
+        }
+    }
 
-            console.log(`  ✅ Created topic "${matchString}" with ID: ${topicId}`);
-            return topicId;
+    /**
+     * Set the custom emoji of existing topics to the configured one. Icon colors can only be
+     * chosen when a topic is created.
+     */
+    async syncTopicIcons(group: Api.InputPeerChannel, routes: TopicRoute[]): Promise<void> {
+        const withEmoji = routes.filter(route => route.iconEmojiId && this.forumCache.topics[route.title]);
+        if (withEmoji.length === 0 || this.dryRun) {
+            return;
+        }
+
+        try {
+            const topics = await this.getTopics(group);
+            for (const route of withEmoji) {
+                const topic = topics.find(t => t.id === this.forumCache.topics[route.title]);
+                if (!topic || topic.iconEmojiId === route.iconEmojiId) {
+                    continue;
+                }
+                await this.gateway.editForumTopic(group, topic.id, {iconEmojiId: route.iconEmojiId});
+                topic.iconEmojiId = route.iconEmojiId;
+                console.log(`  🎨 Updated the icon of topic "${route.title}"`);
+            }
         } catch (error) {
-            console.error(`  ❌ Error creating topic "${matchString}":`, error);
-            throw error;
+            console.error('  ⚠️  Could not update topic icons:', (error as Error).message);
         }
     }
 
-    private async findTopicByName(groupId: number, topicName: string): Promise<number | null> {
-        try {
-            const channelPeer = new Api.PeerChannel({
-                channelId: BigInt(Math.abs(groupId)) as any
-            });
+    /**
+     * Edit the pinned index message of a topic, or post and pin a new one if there is none yet
+     * or it was deleted.
+     */
+    async updateIndexMessage(group: Api.InputPeerChannel, matchString: string, text: string): Promise<void> {
+        const topicId = this.forumCache.topics[matchString];
+        if (!topicId) {
+            return;
+        }
+        if (this.dryRun) {
+            console.log(`  🔍 [DRY RUN] Would update the index of topic "${matchString}"`);
+            return;
+        }
 
-            const result = await this.client.invoke(
-                new Api.channels.GetForumTopics({
-                    channel: channelPeer,
-                    offsetDate: 0,
-                    offsetId: 0,
-                    offsetTopic: 0,
-                    limit: 100
-                })
-            );
+        const indexMessages = this.forumCache.indexMessages ??= {};
+        const messageId = indexMessages[matchString];
+        if (messageId) {
+            try {
+                await this.gateway.editMessage(group, messageId, text);
+                return;
+            } catch (error) {
+                if ((error as { errorMessage?: string }).errorMessage === 'MESSAGE_NOT_MODIFIED') {
+                    return;
+                }
+                console.log(`     Index message ${messageId} of "${matchString}" could not be edited (${(error as Error).message}), posting a new one`);
+            }
+        }
+
+        const newMessageId = await this.gateway.sendMessage(group, topicId, text);
+        if (newMessageId === undefined) {
+            throw new Error('Telegram did not report the ID of the index message');
+        }
+        await this.gateway.pinMessage(group, newMessageId);
+        indexMessages[matchString] = newMessageId;
+        this.saveCache();
+        console.log(`  📌 Pinned an index message in topic "${matchString}"`);
+    }
+
+    private logTopicChanges(changes: TopicCacheChange[], cachedCount: number): void {
+        if (changes.length === 0) {
+            console.log(`  ✅ Topic cache matches the forum (${cachedCount} topics)`);
+            return;
+        }
+
+        const prefix = this.dryRun ? '[DRY RUN] ' : '';
+        console.log(`  🔄 ${prefix}Topic cache differs from the forum:`);
+        for (const change of changes) {
+            const renamed = change.liveTitle !== undefined ? ` to "${change.liveTitle}"` : '';
+            console.log(`     ${change.issue === 'deleted' ? '-' : '~'} "${change.matchString}" (topic ${change.cachedId}): ${change.issue}${renamed} → ${change.resolution}`);
+        }
+    }
+
+    private async getTopics(group: Api.InputPeerChannel): Promise<ForumTopicInfo[]> {
+        const groupId = group.channelId.toString();
+        let topics = this.groupTopics.get(groupId);
+        if (!topics) {
+            topics = this.gateway.getForumTopics(group);
+            this.groupTopics.set(groupId, topics);
+            // Fetch again next time instead of keeping the failure for the rest of the run
+            topics.catch(() => this.groupTopics.delete(groupId));
+        }
+        return topics;
+    }
+
+    private async findTopicByName(group: Api.InputPeerChannel, topicName: string): Promise<number | null> {
+        try {
+            const topics = await this.getTopics(group);
 
             const normalizedSearchName = topicName.toLowerCase().trim();
 
-            if ('topics' in result && Array.isArray(result.topics)) {
-                for (const topic of result.topics) {
-                    if ('title' in topic) {
-                        const normalizedTitle = topic.title.toLowerCase().trim();
-                        if (normalizedTitle === normalizedSearchName && 'id' in topic) {
-                            return Number(topic.id);
-                        }
-                    }
+            for (const topic of topics) {
+                const normalizedTitle = topic.title.toLowerCase().trim();
+                if (normalizedTitle === normalizedSearchName) {
+                    return topic.id;
                 }
             }
 
@@ -1,71 +1,299 @@
-import {Api, TelegramClient} from 'telegram';
-import {ForwardingLogger, MessageStorage} from './storage';
-import {handleRateLimit} from '../utils/helpers';
+import {Api, utils} from 'telegram';
+import type {SortingConfig} from '../types/config';
+import {AccountPool, type TelegramAccount} from './account-pool';
+import {MessageStorage} from './storage';
+import type {ForwardItem} from './video-processor';
+import {getFloodWaitSeconds} from './rate-limiter';
+import {formatDuration} from '../utils/helpers';
+import {type SourcePeer, toInputPeer} from '../utils/peers';
+import {type CaptionValues, getMessageLink, renderCaptionTemplate} from '../utils/caption-template';
+
+// Errors that will not go away by retrying, so the forward is dead-lettered right away
+const PERMANENT_ERRORS = new Set([
+    'MESSAGE_ID_INVALID',
+    'MESSAGE_EMPTY',
+    'CHANNEL_PRIVATE',
+    'CHAT_ADMIN_REQUIRED',
+    'CHAT_FORWARDS_RESTRICTED',
+    'CopySourceError'
+]);
+
+// Maximum number of message IDs per ForwardMessages call
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * The source message has no document that could be re-sent, e.g. it was deleted.
+ */
+export class CopySourceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CopySourceError';
+    }
+}
+
+/**
+ * Telegram accepted a batch forward but left this message out of the result.
+ */
+export class ForwardSkippedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ForwardSkippedError';
+    }
+}
 
 export class MessageForwarder {
+    // Sources that refused a forward with CHAT_FORWARDS_RESTRICTED during this run
+    private restrictedSources = new Set<string>();
+
     constructor(
-        private client: TelegramClient,
+        private accounts: AccountPool,
         private storage: MessageStorage,
-        private logger: ForwardingLogger,
+        private sortConfig: SortingConfig,
     ) {
     }
 
-    async forwardMessage(
-        sourceId: number,
-        messageId: number,
-        forumGroupId: number,
+    /**
+     * Forward messages of one source to a topic, up to 100 per ForwardMessages call.
+     * Returns the success of every message, in order; failed messages are queued for a retry.
+     */
+    async forwardMessages(
+        source: SourcePeer,
+        forumGroup: Api.InputPeerChannel,
         targetTopicId: number,
-        fileName: string,
         topicName: string,
-        duration: number,
-        sizeMB: number,
-        normalizedName: string
-    ): Promise<boolean> {
-        let retryCount = 0;
-        let success = false;
-
-        while (!success && retryCount <= 3) {
-            try {
-                const channelPeer = new Api.PeerChannel({
-                    channelId: BigInt(Math.abs(forumGroupId)) as any
-                });
+        items: ForwardItem[]
+    ): Promise<boolean[]> {
+        const sourceKey = utils.getPeerId(source);
+        const results: boolean[] = [];
 
-                await this.client.invoke(
-                    new Api.messages.ForwardMessages({
-                        fromPeer: sourceId,
-                        id: [messageId],
-                        toPeer: channelPeer,
-                        topMsgId: targetTopicId,
-                        randomId: [Math.floor(Math.random() * 1e16) as any]
+        for (let i = 0; i < items.length; i += MAX_BATCH_SIZE) {
+            results.push(...await this.forwardBatch(source, sourceKey, forumGroup, targetTopicId, topicName, items.slice(i, i + MAX_BATCH_SIZE)));
+        }
+        return results;
+    }
+
+    private async forwardBatch(
+        source: SourcePeer,
+        sourceKey: string,
+        forumGroup: Api.InputPeerChannel,
+        targetTopicId: number,
+        topicName: string,
+        items: ForwardItem[]
+    ): Promise<boolean[]> {
+        // Copies are sent one message at a time
+        const copy = (this.sortConfig.deliveryMode ?? 'forward') !== 'forward' || this.restrictedSources.has(sourceKey);
+        if (items.length > 1 && copy) {
+            return this.forwardEach(source, sourceKey, forumGroup, targetTopicId, topicName, items);
+        }
+
+        let lastError: unknown;
+
+        // Channel message IDs are the same for every member; basic group message IDs are per account
+        const canFailover = sourceKey.startsWith('-100');
+        const owner = this.accounts.getSourceAccount(sourceKey);
+        let account = canFailover ? this.accounts.getForwardingAccount(sourceKey) ?? owner : owner;
+
+        // Short FLOOD_WAITs are already retried by the account's rate limiter; this loop only switches accounts
+        while (true) {
+            try {
+                const fromPeer = await this.resolveSourcePeer(account, source, sourceKey);
+                // Every account reaches the forum group with its own access hash
+                const group = account.forumGroup ?? forumGroup;
+                // A copy that did not throw was sent, even when its new message ID is unknown
+                const copiedId = copy
+                    ? await this.copyMessage(account, fromPeer, sourceKey, items[0].messageId, group, targetTopicId, {
+                        fileName: items[0].fileName,
+                        topicName,
+                        duration: items[0].duration ? formatDuration(Math.round(items[0].duration)) : undefined,
+                        sizeMB: items[0].sizeMB.toFixed(2),
+                        matchedKeywords: items[0].matchedKeywords?.join(', ') || undefined
                     })
-                );
-
-                console.log(`     ✅ Forwarded to "${topicName}"`);
-
-                this.logger.logForwardedVideo({
-                    timestamp: new Date().toISOString(),
-                    fileName,
-                    matchedKeyword: topicName,
-                    topicName: topicName,
-                    sourceGroup: sourceId,
-                    duration,
-                    sizeMB: Number(sizeMB.toFixed(2))
+                    : undefined;
+                const forwardedIds = copy
+                    ? undefined
+                    : await account.gateway.forwardMessages(fromPeer, items.map(item => item.messageId), group, targetTopicId);
+
+                const results = items.map((item, i) => {
+                    const forwardedMessageId = copy ? copiedId : forwardedIds?.[i];
+                    // Telegram silently skips messages it cannot forward, e.g. ones deleted meanwhile
+                    if (forwardedIds && forwardedMessageId === undefined) {
+                        this.recordFailure(sourceKey, targetTopicId, topicName, item,
+                            new ForwardSkippedError(`Message ${item.messageId} was not forwarded`));
+                        return false;
+                    }
+                    this.recordSuccess(sourceKey, targetTopicId, topicName, item, forwardedMessageId);
+                    return true;
                 });
 
-                // Note: Video is already saved to storage before forwarding (in video-processor.ts)
-                // to prevent race conditions with duplicate detection
-                success = true;
+                const count = results.filter(Boolean).length;
+                if (items.length > 1) {
+                    console.log(`     ✅ Forwarded ${count}/${items.length} videos to "${topicName}"`);
+                } else if (count > 0) {
+                    console.log(`     ✅ ${copy ? 'Copied' : 'Forwarded'} to "${topicName}"`);
+                }
+                return results;
             } catch (error) {
-                const shouldRetry = await handleRateLimit(error, retryCount);
-                if (shouldRetry) {
-                    retryCount++;
-                } else {
-                    console.error(`     ❌ Error forwarding message:`, error);
-                    break;
+                lastError = error;
+
+                // Protected sources refuse forwards but still allow their media to be re-sent
+                if (!copy && (error as { errorMessage?: string })?.errorMessage === 'CHAT_FORWARDS_RESTRICTED') {
+                    this.restrictedSources.add(sourceKey);
+                    console.log(`     🔒 Source ${sourceKey} does not allow forwarding, copying instead`);
+                    return this.forwardEach(source, sourceKey, forumGroup, targetTopicId, topicName, items);
+                }
+
+                // A long FLOOD_WAIT only blocks this account, so continue on another one instead of waiting
+                const floodSeconds = getFloodWaitSeconds(error);
+                if (canFailover && floodSeconds !== null && this.accounts.markFloodWait(account, floodSeconds)) {
+                    const next = this.accounts.getForwardingAccount(sourceKey, account);
+                    if (next) {
+                        console.log(`     🔀 Account "${account.name}" must wait ${floodSeconds}s, forwarding with "${next.name}"`);
+                        account = next;
+                        continue;
+                    }
                 }
+
+                console.error(`     ❌ Error forwarding message:`, error);
+                break;
             }
         }
 
-        return success;
+        // One bad message (e.g. MESSAGE_ID_INVALID) fails the whole call, so retry the others one by one
+        if (items.length > 1 && getFloodWaitSeconds(lastError) === null) {
+            console.log(`     ↪️  Forwarding the ${items.length} messages one by one`);
+            return this.forwardEach(source, sourceKey, forumGroup, targetTopicId, topicName, items);
+        }
+
+        for (const item of items) {
+            this.recordFailure(sourceKey, targetTopicId, topicName, item, lastError);
+        }
+        return items.map(() => false);
+    }
+
+    private async forwardEach(
+        source: SourcePeer,
+        sourceKey: string,
+        forumGroup: Api.InputPeerChannel,
+        targetTopicId: number,
+        topicName: string,
+        items: ForwardItem[]
+    ): Promise<boolean[]> {
+        const results: boolean[] = [];
+        for (const item of items) {
+            results.push(...await this.forwardBatch(source, sourceKey, forumGroup, targetTopicId, topicName, [item]));
+        }
+        return results;
+    }
+
+    private recordSuccess(
+        sourceKey: string,
+        targetTopicId: number,
+        topicName: string,
+        item: ForwardItem,
+        forwardedMessageId?: number
+    ): void {
+        // Note: Video is already saved to storage before forwarding (in video-processor.ts)
+        // to prevent race conditions with duplicate detection
+        this.storage.markVideoForwarded(topicName, item.normalizedName, forwardedMessageId);
+        this.storage.recordForward({
+            sourceId: sourceKey,
+            sourceMessageId: item.messageId,
+            topicName,
+            topicId: targetTopicId,
+            forwardedMessageId,
+            fileName: item.fileName,
+            duration: item.duration,
+            sizeMB: Number(item.sizeMB.toFixed(2))
+        });
+
+        if (this.storage.resolveFailedForward(sourceKey, item.messageId, topicName)) {
+            console.log(`     ♻️  Removed "${item.fileName}" from the failed-forward queue`);
+        }
+    }
+
+    private recordFailure(
+        sourceKey: string,
+        targetTopicId: number,
+        topicName: string,
+        item: ForwardItem,
+        error: unknown
+    ): void {
+        const {fileName, messageId, normalizedName, duration, sizeMB} = item;
+        const {errorClass, errorMessage} = this.describeError(error);
+        const failed = this.storage.recordFailedForward(
+            {sourceId: sourceKey, messageId, topicName, topicId: targetTopicId, fileName, normalizedName, duration, sizeMB},
+            errorClass,
+            errorMessage,
+            {
+                maxAttempts: this.sortConfig.failedForwards?.maxAttempts ?? 5,
+                retryDelaySeconds: (this.sortConfig.failedForwards?.retryDelayMinutes ?? 15) * 60,
+                deadLetter: PERMANENT_ERRORS.has(errorClass)
+            }
+        );
+
+        if (failed.queueStatus === 'dead') {
+            console.error(`     💀 Dead-lettered "${fileName}" → "${topicName}" after ${failed.attempts} attempt(s) (${errorClass})`);
+        } else {
+            const retryAt = new Date(failed.nextRetryAt * 1000).toISOString();
+            console.warn(`     📥 Queued "${fileName}" → "${topicName}" for retry at ${retryAt} (attempt ${failed.attempts}, ${errorClass})`);
+        }
+    }
+
+    /**
+     * Access hashes differ per account, so only the source's own account can use the peer it read the source with.
+     * Other accounts, and sources only known by ID, use the hash stored for the account or its entity cache.
+     */
+    private async resolveSourcePeer(account: TelegramAccount, source: SourcePeer, sourceKey: string): Promise<Api.TypeInputPeer> {
+        if (typeof source !== 'string' && account === this.accounts.getSourceAccount(sourceKey)) {
+            return source;
+        }
+        const stored = this.storage.getSourcePeer(account.name, sourceKey);
+        return stored ? toInputPeer(stored) : account.gateway.resolvePeer(sourceKey);
+    }
+
+    /**
+     * Re-send the document of a source message to the topic, which leaves out the "Forwarded from" header.
+     * The message is fetched on every attempt so the file reference is always fresh.
+     * A caption template is used in copy-with-caption mode, and for copies of restricted sources when one is configured.
+     */
+    private async copyMessage(
+        account: TelegramAccount,
+        fromPeer: Api.TypeInputPeer,
+        sourceKey: string,
+        messageId: number,
+        forumGroup: Api.InputPeerChannel,
+        targetTopicId: number,
+        values: CaptionValues
+    ): Promise<number | undefined> {
+        const [original] = await account.gateway.getMessages(fromPeer, [messageId]);
+        const document = original?.media instanceof Api.MessageMediaDocument ? original.media.document : undefined;
+        if (!(document instanceof Api.Document)) {
+            throw new CopySourceError(`Message ${messageId} of ${sourceKey} has no document to copy`);
+        }
+
+        // Plain copies keep the original caption and its formatting
+        const mode = this.sortConfig.deliveryMode ?? 'forward';
+        const withCaption = mode === 'copy-with-caption' || (mode === 'forward' && this.sortConfig.captionTemplate !== undefined);
+        const chat = original.chat as { title?: string; firstName?: string; lastName?: string; username?: string } | undefined;
+        const caption = withCaption
+            ? renderCaptionTemplate(this.sortConfig.captionTemplate ?? '{fileName}', {
+                ...values,
+                caption: original.message || undefined,
+                sourceTitle: chat?.title ?? ([chat?.firstName, chat?.lastName].filter(Boolean).join(' ') || undefined),
+                sourceLink: getMessageLink(sourceKey, messageId, chat?.username),
+                date: new Date(original.date * 1000).toISOString().slice(0, 10)
+            })
+            : original.message ?? '';
+
+        return account.gateway.sendDocument(forumGroup, targetTopicId, document, caption, withCaption ? undefined : original.entities);
+    }
+
+    private describeError(error: unknown): { errorClass: string; errorMessage: string } {
+        const rpcError = error as { errorMessage?: string; message?: string } | undefined;
+        // Telegram RPC errors carry a stable code like FLOOD_WAIT or CHANNEL_PRIVATE
+        const errorClass = rpcError?.errorMessage
+            || (error instanceof Error ? error.constructor.name : 'UnknownError');
+        const errorMessage = rpcError?.message ?? String(error);
+        return {errorClass, errorMessage};
     }
 }
@@ -0,0 +1,189 @@
+import type {TelegramClient} from 'telegram';
+import type {RateLimitConfig} from '../types/config';
+import {sleep} from '../utils/helpers';
+
+export type RequestClass = 'history' | 'forward' | 'delete' | 'other';
+
+const REQUEST_CLASSES: Record<string, RequestClass> = {
+    'messages.GetHistory': 'history',
+    'messages.GetReplies': 'history',
+    'messages.GetMessages': 'history',
+    'messages.GetDialogs': 'history',
+    'messages.Search': 'history',
+    'channels.GetMessages': 'history',
+    'channels.GetForumTopics': 'history',
+    'messages.ForwardMessages': 'forward',
+    'messages.SendMedia': 'forward',
+    'messages.SendMultiMedia': 'forward',
+    'messages.SendMessage': 'forward',
+    'messages.DeleteMessages': 'delete',
+    'channels.DeleteMessages': 'delete',
+    'channels.DeleteTopicHistory': 'delete'
+};
+
+const DEFAULT_PER_MINUTE: Record<RequestClass, number> = {
+    history: 120,
+    forward: 30,
+    delete: 60,
+    other: 300
+};
+
+// Pacing slows down by this factor per FLOOD_WAIT, up to MAX_SLOWDOWN, and recovers one step per minute without one
+const SLOWDOWN_FACTOR = 2;
+const MAX_SLOWDOWN = 8;
+const RECOVERY_MS = 60_000;
+
+export interface RateLimiterClock {
+    now(): number;
+    sleep(ms: number): Promise<void>;
+}
+
+interface TokenBucket {
+    perMs: number;          // Refill rate without slowdown
+    capacity: number;       // Burst size
+    tokens: number;
+    updatedAt: number;
+    blockedUntil: number;   // End of the last FLOOD_WAIT, epoch milliseconds
+    slowdown: number;
+    slowedAt: number;
+}
+
+/**
+ * Seconds Telegram asked to wait, or null if the error is no FLOOD_WAIT.
+ */
+export function getFloodWaitSeconds(error: unknown): number | null {
+    const rpcError = error as { errorMessage?: string; code?: number; seconds?: number } | undefined;
+    if (rpcError?.errorMessage === 'FLOOD_WAIT' || rpcError?.code === 420) {
+        return rpcError.seconds ?? 0;
+    }
+    return null;
+}
+
+export function classifyRequest(request: unknown): RequestClass {
+    const className = (request as { className?: string } | undefined)?.className;
+    return (className && REQUEST_CLASSES[className]) || 'other';
+}
+
+/**
+ * Paces every request of one account with a token bucket per request class. FLOOD_WAITs block
+ * their class for exactly the requested time and slow it down for a while. Waits shorter than
+ * waitThresholdSeconds are retried here; longer ones are thrown so callers can switch accounts.
+ */
+export class RateLimiter {
+    private buckets: Record<RequestClass, TokenBucket>;
+    private readonly maxRetries: number;
+
+    constructor(
+        config: RateLimitConfig = {},
+        private readonly waitThresholdSeconds: number = 60,
+        private readonly clock: RateLimiterClock = {now: Date.now, sleep}
+    ) {
+        const perMinute: Record<RequestClass, number> = {
+            history: config.historyPerMinute ?? DEFAULT_PER_MINUTE.history,
+            forward: config.forwardPerMinute ?? DEFAULT_PER_MINUTE.forward,
+            delete: config.deletePerMinute ?? DEFAULT_PER_MINUTE.delete,
+            other: config.otherPerMinute ?? DEFAULT_PER_MINUTE.other
+        };
+        const now = this.clock.now();
+        const bucket = (rate: number): TokenBucket => ({
+            perMs: rate / 60_000,
+            capacity: Math.max(1, Math.ceil(rate / 12)),
+            tokens: Math.max(1, Math.ceil(rate / 12)),
+            updatedAt: now,
+            blockedUntil: 0,
+            slowdown: 1,
+            slowedAt: 0
+        });
+
+        this.buckets = {
+            history: bucket(perMinute.history),
+            forward: bucket(perMinute.forward),
+            delete: bucket(perMinute.delete),
+            other: bucket(perMinute.other)
+        };
+        this.maxRetries = config.maxRetries ?? 3;
+    }
+
+    /**
+     * Route every invoke of the client through this limiter, including the ones GramJS makes
+     * internally for getMessages, getDialogs or file downloads.
+     */
+    attach(client: TelegramClient): TelegramClient {
+        const invoke = client.invoke.bind(client);
+        client.invoke = ((...args: Parameters<TelegramClient['invoke']>) =>
+            this.schedule(classifyRequest(args[0]), () => invoke(...args))) as TelegramClient['invoke'];
+        return client;
+    }
+
+    async schedule<T>(requestClass: RequestClass, send: () => Promise<T>): Promise<T> {
+        const bucket = this.buckets[requestClass];
+
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire(bucket);
+            try {
+                return await send();
+            } catch (error) {
+                const seconds = getFloodWaitSeconds(error);
+                if (seconds === null) {
+                    throw error;
+                }
+
+                this.recordFloodWait(bucket, seconds);
+                console.log(`  ⏳ FLOOD_WAIT of ${seconds}s on ${requestClass} requests, pacing them ${bucket.slowdown}x slower`);
+                if (seconds >= this.waitThresholdSeconds || attempt >= this.maxRetries) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Current pacing slowdown of a request class, 1 when no FLOOD_WAIT happened recently.
+     */
+    getSlowdown(requestClass: RequestClass): number {
+        const bucket = this.buckets[requestClass];
+        this.recover(bucket, this.clock.now());
+        return bucket.slowdown;
+    }
+
+    private async acquire(bucket: TokenBucket): Promise<void> {
+        while (true) {
+            const now = this.clock.now();
+            this.recover(bucket, now);
+
+            if (now < bucket.blockedUntil) {
+                await this.clock.sleep(bucket.blockedUntil - now);
+                continue;
+            }
+
+            const rate = bucket.perMs / bucket.slowdown;
+            bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * rate);
+            bucket.updatedAt = now;
+
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return;
+            }
+            await this.clock.sleep(Math.ceil((1 - bucket.tokens) / rate));
+        }
+    }
+
+    private recordFloodWait(bucket: TokenBucket, seconds: number): void {
+        const now = this.clock.now();
+        bucket.blockedUntil = Math.max(bucket.blockedUntil, now + seconds * 1000);
+        bucket.slowdown = Math.min(MAX_SLOWDOWN, bucket.slowdown * SLOWDOWN_FACTOR);
+        bucket.slowedAt = now;
+        // One request may go right when the wait ends, the next ones at the slowed-down pace
+        bucket.tokens = 1;
+        bucket.updatedAt = bucket.blockedUntil;
+    }
+
+    private recover(bucket: TokenBucket, now: number): void {
+        // Recovery counts from the end of the wait, not from when it was received
+        const since = Math.max(bucket.slowedAt, bucket.blockedUntil);
+        if (bucket.slowdown > 1 && now - since >= RECOVERY_MS) {
+            bucket.slowdown = Math.max(1, bucket.slowdown / SLOWDOWN_FACTOR);
+            bucket.slowedAt = now;
+        }
+    }
+}
@@ -0,0 +1,305 @@
+import * as fs from 'node:fs';
+import type Database from 'better-sqlite3';
+
+export class SchemaVersionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SchemaVersionError';
+    }
+}
+
+// Defers an action, such as renaming a file, until the migration's transaction has committed
+export type AfterCommit = (action: () => void) => void;
+
+export interface MigrationHooks {
+    importLegacyFiles(afterCommit: AfterCommit): void;  // Import the text/JSON files of releases before SQLite
+}
+
+export interface SchemaMigration {
+    version: number;
+    description: string;
+    migrate(db: Database.Database, hooks: MigrationHooks, afterCommit: AfterCommit): void;
+}
+
+export interface SchemaMigrationResult {
+    fromVersion: number;    // -1 for new and unversioned databases
+    toVersion: number;
+    backupFile?: string;
+}
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+/**
+ * Ordered schema migrations; append new steps with the next version number and never change released ones.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 0,
+        description: 'Baseline schema and legacy text/JSON files',
+        migrate(db, hooks, afterCommit) {
+            // Databases created before versioning have any subset of these tables and columns,
+            // so the baseline only creates what is missing
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS processed_messages
+                (
+                    message_id   TEXT PRIMARY KEY,
+                    processed_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+                );
+
+                CREATE TABLE IF NOT EXISTS processed_videos
+                (
+                    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+                    file_name       TEXT    NOT NULL,
+                    normalized_name TEXT    NOT NULL,
+                    topic_name      TEXT    NOT NULL,
+                    duration        REAL,
+                    size_mb         REAL,
+                    processed_at    INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    UNIQUE (normalized_name, topic_name)
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_normalized_name ON processed_videos (normalized_name);
+                CREATE INDEX IF NOT EXISTS idx_topic_name ON processed_videos (topic_name);
+                CREATE INDEX IF NOT EXISTS idx_normalized_topic ON processed_videos (normalized_name, topic_name);
+                CREATE INDEX IF NOT EXISTS idx_duration ON processed_videos (duration);
+                CREATE INDEX IF NOT EXISTS idx_size_mb ON processed_videos (size_mb);
+
+                CREATE TABLE IF NOT EXISTS source_scan_state
+                (
+                    source_id      TEXT PRIMARY KEY,
+                    max_message_id INTEGER NOT NULL,
+                    scanned_at     INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+                );
+
+                CREATE TABLE IF NOT EXISTS runs
+                (
+                    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+                    started_at  INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    finished_at INTEGER,
+                    status      TEXT    NOT NULL DEFAULT 'running',
+                    processed   INTEGER NOT NULL DEFAULT 0,
+                    forwarded   INTEGER NOT NULL DEFAULT 0
+                );
+
+                CREATE TABLE IF NOT EXISTS scan_checkpoints
+                (
+                    source_id      TEXT PRIMARY KEY,
+                    run_id         INTEGER,
+                    offset_id      INTEGER NOT NULL,
+                    min_id         INTEGER NOT NULL,
+                    max_message_id INTEGER NOT NULL,
+                    updated_at     INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+                );
+
+                CREATE TABLE IF NOT EXISTS forward_journal
+                (
+                    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+                    run_id          INTEGER,
+                    source_id       TEXT    NOT NULL,
+                    message_id      INTEGER NOT NULL,
+                    topic_name      TEXT    NOT NULL,
+                    topic_id        INTEGER NOT NULL,
+                    file_name       TEXT    NOT NULL,
+                    normalized_name TEXT    NOT NULL,
+                    duration        REAL,
+                    size_mb         REAL,
+                    status          TEXT    NOT NULL DEFAULT 'pending',
+                    attempts        INTEGER NOT NULL DEFAULT 0,
+                    created_at      INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    updated_at      INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    UNIQUE (source_id, message_id, topic_name)
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_forward_journal_status ON forward_journal (status);
+
+                CREATE TABLE IF NOT EXISTS failed_forwards
+                (
+                    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+                    source_id       TEXT    NOT NULL,
+                    message_id      INTEGER NOT NULL,
+                    topic_name      TEXT    NOT NULL,
+                    topic_id        INTEGER NOT NULL,
+                    file_name       TEXT    NOT NULL,
+                    normalized_name TEXT    NOT NULL,
+                    duration        REAL,
+                    size_mb         REAL,
+                    error_class     TEXT    NOT NULL,
+                    error_message   TEXT    NOT NULL,
+                    attempts        INTEGER NOT NULL DEFAULT 0,
+                    status          TEXT    NOT NULL DEFAULT 'queued',
+                    next_retry_at   INTEGER NOT NULL,
+                    created_at      INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    updated_at      INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    UNIQUE (source_id, message_id, topic_name)
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_failed_forwards_status ON failed_forwards (status, next_retry_at);
+
+                CREATE TABLE IF NOT EXISTS removed_duplicates
+                (
+                    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+                    topic_name      TEXT    NOT NULL,
+                    file_name       TEXT    NOT NULL,
+                    normalized_name TEXT    NOT NULL,
+                    matched_by      TEXT    NOT NULL,
+                    replaced_by     TEXT    NOT NULL,
+                    removed_at      INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+                );
+
+                CREATE TABLE IF NOT EXISTS forwards
+                (
+                    id                   INTEGER PRIMARY KEY AUTOINCREMENT,
+                    run_id               INTEGER,
+                    source_id            TEXT    NOT NULL,
+                    source_message_id    INTEGER,
+                    topic_name           TEXT    NOT NULL,
+                    topic_id             INTEGER,
+                    forwarded_message_id INTEGER,
+                    file_name            TEXT    NOT NULL,
+                    duration             REAL,
+                    size_mb              REAL,
+                    forwarded_at         INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_forwards_forwarded_at ON forwards (forwarded_at);
+            `);
+
+            addColumnIfMissing(db, 'processed_videos', 'document_id', 'TEXT');
+            addColumnIfMissing(db, 'processed_videos', 'file_hash', 'TEXT');
+            addColumnIfMissing(db, 'processed_videos', 'thumb_hash', 'TEXT');
+            addColumnIfMissing(db, 'processed_videos', 'width', 'INTEGER');
+            addColumnIfMissing(db, 'processed_videos', 'height', 'INTEGER');
+            db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_document_id ON processed_videos (document_id);
+                CREATE INDEX IF NOT EXISTS idx_file_hash ON processed_videos (file_hash);
+            `);
+
+            hooks.importLegacyFiles(afterCommit);
+        }
+    },
+    {
+        version: 1,
+        description: 'Source provenance of sorted videos',
+        migrate(db) {
+            db.exec(`
+                ALTER TABLE processed_videos ADD COLUMN source_id TEXT;
+                ALTER TABLE processed_videos ADD COLUMN source_message_id INTEGER;
+                ALTER TABLE processed_videos ADD COLUMN topic_id INTEGER;
+                ALTER TABLE processed_videos ADD COLUMN forum_message_id INTEGER;
+                ALTER TABLE processed_videos ADD COLUMN caption TEXT;
+                ALTER TABLE processed_videos ADD COLUMN forwarded_at INTEGER;
+
+                CREATE INDEX IF NOT EXISTS idx_source_message ON processed_videos (source_id, source_message_id);
+                CREATE INDEX IF NOT EXISTS idx_forum_message ON processed_videos (forum_message_id);
+            `);
+        }
+    },
+    {
+        version: 2,
+        description: 'Access hashes of source channels per account',
+        migrate(db) {
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS source_peers
+                (
+                    source_id   TEXT    NOT NULL,
+                    account     TEXT    NOT NULL,
+                    channel_id  TEXT    NOT NULL,
+                    access_hash TEXT    NOT NULL,
+                    updated_at  INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    PRIMARY KEY (source_id, account)
+                );
+            `);
+        }
+    },
+    {
+        version: 3,
+        description: 'Processed-message keys by marked source ID',
+        migrate(db) {
+            // Keys used to start with the bare chat ID ("123_45"), which does not tell a channel
+            // (-100123) from a basic group (-123), so both forms are kept. Earlier releases also wrote keys
+            // with the source entity ("[object Object]_45"), which name no source at all and are dropped.
+            const bareKey = `message_id GLOB '[0-9]*_[0-9]*' AND message_id NOT GLOB '*[^0-9_]*'`;
+            db.exec(`
+                INSERT OR IGNORE INTO processed_messages (message_id)
+                SELECT '-100' || message_id FROM processed_messages WHERE ${bareKey};
+                INSERT OR IGNORE INTO processed_messages (message_id)
+                SELECT '-' || message_id FROM processed_messages WHERE ${bareKey};
+                DELETE FROM processed_messages WHERE (${bareKey}) OR message_id LIKE '[object Object]_%';
+            `);
+        }
+    }
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Highest applied migration, or -1 for new and unversioned databases.
+ */
+export function getSchemaVersion(db: Database.Database): number {
+    const table = db.prepare('SELECT 1 FROM sqlite_master WHERE type = \'table\' AND name = \'schema_version\'').get();
+    if (!table) {
+        return -1;
+    }
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+    return row.version ?? -1;
+}
+
+/**
+ * Apply all pending migrations, each in its own transaction. Existing databases are copied
+ * next to the database file first. Throws a SchemaVersionError for databases of newer releases.
+ */
+export function migrateSchema(
+    db: Database.Database,
+    dbPath: string,
+    existingDatabase: boolean,
+    hooks: MigrationHooks,
+    migrations: SchemaMigration[] = SCHEMA_MIGRATIONS
+): SchemaMigrationResult {
+    const fromVersion = getSchemaVersion(db);
+    const latestVersion = migrations[migrations.length - 1].version;
+
+    if (fromVersion > latestVersion) {
+        throw new SchemaVersionError(
+            `Database ${dbPath} has schema version ${fromVersion}, but this release only supports up to version ${latestVersion}. ` +
+            'Update the sorter or restore a backup of the database.'
+        );
+    }
+
+    const pending = migrations.filter(migration => migration.version > fromVersion);
+    if (pending.length === 0) {
+        return {fromVersion, toVersion: fromVersion};
+    }
+
+    let backupFile: string | undefined;
+    if (existingDatabase) {
+        backupFile = `${dbPath}.${fromVersion < 0 ? 'unversioned' : `v${fromVersion}`}.backup`;
+        fs.copyFileSync(dbPath, backupFile);
+    }
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_version
+        (
+            version     INTEGER PRIMARY KEY,
+            description TEXT    NOT NULL,
+            applied_at  INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+        );
+    `);
+    const recordVersion = db.prepare('INSERT INTO schema_version (version, description) VALUES (?, ?)');
+
+    for (const migration of pending) {
+        // File system changes can't roll back with the transaction, so they only run once it committed
+        const committed: (() => void)[] = [];
+        db.transaction(() => {
+            migration.migrate(db, hooks, (action) => committed.push(action));
+            recordVersion.run(migration.version, migration.description);
+        })();
+        committed.forEach(action => action());
+    }
+
+    return {fromVersion, toVersion: pending[pending.length - 1].version, backupFile};
+}
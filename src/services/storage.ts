@@ -1,16 +1,163 @@
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import Database from 'better-sqlite3';
-import type {ForwardingLogEntry} from '../types/config';
+import type {ForwardingLogEntry, StoredPeer} from '../types/config';
+import {hammingDistance} from '../utils/perceptual-hash';
+import {migrateSchema} from './schema-migrations';
+import type {AfterCommit} from './schema-migrations';
 
 interface VideoMetadata {
     fileName: string;
     normalizedName: string;
     duration?: number;
     sizeMB?: number;
+    documentId?: string;
+    fileHash?: string;
+    thumbHash?: string;
+    width?: number;
+    height?: number;
 }
 
-interface VideoTopicMetadata extends VideoMetadata {
+export interface VideoTopicMetadata extends VideoMetadata {
     topicName: string;
+    matchedBy?: 'document' | 'hash' | 'thumbnail';  // Set for content matches, unset for name heuristics
+    forumMessageId?: number;  // Copy in the forum group, known once the forward succeeded
+}
+
+export interface VideoFingerprint {
+    documentId?: string;  // Telegram document ID, shared by every forward of the same upload
+    fileHash?: string;    // Digest of the upload.GetFileHashes chunk hashes, shared by re-uploads of the same file
+    thumbHash?: string;   // Perceptual hash of the video thumbnail, similar for re-encodes of the same clip
+}
+
+export interface VideoDetails extends VideoFingerprint {
+    width?: number;
+    height?: number;
+}
+
+export interface VideoSource {
+    sourceId: string;           // Marked peer ID of the source chat, e.g. -1001234567890
+    sourceMessageId: number;
+    topicId?: number;
+    caption?: string;
+}
+
+export interface SortedVideo extends VideoTopicMetadata, Partial<VideoSource> {
+    forwardedAt?: number;       // Unix seconds
+    processedAt: number;        // Unix seconds
+}
+
+export type RunStatus = 'running' | 'completed' | 'interrupted' | 'failed';
+export type ForwardStatus = 'pending' | 'done' | 'failed';
+
+export interface ScanCheckpoint {
+    offsetId: number;       // Pagination offset of the next history page
+    minId: number;          // High-water mark the interrupted scan was started with
+    maxMessageId: number;   // Highest message ID seen so far in the interrupted scan
+}
+
+export interface ForwardJournalEntry {
+    sourceId: string;
+    messageId: number;
+    topicName: string;
+    topicId: number;
+    fileName: string;
+    normalizedName: string;
+    duration?: number;
+    sizeMB?: number;
+    status?: ForwardStatus;
+    attempts?: number;
+}
+
+export type FailedForwardStatus = 'queued' | 'dead';
+
+export interface FailedForward extends ForwardJournalEntry {
+    id: number;
+    errorClass: string;
+    errorMessage: string;
+    attempts: number;
+    queueStatus: FailedForwardStatus;
+    nextRetryAt: number;    // Unix seconds
+    updatedAt: number;      // Unix seconds
+}
+
+export interface FailedForwardPolicy {
+    maxAttempts: number;
+    retryDelaySeconds: number;  // Delay before the first retry, doubled for every further attempt
+    deadLetter?: boolean;       // Dead-letter immediately (permanent error)
+}
+
+export interface TopicSummary {
+    topicName: string;
+    videoCount: number;
+    totalSizeMB: number;
+    lastAddedAt: number;    // Unix seconds
+}
+
+export interface CatalogVideo extends VideoTopicMetadata {
+    id: number;
+    processedAt: number;    // Unix seconds
+}
+
+export interface CatalogQuery {
+    topicName?: string;
+    search?: string;        // Substring of the file name, case-insensitive
+    limit?: number;
+    offset?: number;
+}
+
+export interface ForwardRecord {
+    sourceId: string;
+    sourceMessageId?: number;       // Unknown for entries migrated from forwarding-log.json
+    topicName: string;
+    topicId?: number;
+    forwardedMessageId?: number;    // ID of the copy in the forum group
+    fileName: string;
+    duration?: number;
+    sizeMB?: number;
+}
+
+export interface ForwardHistoryEntry extends ForwardRecord {
+    id: number;
+    runId?: number;
+    forwardedAt: number;    // Unix seconds
+}
+
+export interface RemovedDuplicate {
+    id: number;
+    topicName: string;
+    fileName: string;
+    normalizedName: string;
+    matchedBy: string;      // 'document', 'hash', 'thumbnail' or 'name'
+    replacedBy: string;     // File name of the copy that was kept
+    removedAt: number;      // Unix seconds
+}
+
+export interface RunSummary {
+    id: number;
+    startedAt: number;      // Unix seconds
+    finishedAt?: number;
+    status: RunStatus;
+    processed: number;
+    forwarded: number;
+}
+
+// Topic and forum message IDs are left out: they belong to the other instance's forum group
+export interface ImportedVideo extends VideoTopicMetadata, Partial<Omit<VideoSource, 'topicId'>> {
+    forwardedAt?: number;   // Unix seconds
+    processedAt?: number;   // Unix seconds
+}
+
+export interface CatalogMergeResult {
+    messagesAdded: number;
+    videosAdded: number;
+    videosUpdated: number;      // Already known, missing metadata filled in from the import
+    videosUnchanged: number;    // Already known with at least the imported metadata
+    addedPerTopic: Record<string, number>;
+}
+
+// Thrown inside the merge transaction to roll back a dry run
+class DryRunRollback extends Error {
 }
 
 export class MessageStorage {
@@ -19,21 +166,35 @@ export class MessageStorage {
     private readonly legacyLogFile: string;
     private readonly legacyVideoNamesFile: string;
     private readonly legacyMetadataFile: string;
+    private readonly legacyForwardingLogFile: string;
 
     // Prepared statement cache for performance
     private stmtHasMessage!: Database.Statement;
     private stmtSaveMessage!: Database.Statement;
     private stmtSaveVideo!: Database.Statement;
+    private stmtGetHighWaterMark!: Database.Statement;
+    private stmtSaveHighWaterMark!: Database.Statement;
+    private stmtRecordForward!: Database.Statement;
+    private stmtUpdateForwardStatus!: Database.Statement;
+    private stmtSaveForward!: Database.Statement;
+    private currentRunId: number | null = null;
 
     constructor(processedLogFile: string) {
         this.legacyLogFile = processedLogFile;
         this.legacyVideoNamesFile = processedLogFile.replace('.txt', '-videos.txt');
         this.legacyMetadataFile = processedLogFile.replace('.txt', '-metadata.json');
+        this.legacyForwardingLogFile = path.join(path.dirname(processedLogFile), 'forwarding-log.json');
         this.dbPath = processedLogFile.replace('.txt', '.db');
 
         // Initialize database
+        const existingDatabase = fs.existsSync(this.dbPath) && fs.statSync(this.dbPath).size > 0;
         this.db = new Database(this.dbPath);
-        this.initializeDatabase();
+        try {
+            this.initializeDatabase(existingDatabase);
+        } catch (error) {
+            this.db.close();
+            throw error;
+        }
         this.prepareStatements();
     }
 
@@ -42,56 +203,79 @@ export class MessageStorage {
         this.stmtHasMessage = this.db.prepare('SELECT 1 FROM processed_messages WHERE message_id = ? LIMIT 1');
         this.stmtSaveMessage = this.db.prepare('INSERT OR IGNORE INTO processed_messages (message_id) VALUES (?)');
         this.stmtSaveVideo = this.db.prepare(
-            'INSERT OR IGNORE INTO processed_videos (file_name, normalized_name, topic_name, duration, size_mb) VALUES (?, ?, ?, ?, ?)'
+            `INSERT OR IGNORE INTO processed_videos (file_name, normalized_name, topic_name, duration, size_mb, document_id, file_hash, thumb_hash, width, height,
+                                                     source_id, source_message_id, topic_id, caption)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         );
+        this.stmtGetHighWaterMark = this.db.prepare('SELECT max_message_id FROM source_scan_state WHERE source_id = ?');
+        this.stmtSaveHighWaterMark = this.db.prepare(`
+            INSERT INTO source_scan_state (source_id, max_message_id) VALUES (?, ?)
+            ON CONFLICT (source_id) DO UPDATE SET max_message_id = MAX(max_message_id, excluded.max_message_id),
+                                                  scanned_at     = strftime('%s', 'now')
+        `);
+        this.stmtRecordForward = this.db.prepare(`
+            INSERT INTO forward_journal (run_id, source_id, message_id, topic_name, topic_id, file_name, normalized_name, duration, size_mb)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (source_id, message_id, topic_name) DO UPDATE SET run_id     = excluded.run_id,
+                                                                          topic_id   = excluded.topic_id,
+                                                                          status     = 'pending',
+                                                                          updated_at = strftime('%s', 'now')
+        `);
+        this.stmtUpdateForwardStatus = this.db.prepare(`
+            UPDATE forward_journal
+            SET status     = ?,
+                attempts   = attempts + 1,
+                updated_at = strftime('%s', 'now')
+            WHERE source_id = ? AND message_id = ? AND topic_name = ?
+        `);
+        this.stmtSaveForward = this.db.prepare(`
+            INSERT INTO forwards (run_id, source_id, source_message_id, topic_name, topic_id, forwarded_message_id, file_name, duration, size_mb)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
     }
 
-    private initializeDatabase(): void {
-        // Create tables with indexes
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS processed_messages
-            (
-                message_id   TEXT PRIMARY KEY,
-                processed_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
-            );
-
-            CREATE TABLE IF NOT EXISTS processed_videos
-            (
-                id              INTEGER PRIMARY KEY AUTOINCREMENT,
-                file_name       TEXT    NOT NULL,
-                normalized_name TEXT    NOT NULL,
-                topic_name      TEXT    NOT NULL,
-                duration        REAL,
-                size_mb         REAL,
-                processed_at    INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
-                UNIQUE (normalized_name, topic_name)
-            );
+    private initializeDatabase(existingDatabase: boolean): void {
+        const {fromVersion, toVersion, backupFile} = migrateSchema(this.db, this.dbPath, existingDatabase, {
+            importLegacyFiles: (afterCommit) => {
+                this.loadProcessedMessages(afterCommit);
+                this.loadProcessedVideoNames(afterCommit);
+                this.loadForwardingLog(afterCommit);
+            }
+        });
 
-            CREATE INDEX IF NOT EXISTS idx_normalized_name ON processed_videos (normalized_name);
-            CREATE INDEX IF NOT EXISTS idx_topic_name ON processed_videos (topic_name);
-            CREATE INDEX IF NOT EXISTS idx_normalized_topic ON processed_videos (normalized_name, topic_name);
-            CREATE INDEX IF NOT EXISTS idx_duration ON processed_videos (duration);
-            CREATE INDEX IF NOT EXISTS idx_size_mb ON processed_videos (size_mb);
-        `);
+        if (existingDatabase && toVersion > fromVersion) {
+            const from = fromVersion < 0 ? 'unversioned' : `v${fromVersion}`;
+            console.log(`🗄️  Upgraded database schema from ${from} to v${toVersion} (backup: ${backupFile})`);
+        }
     }
 
-    loadProcessedMessages(): void {
+    // Legacy files are only imported by schema migration zero, which passes afterCommit so the
+    // files are renamed to *.backup once the import is committed, not while it can still roll back
+    loadProcessedMessages(afterCommit: AfterCommit = (action) => action()): void {
         // Check if legacy files exist and migrate
         if (fs.existsSync(this.legacyLogFile)) {
             console.log('📦 Migrating legacy message data to SQLite...');
-            this.migrateLegacyMessages();
+            this.migrateLegacyMessages(afterCommit);
         }
     }
 
-    loadProcessedVideoNames(): void {
+    loadProcessedVideoNames(afterCommit: AfterCommit = (action) => action()): void {
         // Check if legacy files exist and migrate
         if (fs.existsSync(this.legacyVideoNamesFile) || fs.existsSync(this.legacyMetadataFile)) {
             console.log('📦 Migrating legacy video data to SQLite...');
-            this.migrateLegacyVideos();
+            this.migrateLegacyVideos(afterCommit);
         }
     }
 
-    private migrateLegacyMessages(): void {
+    loadForwardingLog(afterCommit: AfterCommit = (action) => action()): void {
+        // Check if the legacy JSON forwarding log exists and migrate
+        if (fs.existsSync(this.legacyForwardingLogFile)) {
+            console.log('📦 Migrating legacy forwarding log to SQLite...');
+            this.migrateLegacyForwardingLog(afterCommit);
+        }
+    }
+
+    private migrateLegacyMessages(afterCommit: AfterCommit): void {
         const data = fs.readFileSync(this.legacyLogFile, 'utf-8');
         const insert = this.db.prepare('INSERT OR IGNORE INTO processed_messages (message_id) VALUES (?)');
         const insertMany = this.db.transaction((messages: string[]) => {
@@ -107,11 +291,12 @@ export class MessageStorage {
         insertMany(messages);
 
         // Backup and remove legacy file
-        fs.renameSync(this.legacyLogFile, `${this.legacyLogFile}.backup`);
+        const legacyLogFile = this.legacyLogFile;
+        afterCommit(() => fs.renameSync(legacyLogFile, `${legacyLogFile}.backup`));
         console.log(`   ✅ Migrated ${messages.length} messages (backup created)`);
     }
 
-    private migrateLegacyVideos(): void {
+    private migrateLegacyVideos(afterCommit: AfterCommit): void {
         let videos: VideoMetadata[] = [];
 
         // Try loading from metadata file first
@@ -147,15 +332,56 @@ export class MessageStorage {
         insertMany(videos);
 
         // Backup and remove legacy files
-        if (fs.existsSync(this.legacyMetadataFile)) {
-            fs.renameSync(this.legacyMetadataFile, `${this.legacyMetadataFile}.backup`);
-        }
-        if (fs.existsSync(this.legacyVideoNamesFile)) {
-            fs.renameSync(this.legacyVideoNamesFile, `${this.legacyVideoNamesFile}.backup`);
+        for (const file of [this.legacyMetadataFile, this.legacyVideoNamesFile]) {
+            if (fs.existsSync(file)) {
+                afterCommit(() => fs.renameSync(file, `${file}.backup`));
+            }
         }
         console.log(`   ✅ Migrated ${videos.length} videos to global scope (backups created)`);
     }
 
+    private migrateLegacyForwardingLog(afterCommit: AfterCommit): void {
+        let entries: ForwardingLogEntry[] = [];
+        try {
+            entries = JSON.parse(fs.readFileSync(this.legacyForwardingLogFile, 'utf-8'));
+        } catch (error) {
+            console.error('   ⚠️  Error loading forwarding log:', error);
+            return;
+        }
+
+        const insert = this.db.prepare(
+            'INSERT INTO forwards (source_id, topic_name, file_name, duration, size_mb, forwarded_at) VALUES (?, ?, ?, ?, ?, ?)'
+        );
+        const insertMany = this.db.transaction((entries: ForwardingLogEntry[]) => {
+            for (const entry of entries) {
+                const forwardedAt = Math.floor(Date.parse(entry.timestamp) / 1000);
+                insert.run(
+                    this.legacySourceId(entry.sourceGroup),
+                    entry.topicName ?? entry.matchedKeyword,
+                    entry.fileName,
+                    entry.duration ?? null,
+                    entry.sizeMB ?? null,
+                    Number.isNaN(forwardedAt) ? Math.floor(Date.now() / 1000) : forwardedAt
+                );
+            }
+        });
+
+        insertMany(entries);
+
+        // Backup and remove legacy file
+        const forwardingLogFile = this.legacyForwardingLogFile;
+        afterCommit(() => fs.renameSync(forwardingLogFile, `${forwardingLogFile}.backup`));
+        console.log(`   ✅ Migrated ${entries.length} forwarding log entries (backup created)`);
+    }
+
+    private legacySourceId(sourceGroup: unknown): string {
+        // Older logs serialized the whole source entity instead of its ID
+        if (typeof sourceGroup === 'object' && sourceGroup !== null && 'id' in sourceGroup) {
+            return String((sourceGroup as { id: unknown }).id);
+        }
+        return sourceGroup === undefined || sourceGroup === null ? 'unknown' : String(sourceGroup);
+    }
+
     saveProcessedMessage(messageId: string): void {
         this.stmtSaveMessage.run(messageId);
     }
@@ -164,9 +390,472 @@ export class MessageStorage {
         return this.stmtHasMessage.get(messageId) !== undefined;
     }
 
-    saveProcessedVideoName(fileName: string, topicName: string, duration?: number, sizeMB?: number, normalizedName?: string): void {
+    /**
+     * Highest message ID of a source whose history has been fully scanned (0 if never scanned).
+     */
+    getSourceHighWaterMark(sourceId: string): number {
+        const row = this.stmtGetHighWaterMark.get(sourceId) as { max_message_id: number } | undefined;
+        return row?.max_message_id ?? 0;
+    }
+
+    saveSourceHighWaterMark(sourceId: string, messageId: number): void {
+        this.stmtSaveHighWaterMark.run(sourceId, messageId);
+    }
+
+    /**
+     * Remember the access hash an account has for a source channel. Hashes differ per account,
+     * so each account resolves sources with its own.
+     */
+    saveSourcePeer(account: string, sourceId: string, peer: StoredPeer): void {
+        this.db.prepare(`
+            INSERT INTO source_peers (source_id, account, channel_id, access_hash) VALUES (?, ?, ?, ?)
+            ON CONFLICT (source_id, account) DO UPDATE SET channel_id  = excluded.channel_id,
+                                                           access_hash = excluded.access_hash,
+                                                           updated_at  = strftime('%s', 'now')
+        `).run(sourceId, account, peer.id, peer.accessHash);
+    }
+
+    getSourcePeer(account: string, sourceId: string): StoredPeer | null {
+        const row = this.db.prepare(
+            'SELECT channel_id, access_hash FROM source_peers WHERE source_id = ? AND account = ?'
+        ).get(sourceId, account) as { channel_id: string; access_hash: string } | undefined;
+
+        return row ? {id: row.channel_id, accessHash: row.access_hash} : null;
+    }
+
+    /**
+     * Start a new run. Runs still marked as running were killed before finishing
+     * and are marked interrupted; their number is returned.
+     */
+    startRun(): { runId: number; interruptedRuns: number } {
+        const interrupted = this.db.prepare(
+            'UPDATE runs SET status = \'interrupted\' WHERE status = \'running\''
+        ).run();
+        const result = this.db.prepare('INSERT INTO runs DEFAULT VALUES').run();
+        this.currentRunId = Number(result.lastInsertRowid);
+        return {runId: this.currentRunId, interruptedRuns: interrupted.changes};
+    }
+
+    finishRun(status: RunStatus, processed: number, forwarded: number): void {
+        if (this.currentRunId === null) return;
+        this.db.prepare(
+            'UPDATE runs SET status = ?, processed = ?, forwarded = ?, finished_at = strftime(\'%s\', \'now\') WHERE id = ?'
+        ).run(status, processed, forwarded, this.currentRunId);
+        this.currentRunId = null;
+    }
+
+    getScanCheckpoint(sourceId: string): ScanCheckpoint | null {
+        const row = this.db.prepare(
+            'SELECT offset_id, min_id, max_message_id FROM scan_checkpoints WHERE source_id = ?'
+        ).get(sourceId) as any;
+
+        return row ? {offsetId: row.offset_id, minId: row.min_id, maxMessageId: row.max_message_id} : null;
+    }
+
+    saveScanCheckpoint(sourceId: string, checkpoint: ScanCheckpoint): void {
+        this.db.prepare(`
+            INSERT INTO scan_checkpoints (source_id, run_id, offset_id, min_id, max_message_id) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (source_id) DO UPDATE SET run_id         = excluded.run_id,
+                                                  offset_id      = excluded.offset_id,
+                                                  min_id         = excluded.min_id,
+                                                  max_message_id = excluded.max_message_id,
+                                                  updated_at     = strftime('%s', 'now')
+        `).run(sourceId, this.currentRunId, checkpoint.offsetId, checkpoint.minId, checkpoint.maxMessageId);
+    }
+
+    /**
+     * Drop the checkpoint of a fully scanned source and advance its high-water mark.
+     */
+    completeSourceScan(sourceId: string, highestMessageId: number): void {
+        this.db.transaction(() => {
+            this.db.prepare('DELETE FROM scan_checkpoints WHERE source_id = ?').run(sourceId);
+            if (highestMessageId > 0) {
+                this.stmtSaveHighWaterMark.run(sourceId, highestMessageId);
+            }
+        })();
+    }
+
+    recordPendingForward(entry: ForwardJournalEntry): void {
+        this.stmtRecordForward.run(
+            this.currentRunId,
+            entry.sourceId,
+            entry.messageId,
+            entry.topicName,
+            entry.topicId,
+            entry.fileName,
+            entry.normalizedName,
+            entry.duration ?? null,
+            entry.sizeMB ?? null
+        );
+    }
+
+    markForwardDone(sourceId: string, messageId: number, topicName: string): void {
+        this.stmtUpdateForwardStatus.run('done', sourceId, messageId, topicName);
+    }
+
+    markForwardFailed(sourceId: string, messageId: number, topicName: string): void {
+        this.stmtUpdateForwardStatus.run('failed', sourceId, messageId, topicName);
+    }
+
+    /**
+     * Forwards that were started but never confirmed, oldest first. Failed forwards
+     * are retried through the failed-forward queue instead.
+     */
+    getUnfinishedForwards(): ForwardJournalEntry[] {
+        const rows = this.db.prepare(
+            'SELECT * FROM forward_journal WHERE status = \'pending\' ORDER BY id'
+        ).all() as any[];
+
+        return rows.map(row => ({
+            sourceId: row.source_id,
+            messageId: row.message_id,
+            topicName: row.topic_name,
+            topicId: row.topic_id,
+            fileName: row.file_name,
+            normalizedName: row.normalized_name,
+            duration: row.duration ?? undefined,
+            sizeMB: row.size_mb ?? undefined,
+            status: row.status,
+            attempts: row.attempts
+        }));
+    }
+
+    /**
+     * Queue a failed forward for a later retry, or dead-letter it once the policy's attempts are used up.
+     * Returns the stored entry.
+     */
+    recordFailedForward(
+        entry: ForwardJournalEntry,
+        errorClass: string,
+        errorMessage: string,
+        policy: FailedForwardPolicy
+    ): FailedForward {
+        return this.db.transaction(() => {
+            const existing = this.db.prepare(
+                'SELECT attempts FROM failed_forwards WHERE source_id = ? AND message_id = ? AND topic_name = ?'
+            ).get(entry.sourceId, entry.messageId, entry.topicName) as { attempts: number } | undefined;
+
+            const attempts = (existing?.attempts ?? 0) + 1;
+            const status: FailedForwardStatus = policy.deadLetter || attempts >= policy.maxAttempts ? 'dead' : 'queued';
+            const nextRetryAt = Math.floor(Date.now() / 1000) + policy.retryDelaySeconds * Math.pow(2, attempts - 1);
+
+            this.db.prepare(`
+                INSERT INTO failed_forwards (source_id, message_id, topic_name, topic_id, file_name, normalized_name, duration,
+                                             size_mb, error_class, error_message, attempts, status, next_retry_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT (source_id, message_id, topic_name) DO UPDATE SET topic_id      = excluded.topic_id,
+                                                                              error_class   = excluded.error_class,
+                                                                              error_message = excluded.error_message,
+                                                                              attempts      = excluded.attempts,
+                                                                              status        = excluded.status,
+                                                                              next_retry_at = excluded.next_retry_at,
+                                                                              updated_at    = strftime('%s', 'now')
+            `).run(
+                entry.sourceId,
+                entry.messageId,
+                entry.topicName,
+                entry.topicId,
+                entry.fileName,
+                entry.normalizedName,
+                entry.duration ?? null,
+                entry.sizeMB ?? null,
+                errorClass,
+                errorMessage,
+                attempts,
+                status,
+                nextRetryAt
+            );
+
+            if (status === 'dead') {
+                this.forgetUnforwardedVideo(entry.sourceId, entry.messageId, entry.topicName);
+            }
+
+            return this.mapFailedForward(this.db.prepare(
+                'SELECT * FROM failed_forwards WHERE source_id = ? AND message_id = ? AND topic_name = ?'
+            ).get(entry.sourceId, entry.messageId, entry.topicName));
+        })();
+    }
+
+    /**
+     * Remove the record a video was pre-registered with before its forward, so a video that never
+     * reached the topic does not block other copies as a duplicate. Forwarded videos are kept.
+     */
+    private forgetUnforwardedVideo(sourceId: string, messageId: number, topicName: string): void {
+        this.db.prepare(`
+            DELETE FROM processed_videos
+            WHERE source_id = ? AND source_message_id = ? AND topic_name = ?
+              AND forum_message_id IS NULL AND forwarded_at IS NULL
+        `).run(sourceId, messageId, topicName);
+    }
+
+    /**
+     * Remove a forward from the failed queue after it succeeded. Returns whether it was queued.
+     */
+    resolveFailedForward(sourceId: string, messageId: number, topicName: string): boolean {
+        return this.db.prepare(
+            'DELETE FROM failed_forwards WHERE source_id = ? AND message_id = ? AND topic_name = ?'
+        ).run(sourceId, messageId, topicName).changes > 0;
+    }
+
+    getFailedForwards(status?: FailedForwardStatus): FailedForward[] {
+        const rows = (status
+            ? this.db.prepare('SELECT * FROM failed_forwards WHERE status = ? ORDER BY id').all(status)
+            : this.db.prepare('SELECT * FROM failed_forwards ORDER BY id').all()) as any[];
+
+        return rows.map(row => this.mapFailedForward(row));
+    }
+
+    /**
+     * Queued failed forwards whose backoff delay has passed.
+     */
+    getDueFailedForwards(now: number = Math.floor(Date.now() / 1000)): FailedForward[] {
+        const rows = this.db.prepare(
+            'SELECT * FROM failed_forwards WHERE status = \'queued\' AND next_retry_at <= ? ORDER BY next_retry_at, id'
+        ).all(now) as any[];
+
+        return rows.map(row => this.mapFailedForward(row));
+    }
+
+    /**
+     * Put failed forwards (all dead-lettered ones if no IDs are given) back into the queue
+     * with a fresh attempt count, due immediately. Returns the number of requeued entries.
+     */
+    requeueFailedForwards(ids?: number[]): number {
+        if (ids?.length === 0) return 0;
+
+        return this.db.transaction(() => {
+            // Dead-lettered videos lost their pre-registered record, register them again for the retry
+            for (const entry of this.selectFailedForwards(ids).filter(entry => entry.queueStatus === 'dead')) {
+                this.saveProcessedVideoName(entry.fileName, entry.topicName, entry.duration, entry.sizeMB, entry.normalizedName, {},
+                    {sourceId: entry.sourceId, sourceMessageId: entry.messageId, topicId: entry.topicId});
+            }
+
+            if (ids) {
+                const placeholders = ids.map(() => '?').join(',');
+                return this.db.prepare(
+                    `UPDATE failed_forwards SET status = 'queued', attempts = 0, next_retry_at = 0, updated_at = strftime('%s', 'now') WHERE id IN (${placeholders})`
+                ).run(...ids).changes;
+            }
+
+            return this.db.prepare(
+                'UPDATE failed_forwards SET status = \'queued\', attempts = 0, next_retry_at = 0, updated_at = strftime(\'%s\', \'now\') WHERE status = \'dead\''
+            ).run().changes;
+        })();
+    }
+
+    /**
+     * Delete failed forwards (all dead-lettered ones if no IDs are given), together with the records
+     * their videos were pre-registered with. Returns the number of deleted entries.
+     */
+    dropFailedForwards(ids?: number[]): number {
+        if (ids?.length === 0) return 0;
+
+        return this.db.transaction(() => {
+            const entries = this.selectFailedForwards(ids);
+            const remove = this.db.prepare('DELETE FROM failed_forwards WHERE id = ?');
+            for (const entry of entries) {
+                this.forgetUnforwardedVideo(entry.sourceId, entry.messageId, entry.topicName);
+                remove.run(entry.id);
+            }
+            return entries.length;
+        })();
+    }
+
+    // The failed forwards with the given IDs, or all dead-lettered ones
+    private selectFailedForwards(ids?: number[]): FailedForward[] {
+        const rows = (ids
+            ? this.db.prepare(`SELECT * FROM failed_forwards WHERE id IN (${ids.map(() => '?').join(',')})`).all(...ids)
+            : this.db.prepare('SELECT * FROM failed_forwards WHERE status = \'dead\'').all()) as any[];
+
+        return rows.map(row => this.mapFailedForward(row));
+    }
+
+    private mapFailedForward(row: any): FailedForward {
+        return {
+            id: row.id,
+            sourceId: row.source_id,
+            messageId: row.message_id,
+            topicName: row.topic_name,
+            topicId: row.topic_id,
+            fileName: row.file_name,
+            normalizedName: row.normalized_name,
+            duration: row.duration ?? undefined,
+            sizeMB: row.size_mb ?? undefined,
+            errorClass: row.error_class,
+            errorMessage: row.error_message,
+            attempts: row.attempts,
+            queueStatus: row.status,
+            nextRetryAt: row.next_retry_at,
+            updatedAt: row.updated_at
+        };
+    }
+
+    saveProcessedVideoName(
+        fileName: string,
+        topicName: string,
+        duration?: number,
+        sizeMB?: number,
+        normalizedName?: string,
+        details?: VideoDetails,
+        source?: VideoSource
+    ): void {
         const normalized = normalizedName || fileName.toLowerCase();
-        this.stmtSaveVideo.run(fileName, normalized, topicName, duration ?? null, sizeMB ?? null);
+        this.stmtSaveVideo.run(
+            fileName,
+            normalized,
+            topicName,
+            duration ?? null,
+            sizeMB ?? null,
+            details?.documentId ?? null,
+            details?.fileHash ?? null,
+            details?.thumbHash ?? null,
+            details?.width ?? null,
+            details?.height ?? null,
+            source?.sourceId ?? null,
+            source?.sourceMessageId ?? null,
+            source?.topicId ?? null,
+            source?.caption ?? null
+        );
+    }
+
+    /**
+     * Record the forum copy of a video once its forward succeeded.
+     */
+    markVideoForwarded(topicName: string, normalizedName: string, forumMessageId?: number): void {
+        this.db.prepare(`
+            UPDATE processed_videos
+            SET forum_message_id = COALESCE(?, forum_message_id),
+                forwarded_at     = strftime('%s', 'now')
+            WHERE normalized_name = ? AND topic_name = ?
+        `).run(forumMessageId ?? null, normalizedName, topicName);
+    }
+
+    /**
+     * Where a sorted video came from and where it went, or null if it is not in the topic.
+     */
+    getVideoProvenance(topicName: string, normalizedName: string): SortedVideo | null {
+        const row = this.db.prepare(
+            'SELECT * FROM processed_videos WHERE topic_name = ? AND normalized_name = ?'
+        ).get(topicName, normalizedName);
+
+        return row ? this.mapSortedVideo(row) : null;
+    }
+
+    /**
+     * The video a forum message is a copy of, or null if the message was not forwarded by the sorter.
+     */
+    findVideoByForumMessage(forumMessageId: number): SortedVideo | null {
+        const row = this.db.prepare('SELECT * FROM processed_videos WHERE forum_message_id = ?').get(forumMessageId);
+        return row ? this.mapSortedVideo(row) : null;
+    }
+
+    /**
+     * Videos sorted from a source chat (optionally a single message of it), oldest message first.
+     */
+    getVideosFromSource(sourceId: string, sourceMessageId?: number): SortedVideo[] {
+        const rows = (sourceMessageId !== undefined
+            ? this.db.prepare(
+                'SELECT * FROM processed_videos WHERE source_id = ? AND source_message_id = ? ORDER BY topic_name'
+            ).all(sourceId, sourceMessageId)
+            : this.db.prepare(
+                'SELECT * FROM processed_videos WHERE source_id = ? ORDER BY source_message_id, topic_name'
+            ).all(sourceId)) as any[];
+
+        return rows.map(row => this.mapSortedVideo(row));
+    }
+
+    /**
+     * Sorted videos with their provenance, optionally of one topic only.
+     */
+    getSortedVideos(topicName?: string): SortedVideo[] {
+        const rows = (topicName !== undefined
+            ? this.db.prepare('SELECT * FROM processed_videos WHERE topic_name = ?').all(topicName)
+            : this.db.prepare('SELECT * FROM processed_videos').all()) as any[];
+
+        return rows.map(row => this.mapSortedVideo(row));
+    }
+
+    private mapSortedVideo(row: any): SortedVideo {
+        return {
+            ...this.mapVideoRow(row),
+            fileHash: row.file_hash ?? undefined,
+            thumbHash: row.thumb_hash ?? undefined,
+            sourceId: row.source_id ?? undefined,
+            sourceMessageId: row.source_message_id ?? undefined,
+            topicId: row.topic_id ?? undefined,
+            caption: row.caption ?? undefined,
+            forwardedAt: row.forwarded_at ?? undefined,
+            processedAt: row.processed_at
+        };
+    }
+
+    /**
+     * Videos in a topic that are the same Telegram document or have the same file hash.
+     */
+    findVideosByFingerprintInTopic(topicName: string, fingerprint?: VideoFingerprint): VideoTopicMetadata[] {
+        if (!fingerprint?.documentId && !fingerprint?.fileHash) {
+            return [];
+        }
+
+        const rows = this.db.prepare(`
+            SELECT file_name, normalized_name, topic_name, duration, size_mb, document_id, file_hash, width, height, forum_message_id
+            FROM processed_videos
+            WHERE (document_id = ? OR file_hash = ?) AND (topic_name = ? OR topic_name = '*')
+        `).all(fingerprint.documentId ?? null, fingerprint.fileHash ?? null, topicName) as any[];
+
+        return rows.map(row => ({
+            fileName: row.file_name,
+            normalizedName: row.normalized_name,
+            topicName: row.topic_name,
+            duration: row.duration ?? undefined,
+            sizeMB: row.size_mb ?? undefined,
+            documentId: row.document_id ?? undefined,
+            fileHash: row.file_hash ?? undefined,
+            width: row.width ?? undefined,
+            height: row.height ?? undefined,
+            forumMessageId: row.forum_message_id ?? undefined,
+            matchedBy: fingerprint.documentId && row.document_id === fingerprint.documentId ? 'document' : 'hash'
+        }));
+    }
+
+    /**
+     * Videos in a topic with a similar thumbnail and the same duration (within tolerance).
+     * A thumbnail alone is not enough: many videos share a black or title-card first frame.
+     */
+    findVideosByThumbnailInTopic(
+        topicName: string,
+        thumbHash: string | undefined,
+        duration: number | undefined,
+        durationTolerance: number,
+        maxDistance: number
+    ): VideoTopicMetadata[] {
+        if (!thumbHash || !duration) {
+            return [];
+        }
+
+        const rows = this.db.prepare(`
+            SELECT file_name, normalized_name, topic_name, duration, size_mb, document_id, file_hash, thumb_hash, width, height, forum_message_id
+            FROM processed_videos
+            WHERE thumb_hash IS NOT NULL AND duration IS NOT NULL AND (topic_name = ? OR topic_name = '*')
+        `).all(topicName) as any[];
+
+        return rows
+            .filter(row => Math.abs(row.duration - duration) <= durationTolerance &&
+                hammingDistance(row.thumb_hash, thumbHash) <= maxDistance)
+            .map(row => ({
+                fileName: row.file_name,
+                normalizedName: row.normalized_name,
+                topicName: row.topic_name,
+                duration: row.duration,
+                sizeMB: row.size_mb ?? undefined,
+                documentId: row.document_id ?? undefined,
+                fileHash: row.file_hash ?? undefined,
+                thumbHash: row.thumb_hash,
+                width: row.width ?? undefined,
+                height: row.height ?? undefined,
+                forumMessageId: row.forum_message_id ?? undefined,
+                matchedBy: 'thumbnail' as const
+            }));
     }
 
     isVideoDuplicateInTopic(fileName: string, topicName: string): boolean {
@@ -251,28 +940,42 @@ export class MessageStorage {
             durationToleranceSeconds?: number;
             checkFileSize?: boolean;
             fileSizeTolerancePercent?: number;
-        }
+            perceptualHashMaxDistance?: number;
+        },
+        fingerprint?: VideoFingerprint
     ): VideoTopicMetadata[] {
+        // The same document or file content is a certain duplicate, whatever its name
+        const contentMatches = this.findVideosByFingerprintInTopic(topicName, fingerprint);
+        if (contentMatches.length > 0) {
+            return contentMatches;
+        }
+
         const durationTolerance = options?.durationToleranceSeconds || 30;
         const sizeTolerance = options?.fileSizeTolerancePercent || 5;
         const nameSimilarityThreshold = 0.85;
-        const results: VideoTopicMetadata[] = [];
+
+        // Near-identical thumbnails with matching durations catch re-encodes under other names
+        const results: VideoTopicMetadata[] = this.findVideosByThumbnailInTopic(
+            topicName,
+            fingerprint?.thumbHash,
+            duration,
+            durationTolerance,
+            options?.perceptualHashMaxDistance ?? 10
+        );
         
         // First, check for exact normalized name matches
         const exactMatches = this.db.prepare(
-            'SELECT file_name, normalized_name, topic_name, duration, size_mb FROM processed_videos WHERE normalized_name = ? AND (topic_name = ? OR topic_name = \'*\')'
+            'SELECT file_name, normalized_name, topic_name, duration, size_mb, document_id, width, height, forum_message_id FROM processed_videos WHERE normalized_name = ? AND (topic_name = ? OR topic_name = \'*\')'
         ).all(normalizedName, topicName) as any[];
 
         for (const match of exactMatches) {
+            if (results.some(r => r.fileName === match.file_name && r.normalizedName === match.normalized_name)) {
+                continue;
+            }
+
             // If no advanced checks enabled, any exact name match is a duplicate
             if (!options?.checkDuration && !options?.checkFileSize) {
-                results.push({
-                    fileName: match.file_name,
-                    normalizedName: match.normalized_name,
-                    topicName: match.topic_name,
-                    duration: match.duration ?? undefined,
-                    sizeMB: match.size_mb ?? undefined
-                });
+                results.push(this.mapVideoRow(match));
                 continue;
             }
             
@@ -308,20 +1011,14 @@ export class MessageStorage {
             isDuplicate = durationMatches && sizeMatches;
             
             if (isDuplicate) {
-                results.push({
-                    fileName: match.file_name,
-                    normalizedName: match.normalized_name,
-                    topicName: match.topic_name,
-                    duration: match.duration ?? undefined,
-                    sizeMB: match.size_mb ?? undefined
-                });
+                results.push(this.mapVideoRow(match));
             }
         }
         
         // NEW: Check for similar names (for truncated Telegram filenames)
         if ((options?.checkDuration && duration) || (options?.checkFileSize && sizeMB)) {
             const allInTopic = this.db.prepare(
-                'SELECT file_name, normalized_name, topic_name, duration, size_mb FROM processed_videos WHERE (topic_name = ? OR topic_name = \'*\')'
+                'SELECT file_name, normalized_name, topic_name, duration, size_mb, document_id, width, height, forum_message_id FROM processed_videos WHERE (topic_name = ? OR topic_name = \'*\')'
             ).all(topicName) as any[];
             
             for (const candidate of allInTopic) {
@@ -351,13 +1048,7 @@ export class MessageStorage {
                     }
                     
                     if (isDuplicate) {
-                        results.push({
-                            fileName: candidate.file_name,
-                            normalizedName: candidate.normalized_name,
-                            topicName: candidate.topic_name,
-                            duration: candidate.duration ?? undefined,
-                            sizeMB: candidate.size_mb ?? undefined
-                        });
+                        results.push(this.mapVideoRow(candidate));
                     }
                 }
             }
@@ -367,7 +1058,7 @@ export class MessageStorage {
             // or when both are checked but names are completely different
             if (!results.length && ((options?.checkDuration && duration) || (options?.checkFileSize && sizeMB))) {
                 const allInTopic = this.db.prepare(
-                    'SELECT file_name, normalized_name, topic_name, duration, size_mb FROM processed_videos WHERE (topic_name = ? OR topic_name = \'*\')'
+                    'SELECT file_name, normalized_name, topic_name, duration, size_mb, document_id, width, height, forum_message_id FROM processed_videos WHERE (topic_name = ? OR topic_name = \'*\')'
                 ).all(topicName) as any[];
                 
                 for (const candidate of allInTopic) {
@@ -397,13 +1088,7 @@ export class MessageStorage {
                     }
                     
                     if (isDuplicate) {
-                        results.push({
-                            fileName: candidate.file_name,
-                            normalizedName: candidate.normalized_name,
-                            topicName: candidate.topic_name,
-                            duration: candidate.duration ?? undefined,
-                            sizeMB: candidate.size_mb ?? undefined
-                        });
+                        results.push(this.mapVideoRow(candidate));
                     }
                 }
             }
@@ -412,6 +1097,20 @@ export class MessageStorage {
         return results;
     }
 
+    private mapVideoRow(row: any): VideoTopicMetadata {
+        return {
+            fileName: row.file_name,
+            normalizedName: row.normalized_name,
+            topicName: row.topic_name,
+            duration: row.duration ?? undefined,
+            sizeMB: row.size_mb ?? undefined,
+            documentId: row.document_id ?? undefined,
+            width: row.width ?? undefined,
+            height: row.height ?? undefined,
+            forumMessageId: row.forum_message_id ?? undefined
+        };
+    }
+
     findSimilarVideoInTopic(
         fileName: string,
         normalizedName: string,
@@ -423,9 +1122,11 @@ export class MessageStorage {
             durationToleranceSeconds?: number;
             checkFileSize?: boolean;
             fileSizeTolerancePercent?: number;
-        }
+            perceptualHashMaxDistance?: number;
+        },
+        fingerprint?: VideoFingerprint
     ): VideoTopicMetadata | null {
-        const results = this.findAllSimilarVideosInTopic(fileName, normalizedName, topicName, duration, sizeMB, options);
+        const results = this.findAllSimilarVideosInTopic(fileName, normalizedName, topicName, duration, sizeMB, options, fingerprint);
         return results.length > 0 ? results[0] : null;
     }
 
@@ -482,45 +1183,257 @@ export class MessageStorage {
         }));
     }
 
-    getProcessedVideosInTopic(topicName: string): VideoTopicMetadata[] {
+    /**
+     * Remember duplicates that were replaced by a better copy, for the dashboard.
+     */
+    recordRemovedDuplicates(topicName: string, duplicates: VideoTopicMetadata[], replacedBy: string): void {
+        const insert = this.db.prepare(
+            'INSERT INTO removed_duplicates (topic_name, file_name, normalized_name, matched_by, replaced_by) VALUES (?, ?, ?, ?, ?)'
+        );
+        this.db.transaction(() => {
+            for (const duplicate of duplicates) {
+                insert.run(topicName, duplicate.fileName, duplicate.normalizedName, duplicate.matchedBy ?? 'name', replacedBy);
+            }
+        })();
+    }
+
+    getRemovedDuplicates(limit = 100): RemovedDuplicate[] {
         const rows = this.db.prepare(
-            'SELECT file_name, normalized_name, topic_name, duration, size_mb FROM processed_videos WHERE topic_name = ?'
-        ).all(topicName) as any[];
+            'SELECT * FROM removed_duplicates ORDER BY id DESC LIMIT ?'
+        ).all(limit) as any[];
 
         return rows.map(row => ({
+            id: row.id,
+            topicName: row.topic_name,
             fileName: row.file_name,
             normalizedName: row.normalized_name,
+            matchedBy: row.matched_by,
+            replacedBy: row.replaced_by,
+            removedAt: row.removed_at
+        }));
+    }
+
+    /**
+     * Video count and total size per topic, largest topics first.
+     */
+    getTopicSummaries(): TopicSummary[] {
+        const rows = this.db.prepare(`
+            SELECT topic_name, COUNT(*) AS video_count, COALESCE(SUM(size_mb), 0) AS total_size_mb, MAX(processed_at) AS last_added_at
+            FROM processed_videos
+            GROUP BY topic_name
+            ORDER BY video_count DESC, topic_name
+        `).all() as any[];
+
+        return rows.map(row => ({
             topicName: row.topic_name,
-            duration: row.duration ?? undefined,
-            sizeMB: row.size_mb ?? undefined
+            videoCount: row.video_count,
+            totalSizeMB: row.total_size_mb,
+            lastAddedAt: row.last_added_at
         }));
     }
 
-    close(): void {
-        this.db.close();
+    /**
+     * Catalog page, newest first, optionally limited to a topic and a file name substring.
+     */
+    searchVideos(query: CatalogQuery = {}): { total: number; videos: CatalogVideo[] } {
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.topicName !== undefined) {
+            conditions.push('topic_name = ?');
+            params.push(query.topicName);
+        }
+        if (query.search) {
+            // Escape LIKE wildcards so the search is a plain substring match
+            const pattern = `%${query.search.toLowerCase().replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+            conditions.push('(LOWER(file_name) LIKE ? ESCAPE \'\\\' OR normalized_name LIKE ? ESCAPE \'\\\')');
+            params.push(pattern, pattern);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const total = (this.db.prepare(`SELECT COUNT(*) AS count FROM processed_videos ${where}`).get(...params) as { count: number }).count;
+        const rows = this.db.prepare(`
+            SELECT * FROM processed_videos ${where}
+            ORDER BY processed_at DESC, id DESC
+            LIMIT ? OFFSET ?
+        `).all(...params, query.limit ?? 50, query.offset ?? 0) as any[];
+
+        return {
+            total,
+            videos: rows.map(row => ({
+                ...this.mapVideoRow(row),
+                id: row.id,
+                processedAt: row.processed_at
+            }))
+        };
     }
-}
 
-export class ForwardingLogger {
-    private logFile: string;
+    /**
+     * Append a successful forward to the forwarding history.
+     */
+    recordForward(record: ForwardRecord): void {
+        this.stmtSaveForward.run(
+            this.currentRunId,
+            record.sourceId,
+            record.sourceMessageId ?? null,
+            record.topicName,
+            record.topicId ?? null,
+            record.forwardedMessageId ?? null,
+            record.fileName,
+            record.duration ?? null,
+            record.sizeMB ?? null
+        );
+    }
+
+    /**
+     * Most recent forwards, newest first.
+     */
+    getRecentForwards(limit = 50): ForwardHistoryEntry[] {
+        const rows = this.db.prepare(
+            'SELECT * FROM forwards ORDER BY forwarded_at DESC, id DESC LIMIT ?'
+        ).all(limit) as any[];
 
-    constructor(logFile: string) {
-        this.logFile = logFile;
+        return rows.map(row => this.mapForwardRow(row));
     }
 
-    logForwardedVideo(entry: ForwardingLogEntry): void {
-        let logs: ForwardingLogEntry[] = [];
+    /**
+     * The complete forwarding history, oldest first.
+     */
+    getForwardHistory(): ForwardHistoryEntry[] {
+        const rows = this.db.prepare('SELECT * FROM forwards ORDER BY forwarded_at, id').all() as any[];
+        return rows.map(row => this.mapForwardRow(row));
+    }
 
-        if (fs.existsSync(this.logFile)) {
-            try {
-                logs = JSON.parse(fs.readFileSync(this.logFile, 'utf-8'));
-            } catch (error) {
-                console.error('Error loading forwarding log:', error);
-                logs = [];
+    private mapForwardRow(row: any): ForwardHistoryEntry {
+        return {
+            id: row.id,
+            runId: row.run_id ?? undefined,
+            sourceId: row.source_id,
+            sourceMessageId: row.source_message_id ?? undefined,
+            topicName: row.topic_name,
+            topicId: row.topic_id ?? undefined,
+            forwardedMessageId: row.forwarded_message_id ?? undefined,
+            fileName: row.file_name,
+            duration: row.duration ?? undefined,
+            sizeMB: row.size_mb ?? undefined,
+            forwardedAt: row.forwarded_at
+        };
+    }
+
+    getRuns(limit = 20): RunSummary[] {
+        const rows = this.db.prepare('SELECT * FROM runs ORDER BY id DESC LIMIT ?').all(limit) as any[];
+
+        return rows.map(row => ({
+            id: row.id,
+            startedAt: row.started_at,
+            finishedAt: row.finished_at ?? undefined,
+            status: row.status,
+            processed: row.processed,
+            forwarded: row.forwarded
+        }));
+    }
+
+    /**
+     * Merge processed messages and videos from another catalog. Videos already known in a topic
+     * (same normalized name) keep their record; only metadata the local record lacks is filled in.
+     * A dry run reports what would change without writing anything.
+     */
+    mergeCatalog(messageIds: string[], videos: ImportedVideo[], dryRun = false): CatalogMergeResult {
+        const result: CatalogMergeResult = {messagesAdded: 0, videosAdded: 0, videosUpdated: 0, videosUnchanged: 0, addedPerTopic: {}};
+
+        const findVideo = this.db.prepare('SELECT * FROM processed_videos WHERE normalized_name = ? AND topic_name = ?');
+        const insertVideo = this.db.prepare(`
+            INSERT INTO processed_videos (file_name, normalized_name, topic_name, duration, size_mb, document_id, file_hash, thumb_hash, width, height,
+                                          source_id, source_message_id, caption, forwarded_at, processed_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, strftime('%s', 'now')))
+        `);
+        const fillVideo = this.db.prepare(`
+            UPDATE processed_videos
+            SET duration    = COALESCE(duration, ?),
+                size_mb     = COALESCE(size_mb, ?),
+                document_id = COALESCE(document_id, ?),
+                file_hash   = COALESCE(file_hash, ?),
+                thumb_hash  = COALESCE(thumb_hash, ?),
+                width       = COALESCE(width, ?),
+                height      = COALESCE(height, ?),
+                source_id   = COALESCE(source_id, ?),
+                source_message_id = COALESCE(source_message_id, ?),
+                caption     = COALESCE(caption, ?),
+                forwarded_at = COALESCE(forwarded_at, ?)
+            WHERE id = ?
+        `);
+
+        const merge = this.db.transaction(() => {
+            for (const messageId of messageIds) {
+                result.messagesAdded += this.stmtSaveMessage.run(messageId).changes;
+            }
+
+            for (const video of videos) {
+                const values = [
+                    video.duration ?? null,
+                    video.sizeMB ?? null,
+                    video.documentId ?? null,
+                    video.fileHash ?? null,
+                    video.thumbHash ?? null,
+                    video.width ?? null,
+                    video.height ?? null,
+                    video.sourceId ?? null,
+                    video.sourceMessageId ?? null,
+                    video.caption ?? null,
+                    video.forwardedAt ?? null
+                ];
+                const existing = findVideo.get(video.normalizedName, video.topicName) as any;
+
+                if (!existing) {
+                    insertVideo.run(video.fileName, video.normalizedName, video.topicName, ...values, video.processedAt ?? null);
+                    result.videosAdded++;
+                    result.addedPerTopic[video.topicName] = (result.addedPerTopic[video.topicName] ?? 0) + 1;
+                    continue;
+                }
+
+                const columns = [
+                    'duration', 'size_mb', 'document_id', 'file_hash', 'thumb_hash', 'width', 'height',
+                    'source_id', 'source_message_id', 'caption', 'forwarded_at'
+                ];
+                if (columns.some((column, i) => existing[column] === null && values[i] !== null)) {
+                    fillVideo.run(...values, existing.id);
+                    result.videosUpdated++;
+                } else {
+                    result.videosUnchanged++;
+                }
+            }
+
+            if (dryRun) {
+                throw new DryRunRollback();
+            }
+        });
+
+        try {
+            merge();
+        } catch (error) {
+            if (!(error instanceof DryRunRollback)) {
+                throw error;
             }
         }
 
-        logs.push(entry);
-        fs.writeFileSync(this.logFile, JSON.stringify(logs, null, 2));
+        return result;
+    }
+
+    getProcessedVideosInTopic(topicName: string): VideoTopicMetadata[] {
+        const rows = this.db.prepare(
+            'SELECT file_name, normalized_name, topic_name, duration, size_mb FROM processed_videos WHERE topic_name = ?'
+        ).all(topicName) as any[];
+
+        return rows.map(row => ({
+            fileName: row.file_name,
+            normalizedName: row.normalized_name,
+            topicName: row.topic_name,
+            duration: row.duration ?? undefined,
+            sizeMB: row.size_mb ?? undefined
+        }));
+    }
+
+    close(): void {
+        this.db.close();
     }
 }
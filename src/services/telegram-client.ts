@@ -1,9 +1,10 @@
 import * as fs from 'node:fs';
 import {TelegramClient} from 'telegram';
 import {StringSession} from 'telegram/sessions';
+import {RateLimiter} from './rate-limiter';
 
 export class TelegramClientFactory {
-    static createClient(sessionFile: string): TelegramClient {
+    static createClient(sessionFile: string, rateLimiter: RateLimiter = new RateLimiter()): TelegramClient {
         const apiId = Number.parseInt(process.env.TELEGRAM_APP_ID ?? '', 10);
         const apiHash = process.env.TELEGRAM_APP_API_HASH ?? '';
 
@@ -25,8 +26,10 @@ export class TelegramClientFactory {
         }
 
         const stringSession = new StringSession(sessionString);
-        return new TelegramClient(stringSession, apiId, apiHash, {
-            connectionRetries: 3
+        const client = new TelegramClient(stringSession, apiId, apiHash, {
+            connectionRetries: 3,
+            floodSleepThreshold: 0  // FLOOD_WAITs are handled by the rate limiter
         });
+        return rateLimiter.attach(client);
     }
 }
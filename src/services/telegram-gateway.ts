@@ -0,0 +1,393 @@
+import {Api, helpers, TelegramClient, utils} from 'telegram';
+import type {Entity, EntityLike} from 'telegram/define';
+import type {TopicAppearance} from '../types/config';
+import {NewMessage, type NewMessageEvent} from 'telegram/events';
+
+export interface HistoryOptions {
+    offsetId: number;
+    limit: number;          // At most 100 (Telegram API limit)
+    minId?: number;         // Only return messages newer than this ID
+}
+
+export interface ForumTopicInfo {
+    id: number;
+    title: string;
+    closed: boolean;    // Only admins can post in closed topics
+    hidden: boolean;    // Only the General topic can be hidden
+    iconEmojiId?: string;
+}
+
+export interface ForumTopicEdit {
+    closed?: boolean;
+    iconEmojiId?: string;   // '0' removes the custom emoji
+}
+
+export interface GatewayDialog {
+    entity?: Entity;
+    title?: string;
+    isGroup: boolean;
+    isChannel: boolean;
+    archived: boolean;
+}
+
+// Telegram returns at most 100 topics per GetForumTopics request
+const TOPIC_PAGE_SIZE = 100;
+
+// New message ID of every forwarded message, in order, or undefined for messages Telegram left out.
+// Undefined as a whole when Telegram did not report individual messages (e.g. UpdatesTooLong).
+export type ForwardResult = (number | undefined)[] | undefined;
+
+/**
+ * The Telegram operations the sorter needs. GramJsGateway talks to Telegram; tests use an in-memory fake.
+ * Forum groups are passed as input peers, which carry the access hash Telegram needs with every call.
+ */
+export interface TelegramGateway {
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+
+    getDialogs(): Promise<GatewayDialog[]>;  // Every dialog, archived ones included
+    resolvePeer(peerId: string): Promise<Api.TypeInputPeer>;  // Marked ID, e.g. -100… for channels
+
+    getHistory(peer: EntityLike, options: HistoryOptions): Promise<Api.TypeMessage[]>;
+    getReplies(group: Api.InputPeerChannel, topicId: number, options: HistoryOptions): Promise<Api.TypeMessage[]>;
+    getMessages(peer: EntityLike, ids: number[]): Promise<(Api.Message | undefined)[]>;
+    getFileHashes(document: Api.Document): Promise<Api.FileHash[]>;
+    downloadThumbnail(message: Api.Message, thumb: Api.PhotoSize): Promise<Buffer | undefined>;
+
+    forwardMessages(fromPeer: EntityLike, messageIds: number[], group: Api.InputPeerChannel, topicId: number): Promise<ForwardResult>;
+    sendDocument(
+        group: Api.InputPeerChannel,
+        topicId: number,
+        document: Api.Document,
+        caption: string,
+        entities?: Api.TypeMessageEntity[]
+    ): Promise<number | undefined>;
+    deleteMessages(group: Api.InputPeerChannel, messageIds: number[]): Promise<void>;
+
+    checkChannelAccess(group: Api.InputPeerChannel): Promise<void>;  // Throws if the channel is gone or inaccessible
+    createForumGroup(title: string, about: string): Promise<Api.InputPeerChannel>;
+    getForumTopics(group: Api.InputPeerChannel): Promise<ForumTopicInfo[]>;  // Every topic of the group
+    createForumTopic(group: Api.InputPeerChannel, title: string, appearance?: TopicAppearance): Promise<number>;
+    editForumTopic(group: Api.InputPeerChannel, topicId: number, changes: ForumTopicEdit): Promise<void>;
+
+    sendMessage(group: Api.InputPeerChannel, topicId: number, text: string): Promise<number | undefined>;
+    editMessage(group: Api.InputPeerChannel, messageId: number, text: string): Promise<void>;  // Throws MESSAGE_NOT_MODIFIED for the same text
+    pinMessage(group: Api.InputPeerChannel, messageId: number): Promise<void>;  // Pins in the message's topic
+
+    onNewMessage(sources: EntityLike[], handler: (message: Api.Message) => void): () => void;  // Returns an unsubscribe function
+}
+
+export class GramJsGateway implements TelegramGateway {
+    private dialogs?: Promise<GatewayDialog[]>;
+
+    constructor(readonly client: TelegramClient) {
+    }
+
+    async connect(): Promise<void> {
+        await this.client.connect();
+    }
+
+    async disconnect(): Promise<void> {
+        await this.client.disconnect();
+    }
+
+    /**
+     * Dialogs of the main list and the archive folder, fetched page by page once per run. Creating
+     * a forum group adds a dialog, so it drops this cache.
+     */
+    async getDialogs(): Promise<GatewayDialog[]> {
+        if (!this.dialogs) {
+            this.dialogs = Promise.all([
+                this.client.getDialogs({archived: false}),
+                this.client.getDialogs({archived: true})
+            ]).then(([main, archived]) => [...main, ...archived]);
+            // Do not keep a failed fetch around for the rest of the run
+            this.dialogs.catch(() => this.dialogs = undefined);
+        }
+        return this.dialogs;
+    }
+
+    /**
+     * Entities carry per-account access hashes, so every account looks peers up in its own cache.
+     */
+    async resolvePeer(peerId: string): Promise<Api.TypeInputPeer> {
+        return this.client.getInputEntity(helpers.returnBigInt(peerId));
+    }
+
+    async getHistory(peer: EntityLike, options: HistoryOptions): Promise<Api.TypeMessage[]> {
+        const result = await this.client.invoke(
+            new Api.messages.GetHistory({
+                peer,
+                offsetId: options.offsetId,
+                limit: options.limit,
+                addOffset: 0,
+                maxId: 0,
+                minId: options.minId ?? 0,
+                hash: 0 as any
+            })
+        );
+        return 'messages' in result && Array.isArray(result.messages) ? result.messages : [];
+    }
+
+    async getReplies(group: Api.InputPeerChannel, topicId: number, options: HistoryOptions): Promise<Api.TypeMessage[]> {
+        const result = await this.client.invoke(
+            new Api.messages.GetReplies({
+                peer: group,
+                msgId: topicId,
+                offsetId: options.offsetId,
+                limit: options.limit,
+                addOffset: 0,
+                maxId: 0,
+                minId: options.minId ?? 0,
+                hash: 0 as any
+            })
+        );
+        return 'messages' in result && Array.isArray(result.messages) ? result.messages : [];
+    }
+
+    async getMessages(peer: EntityLike, ids: number[]): Promise<(Api.Message | undefined)[]> {
+        return [...await this.client.getMessages(peer, {ids})];
+    }
+
+    async getFileHashes(document: Api.Document): Promise<Api.FileHash[]> {
+        return this.client.invoke(
+            new Api.upload.GetFileHashes({
+                location: new Api.InputDocumentFileLocation({
+                    id: document.id,
+                    accessHash: document.accessHash,
+                    fileReference: document.fileReference,
+                    thumbSize: ''
+                }),
+                offset: 0 as any
+            })
+        );
+    }
+
+    async downloadThumbnail(message: Api.Message, thumb: Api.PhotoSize): Promise<Buffer | undefined> {
+        const jpeg = await this.client.downloadMedia(message, {thumb});
+        return jpeg && typeof jpeg !== 'string' ? jpeg : undefined;
+    }
+
+    async forwardMessages(fromPeer: EntityLike, messageIds: number[], group: Api.InputPeerChannel, topicId: number): Promise<ForwardResult> {
+        const randomIds = messageIds.map(() => helpers.generateRandomBigInt());
+        const updates = await this.client.invoke(
+            new Api.messages.ForwardMessages({
+                fromPeer,
+                id: messageIds,
+                toPeer: group,
+                topMsgId: topicId,
+                randomId: randomIds
+            })
+        );
+
+        const newIds = this.getNewMessageIds(updates);
+        return newIds && randomIds.map(randomId => newIds.get(randomId.toString()));
+    }
+
+    async sendDocument(
+        group: Api.InputPeerChannel,
+        topicId: number,
+        document: Api.Document,
+        caption: string,
+        entities?: Api.TypeMessageEntity[]
+    ): Promise<number | undefined> {
+        const randomId = helpers.generateRandomBigInt();
+        const updates = await this.client.invoke(
+            new Api.messages.SendMedia({
+                peer: group,
+                replyTo: new Api.InputReplyToMessage({replyToMsgId: topicId, topMsgId: topicId}),
+                media: new Api.InputMediaDocument({
+                    id: new Api.InputDocument({
+                        id: document.id,
+                        accessHash: document.accessHash,
+                        fileReference: document.fileReference
+                    })
+                }),
+                message: caption,
+                entities,
+                randomId
+            })
+        );
+        return this.getNewMessageIds(updates)?.get(randomId.toString());
+    }
+
+    async deleteMessages(group: Api.InputPeerChannel, messageIds: number[]): Promise<void> {
+        await this.client.invoke(
+            new Api.channels.DeleteMessages({
+                channel: group,
+                id: messageIds
+            })
+        );
+    }
+
+    async checkChannelAccess(group: Api.InputPeerChannel): Promise<void> {
+        await this.client.invoke(
+            new Api.channels.GetFullChannel({
+                channel: group
+            })
+        );
+    }
+
+    async createForumGroup(title: string, about: string): Promise<Api.InputPeerChannel> {
+        const result = await this.client.invoke(
+            new Api.channels.CreateChannel({
+                title,
+                about,
+                megagroup: true,
+                forum: true
+            })
+        );
+
+        if (!('chats' in result) || result.chats.length === 0) {
+            throw new Error('Group creation returned no chats');
+        }
+        const chat = result.chats[0];
+        if (!(chat instanceof Api.Channel)) {
+            throw new Error('Could not extract group ID from result');
+        }
+        this.dialogs = undefined;
+        return utils.getInputPeer(chat) as Api.InputPeerChannel;
+    }
+
+    /**
+     * Pages through the topics, most recently active first. Each page continues after the last topic
+     * of the previous one, identified by its ID and the ID and date of its latest message.
+     */
+    async getForumTopics(group: Api.InputPeerChannel): Promise<ForumTopicInfo[]> {
+        const topics = new Map<number, ForumTopicInfo>();
+        let offsetDate = 0;
+        let offsetId = 0;
+        let offsetTopic = 0;
+
+        while (true) {
+            const result = await this.client.invoke(
+                new Api.channels.GetForumTopics({
+                    channel: group,
+                    offsetDate,
+                    offsetId,
+                    offsetTopic,
+                    limit: TOPIC_PAGE_SIZE
+                })
+            );
+
+            const page = result.topics.filter((topic): topic is Api.ForumTopic => topic instanceof Api.ForumTopic);
+            for (const topic of page) {
+                topics.set(topic.id, {
+                    id: topic.id,
+                    title: topic.title,
+                    closed: Boolean(topic.closed),
+                    hidden: Boolean(topic.hidden),
+                    iconEmojiId: topic.iconEmojiId?.toString()
+                });
+            }
+
+            const last = page[page.length - 1];
+            if (result.topics.length < TOPIC_PAGE_SIZE || topics.size >= result.count || !last || last.id === offsetTopic) {
+                return [...topics.values()];
+            }
+
+            const lastMessage = result.messages.find(message => message.id === last.topMessage);
+            offsetDate = lastMessage && 'date' in lastMessage ? lastMessage.date : 0;
+            offsetId = last.topMessage;
+            offsetTopic = last.id;
+        }
+    }
+
+    async createForumTopic(group: Api.InputPeerChannel, title: string, appearance: TopicAppearance = {}): Promise<number> {
+        const result = await this.client.invoke(
+            new Api.channels.CreateForumTopic({
+                channel: group,
+                title,
+                iconColor: appearance.iconColor,
+                iconEmojiId: appearance.iconEmojiId ? helpers.returnBigInt(appearance.iconEmojiId) : undefined,
+                randomId: helpers.generateRandomBigInt()
+            })
+        );
+
+        if (!('updates' in result)) {
+            throw new Error('Topic creation returned unexpected result');
+        }
+        const messageUpdate = result.updates.find(
+            (update: any) => 'message' in update && 'id' in update.message
+        );
+        if (!messageUpdate) {
+            throw new Error('Could not extract topic ID from result');
+        }
+        return Number((messageUpdate as any).message.id);
+    }
+
+    async editForumTopic(group: Api.InputPeerChannel, topicId: number, changes: ForumTopicEdit): Promise<void> {
+        await this.client.invoke(
+            new Api.channels.EditForumTopic({
+                channel: group,
+                topicId,
+                closed: changes.closed,
+                iconEmojiId: changes.iconEmojiId !== undefined ? helpers.returnBigInt(changes.iconEmojiId) : undefined
+            })
+        );
+    }
+
+    async sendMessage(group: Api.InputPeerChannel, topicId: number, text: string): Promise<number | undefined> {
+        const randomId = helpers.generateRandomBigInt();
+        const updates = await this.client.invoke(
+            new Api.messages.SendMessage({
+                peer: group,
+                replyTo: new Api.InputReplyToMessage({replyToMsgId: topicId, topMsgId: topicId}),
+                message: text,
+                noWebpage: true,
+                randomId
+            })
+        );
+        // A single sent message comes back as UpdateShortSentMessage, without a random ID
+        if (updates instanceof Api.UpdateShortSentMessage) {
+            return updates.id;
+        }
+        return this.getNewMessageIds(updates)?.get(randomId.toString());
+    }
+
+    async editMessage(group: Api.InputPeerChannel, messageId: number, text: string): Promise<void> {
+        await this.client.invoke(
+            new Api.messages.EditMessage({
+                peer: group,
+                id: messageId,
+                message: text,
+                noWebpage: true
+            })
+        );
+    }
+
+    async pinMessage(group: Api.InputPeerChannel, messageId: number): Promise<void> {
+        await this.client.invoke(
+            new Api.messages.UpdatePinnedMessage({
+                peer: group,
+                id: messageId,
+                silent: true
+            })
+        );
+    }
+
+    onNewMessage(sources: EntityLike[], handler: (message: Api.Message) => void): () => void {
+        const eventBuilder = new NewMessage({chats: sources});
+        const listener = (event: NewMessageEvent) => handler(event.message);
+        this.client.addEventHandler(listener, eventBuilder);
+        return () => this.client.removeEventHandler(listener, eventBuilder);
+    }
+
+    /**
+     * IDs of the new messages by random ID, from the UpdateMessageID entries Telegram sends for
+     * every message it created. Undefined when Telegram sent no individual updates.
+     */
+    private getNewMessageIds(updates: Api.TypeUpdates): Map<string, number> | undefined {
+        if (!('updates' in updates)) {
+            return undefined;
+        }
+
+        const newIds = new Map<string, number>();
+        for (const update of updates.updates) {
+            if (update instanceof Api.UpdateMessageID) {
+                newIds.set(update.randomId.toString(), update.id);
+            }
+        }
+        return newIds;
+    }
+}
@@ -0,0 +1,43 @@
+import {Api} from 'telegram';
+import type {TelegramGateway} from './telegram-gateway';
+import {JpegDecodeError} from '../utils/jpeg-luma';
+import {thumbnailHash} from '../utils/perceptual-hash';
+
+export class ThumbnailFingerprinter {
+    constructor(private gateway: TelegramGateway) {
+    }
+
+    /**
+     * Perceptual hash of the largest JPEG thumbnail of a video message, or undefined if it has none
+     * or it cannot be downloaded or decoded. Re-encodes of the same clip get similar hashes.
+     */
+    async fingerprint(message: any, gateway: TelegramGateway = this.gateway): Promise<string | undefined> {
+        const document = message.media?.document;
+        if (!(document instanceof Api.Document)) {
+            return undefined;
+        }
+
+        // Stripped and vector thumbnails are too small to hash; pick the largest regular JPEG
+        const thumb = (document.thumbs ?? [])
+            .filter((size): size is Api.PhotoSize => size instanceof Api.PhotoSize)
+            .sort((a, b) => b.w * b.h - a.w * a.h)[0];
+        if (!thumb) {
+            return undefined;
+        }
+
+        try {
+            const jpeg = await gateway.downloadThumbnail(message, thumb);
+            if (!jpeg) {
+                return undefined;
+            }
+            return thumbnailHash(jpeg);
+        } catch (error) {
+            if (error instanceof JpegDecodeError) {
+                console.warn(`     ⚠️  ${error.message}, skipping thumbnail fingerprint`);
+            } else {
+                console.warn(`     ⚠️  Could not download thumbnail: ${(error as Error).message}`);
+            }
+            return undefined;
+        }
+    }
+}
@@ -1,30 +1,79 @@
-import {Api, TelegramClient} from 'telegram';
+import {createHash} from 'node:crypto';
+import {Api, utils} from 'telegram';
 import type {SortingConfig} from '../types/config';
-import {MessageStorage} from './storage';
-import {matchesVideo} from '../utils/video-matching';
-import {formatDuration, getFileName, getFileSizeMB, getVideoDuration, normalizeFileName, sleep, handleRateLimit} from '../utils/helpers';
+import {type FailedForward, type ForwardJournalEntry, MessageStorage, type VideoFingerprint, type VideoTopicMetadata} from './storage';
+import {ThumbnailFingerprinter} from './thumbnail-fingerprinter';
+import type {TelegramGateway} from './telegram-gateway';
+import type {MatchRule} from '../utils/match-rules';
+import {routeVideo, type TopicMatch, type TopicRoute} from '../utils/topic-routing';
+import {formatDuration, getDocumentId, getFileName, getFileSizeMB, getVideoDuration, getVideoResolution, normalizeFileName} from '../utils/helpers';
+import {DEFAULT_KEEP_POLICY, pickVideoToKeep} from '../utils/keep-policy';
+import type {SourcePeer} from '../utils/peers';
 
 export interface VideoProcessorResult {
     processed: number;
     forwarded: number;
 }
 
+export interface VideoProcessorOptions {
+    fullRescan?: boolean;  // Ignore stored high-water marks and scan the full history
+}
+
+export interface MessageProcessingResult {
+    processed: boolean;
+    forwarded: boolean;
+    queued: boolean;        // Added to the page's forward batch instead of forwarded right away
+    limitReached: boolean;
+}
+
+export interface ForwardItem {
+    messageId: number;
+    fileName: string;
+    duration: number;
+    sizeMB: number;
+    normalizedName: string;
+    matchedKeywords?: string[];  // Unknown for forwards resumed from an earlier run
+}
+
+// Forward a source's messages to one topic; resolves with the success of every item, in order
+export type ForwardCallback = (
+    source: SourcePeer,
+    forumGroup: Api.InputPeerChannel,
+    targetTopicId: number,
+    topicName: string,
+    items: ForwardItem[]
+) => Promise<boolean[]>;
+
+export interface QueuedForward {
+    topicName: string;
+    item: ForwardItem;
+}
+
 export interface VideoMetadata {
     fileName: string;
     normalizedName: string;
     duration: number | null;
     sizeMB: number;
+    documentId?: string;
+    fileHash?: string;
+    thumbHash?: string;
+    width?: number;
+    height?: number;
 }
 
 export class VideoProcessor {
     // Cache topic messages to avoid repeated GetReplies API calls
     private topicMessageCache: Map<string, Map<number, any>> = new Map();
+    private stopRequested = false;
+    private thumbnailFingerprinter: ThumbnailFingerprinter;
 
     constructor(
-        private client: TelegramClient,
+        private gateway: TelegramGateway,
         private storage: MessageStorage,
-        private sortConfig: SortingConfig
+        private sortConfig: SortingConfig,
+        private options: VideoProcessorOptions = {}
     ) {
+        this.thumbnailFingerprinter = new ThumbnailFingerprinter(gateway);
     }
 
     /**
@@ -34,43 +83,39 @@ export class VideoProcessor {
         this.topicMessageCache.clear();
     }
 
+    /**
+     * Ask a running history scan to stop after the current message.
+     */
+    requestStop(): void {
+        this.stopRequested = true;
+    }
+
+    isStopRequested(): boolean {
+        return this.stopRequested;
+    }
+
+    /**
+     * Delete the Telegram messages of duplicates a new video replaces. Their database
+     * records are removed by the caller before the new video is pre-registered.
+     */
     private async findAndDeleteDuplicatesInTopic(
-        forumGroupId: number,
+        forumGroup: Api.InputPeerChannel,
         topicId: number,
         topicName: string,
-        videoMeta: VideoMetadata
+        duplicates: VideoTopicMetadata[]
     ): Promise<number> {
-        // Find all duplicates in the topic
-        const duplicates = this.storage.findAllSimilarVideosInTopic(
-            videoMeta.fileName,
-            videoMeta.normalizedName,
-            topicName,
-            videoMeta.duration || undefined,
-            videoMeta.sizeMB,
-            this.sortConfig.duplicateDetection
-        );
-
-        if (duplicates.length === 0) {
-            return 0;
-        }
-
         console.log(`     🔍 Found ${duplicates.length} duplicate(s) in database for topic "${topicName}"`);
 
-        // Use cached messages or fetch from Telegram
-        const cacheKey = `${forumGroupId}_${topicId}`;
-        let messageMap = this.topicMessageCache.get(cacheKey);
-
-        if (!messageMap) {
-            console.log(`     📥 Fetching messages from topic "${topicName}" (not cached)...`);
-            messageMap = await this.fetchTopicMessages(forumGroupId, topicId);
-            this.topicMessageCache.set(cacheKey, messageMap);
-        } else {
-            console.log(`     ✅ Using cached messages for topic "${topicName}" (${messageMap.size} messages)`);
-        }
+        // Forwarded copies have their forum message ID recorded; only older records need a topic scan
+        const messageIdsToDelete = duplicates.flatMap(d => d.forumMessageId !== undefined ? [d.forumMessageId] : []);
+        const unlocated = duplicates.filter(d => d.forumMessageId === undefined);
+        const cacheKey = `${forumGroup.channelId}_${topicId}`;
+        const messageMap = unlocated.length > 0
+            ? await this.getTopicMessages(forumGroup, topicId, topicName)
+            : new Map<number, any>();
 
         // Find message IDs that still exist in Telegram and match our duplicates
         // IMPROVED: Match by name AND metadata (duration/size) for precise duplicate identification
-        const messageIdsToDelete: number[] = [];
         const durationTolerance = this.sortConfig.duplicateDetection?.durationToleranceSeconds || 30;
         const sizeTolerance = this.sortConfig.duplicateDetection?.fileSizeTolerancePercent || 5;
         
@@ -84,9 +129,13 @@ export class VideoProcessor {
             const normalizedName = normalizeFileName(fileName);
             const msgDuration = getVideoDuration(media.document);
             const msgSizeMB = getFileSizeMB(media.document);
+            const msgDocumentId = getDocumentId(media.document);
+
+            // Check if this message matches any of our duplicates (by document, or by name AND metadata)
+            const isDuplicate = unlocated.some(d => {
+                // Forwards keep the document ID, so an identical document is the duplicate itself
+                if (msgDocumentId && d.documentId) return d.documentId === msgDocumentId;
 
-            // Check if this message matches any of our duplicates (by name AND metadata)
-            const isDuplicate = duplicates.some(d => {
                 // Name must match
                 if (d.normalizedName !== normalizedName) return false;
                 
@@ -113,9 +162,6 @@ export class VideoProcessor {
 
         if (messageIdsToDelete.length === 0) {
             console.log(`     ℹ️  No duplicate messages found in Telegram topic "${topicName}" (they may have been deleted already)`);
-            // Clean up database entries for this specific topic
-            const normalizedNames = duplicates.map(d => d.normalizedName);
-            this.storage.deleteVideosFromTopic(normalizedNames, topicName);
             return 0;
         }
 
@@ -124,24 +170,13 @@ export class VideoProcessor {
         // Delete messages from Telegram
         if (!this.sortConfig.dryRun) {
             try {
-                await this.client.invoke(
-                    new Api.channels.DeleteMessages({
-                        channel: forumGroupId,
-                        id: messageIdsToDelete
-                    })
-                );
+                await this.gateway.deleteMessages(forumGroup, messageIdsToDelete);
                 console.log(`     ✅ Deleted ${messageIdsToDelete.length} duplicate message(s) from topic "${topicName}"`);
 
                 // Remove deleted messages from cache
                 for (const msgId of messageIdsToDelete) {
-                    messageMap.delete(msgId);
+                    this.topicMessageCache.get(cacheKey)?.delete(msgId);
                 }
-
-                // Also delete from database (for this specific topic)
-                const normalizedNames = duplicates.map(d => d.normalizedName);
-                this.storage.deleteVideosFromTopic(normalizedNames, topicName);
-
-                await sleep(500); // Wait after deletion
             } catch (error) {
                 console.error(`     ❌ Error deleting messages:`, error);
                 throw error;
@@ -153,11 +188,27 @@ export class VideoProcessor {
         return messageIdsToDelete.length;
     }
 
+    private async getTopicMessages(forumGroup: Api.InputPeerChannel, topicId: number, topicName: string): Promise<Map<number, any>> {
+        // Use cached messages or fetch from Telegram
+        const cacheKey = `${forumGroup.channelId}_${topicId}`;
+        let messageMap = this.topicMessageCache.get(cacheKey);
+
+        if (!messageMap) {
+            console.log(`     📥 Fetching messages from topic "${topicName}" (not cached)...`);
+            messageMap = await this.fetchTopicMessages(forumGroup, topicId);
+            this.topicMessageCache.set(cacheKey, messageMap);
+        } else {
+            console.log(`     ✅ Using cached messages for topic "${topicName}" (${messageMap.size} messages)`);
+        }
+
+        return messageMap;
+    }
+
     /**
      * Fetch all messages from a topic and return them as a Map for quick lookup
      */
     private async fetchTopicMessages(
-        forumGroupId: number,
+        forumGroup: Api.InputPeerChannel,
         topicId: number
     ): Promise<Map<number, any>> {
         const messageMap = new Map<number, any>();
@@ -168,63 +219,33 @@ export class VideoProcessor {
 
         while (hasMore && batchCount < maxBatches) {
             batchCount++;
-            let retryCount = 0;
-            let success = false;
-
-            while (!success && retryCount < 3) {
-                try {
-                    const result = await this.client.invoke(
-                        new Api.messages.GetReplies({
-                            peer: forumGroupId,
-                            msgId: topicId,
-                            offsetId,
-                            limit: 100,
-                            addOffset: 0,
-                            maxId: 0,
-                            minId: 0,
-                            hash: BigInt(0) as any
-                        })
-                    );
-
-                    const messages = 'messages' in result ? result.messages : [];
-                    
-                    if (messages.length === 0) {
-                        hasMore = false;
-                        break;
-                    }
 
-                    // Add to map
-                    for (const msg of messages) {
-                        if ('id' in msg) {
-                            messageMap.set(msg.id, msg);
-                        }
-                    }
-
-                    // Update offset for next batch
-                    const lastMessage = messages.at(-1);
-                    if (lastMessage && 'id' in lastMessage) {
-                        offsetId = lastMessage.id;
-                    } else {
-                        hasMore = false;
-                    }
+            // FLOOD_WAITs are waited out and retried by the client's rate limiter
+            try {
+                const messages = await this.gateway.getReplies(forumGroup, topicId, {offsetId, limit: 100});
+                
+                if (messages.length === 0) {
+                    hasMore = false;
+                    break;
+                }
 
-                    success = true;
-                } catch (error) {
-                    const shouldRetry = await handleRateLimit(error, retryCount);
-                    if (shouldRetry) {
-                        retryCount++;
-                        console.log(`     🔄 Retrying (attempt ${retryCount}/3)...`);
-                    } else {
-                        console.error(`     ❌ Error fetching topic messages:`, error);
-                        hasMore = false;
-                        break;
+                // Add to map
+                for (const msg of messages) {
+                    if ('id' in msg) {
+                        messageMap.set(msg.id, msg);
                     }
                 }
-            }
 
-            // Rate limiting: Wait longer between batches
-            if (hasMore && success) {
-                await sleep(500); // Increased from 100ms to 500ms
+                // Update offset for next batch
+                const lastMessage = messages.at(-1);
+                if (lastMessage && 'id' in lastMessage) {
+                    offsetId = lastMessage.id;
+                } else {
+                    hasMore = false;
+                }
+            } catch (error) {
+                console.error(`     ❌ Error fetching topic messages:`, error);
+                hasMore = false;
             }
         }
 
@@ -233,48 +254,43 @@ export class VideoProcessor {
     }
 
     async processSource(
-        sourceId: number,
-        forumGroupId: number,
+        source: Api.TypeInputPeer,
+        forumGroup: Api.InputPeerChannel,
         topicIds: Record<string, number>,
-        matches: string[],
-        exclusions: string[],
+        topics: TopicRoute[],
+        exclusions: MatchRule[],
         totalForwarded: number,
         forwardStats: Record<string, number>,
-        onForward: (
-            sourceId: number,
-            messageId: number,
-            forumGroupId: number,
-            targetTopicId: number,
-            fileName: string,
-            topicName: string,
-            duration: number,
-            sizeMB: number,
-            normalizedName: string
-        ) => Promise<boolean>
+        onForward: ForwardCallback,
+        gateway: TelegramGateway = this.gateway  // Account that reads this source
     ): Promise<VideoProcessorResult> {
         let processed = 0;
         let forwarded = totalForwarded;
         let offsetId = 0;
         let hasMore = true;
         let batchCount = 0;
+        // Matches of the current page, forwarded together once the page is done
+        const queuedForwards: QueuedForward[] = [];
+        let queuedMessages = 0;
+
+        // Only fetch messages newer than the last completed scan of this source
+        const sourceKey = utils.getPeerId(source);
+        const minId = this.options.fullRescan ? 0 : this.storage.getSourceHighWaterMark(sourceKey);
+        let highestMessageId = minId;
+        let scanCompleted = true;
+
+        // Resume an interrupted scan where it stopped, unless it was started from a different mark
+        const checkpoint = this.storage.getScanCheckpoint(sourceKey);
+        if (checkpoint && checkpoint.minId === minId) {
+            offsetId = checkpoint.offsetId;
+            highestMessageId = Math.max(highestMessageId, checkpoint.maxMessageId);
+            console.log(`  ↩️  Resuming interrupted scan before message ${offsetId}`);
+        } else if (minId > 0) {
+            console.log(`  ⏩ Scanning messages newer than ${minId} (use --full-rescan to scan the full history)`);
+        }
 
         while (hasMore) {
-            const result = await this.client.invoke(
-                new Api.messages.GetHistory({
-                    peer: sourceId,
-                    offsetId,
-                    limit: 100,  // Telegram API limit
-                    addOffset: 0,
-                    maxId: 0,
-                    minId: 0,
-                    hash: 0 as any
-                })
-            );
-
-            const messages =
-                'messages' in result && Array.isArray(result.messages)
-                    ? result.messages
-                    : [];
+            const messages = await gateway.getHistory(source, {offsetId, limit: 100, minId});  // Telegram API limit
 
             if (messages.length === 0) {
                 hasMore = false;
@@ -282,126 +298,62 @@ export class VideoProcessor {
             }
 
             batchCount++;
+
+            for (const message of messages) {
+                highestMessageId = Math.max(highestMessageId, message.id);
+            }
             
             // Quick filter: only process messages with media
             const mediaMessages = messages.filter(m => 'media' in m && m.media);
             console.log(`  📦 Batch ${batchCount}: ${messages.length} messages (${mediaMessages.length} with media)`);
 
             for (const message of mediaMessages) {
-                const messageId = `${sourceId}_${message.id}`;
-
-                // Skip already processed - don't count these
-                if (this.storage.hasProcessedMessage(messageId)) {
-                    continue;
+                if (this.stopRequested) {
+                    scanCompleted = false;
+                    hasMore = false;
+                    break;
                 }
 
-                // CRITICAL FIX: Mark as processed IMMEDIATELY to prevent duplicate processing
-                // in the same batch before the video is forwarded
-                this.storage.saveProcessedMessage(messageId);
-
-                const matchedStrings = matchesVideo(
-                    message as any,
-                    matches,
+                const messageResult = await this.processMessage(
+                    source,
+                    message,
+                    forumGroup,
+                    topicIds,
+                    topics,
                     exclusions,
-                    this.sortConfig.minVideoDurationInSeconds
+                    forwardStats,
+                    onForward,
+                    forwarded + queuedMessages < this.sortConfig.maxForwards,
+                    gateway,
+                    queuedForwards
                 );
-                
-                processed++;
-
-                if (matchedStrings.length > 0) {
-                    if (forwarded >= this.sortConfig.maxForwards) {
-                        console.log(
-                            `\n⚠️  Reached maximum forwards limit (${this.sortConfig.maxForwards}), stopping...`
-                        );
-                        hasMore = false;
-                        break;
-                    }
 
-                    const videoMeta = this.extractVideoMetadata(message);
-
-                    if (!this.validateVideoConstraints(videoMeta)) {
-                        continue;
-                    }
-
-                    // CRITICAL FIX: Pre-check if video already exists in ALL potential topics
-                    // This catches duplicates that were just processed in this batch
-                    const existingTopics: string[] = [];
-                    const newTopics: string[] = [];
-                    
-                    for (const topic of matchedStrings) {
-                        const existing = this.storage.findSimilarVideoInTopic(
-                            videoMeta.fileName,
-                            videoMeta.normalizedName,
-                            topic,
-                            videoMeta.duration || undefined,
-                            videoMeta.sizeMB,
-                            this.sortConfig.duplicateDetection
-                        );
-                        if (existing) {
-                            existingTopics.push(topic);
-                        } else {
-                            newTopics.push(topic);
-                        }
-                    }
-
-                    if (existingTopics.length > 0 && newTopics.length === 0) {
-                        console.log(`     ⏭️  Video already exists in ALL matching topics (${existingTopics.join(', ')}), skipping: "${videoMeta.fileName}"`);
-                        continue;
-                    } else if (existingTopics.length > 0) {
-                        console.log(`     ℹ️  Video exists in: ${existingTopics.join(', ')} | New topics: ${newTopics.join(', ')}`);
-                    }
-
-                    // CRITICAL FIX: Save to storage IMMEDIATELY for new topics to prevent race conditions
-                    // This ensures that if another identical video comes in during async operations below,
-                    // it will be caught by the duplicate check
-                    if (!this.sortConfig.dryRun) {
-                        for (const topic of newTopics) {
-                            this.storage.saveProcessedVideoName(
-                                videoMeta.fileName, 
-                                topic, 
-                                videoMeta.duration ?? undefined, 
-                                videoMeta.sizeMB, 
-                                videoMeta.normalizedName
-                            );
-                        }
-                        console.log(`     💾 Pre-registered video in ${newTopics.length} topic(s) to prevent race conditions`);
-                    }
-
-                    const {topicsToForward, deletedCount} = await this.getTopicsToForwardWithDuplicateHandling(
-                        forumGroupId,
-                        topicIds,
-                        videoMeta,
-                        matchedStrings
-                    );
-
-                    if (topicsToForward.length === 0) {
-                        console.log(`     ⏭️  No topics to forward to after duplicate handling`);
-                        continue;
-                    }
+                if (messageResult.processed) {
+                    processed++;
+                }
 
-                    if (deletedCount > 0) {
-                        console.log(`     ✨ Replaced ${deletedCount} duplicate(s), forwarding new version...`);
-                    }
+                if (messageResult.queued) {
+                    queuedMessages++;
+                }
 
-                    this.logVideoMatch(videoMeta, matchedStrings);
-
-                    const forwardResult = await this.forwardToTopics(
-                        sourceId,
-                        message.id,
-                        forumGroupId,
-                        topicIds,
-                        topicsToForward,
-                        videoMeta,
-                        forwardStats,
-                        onForward
+                if (messageResult.limitReached) {
+                    console.log(
+                        `\n⚠️  Reached maximum forwards limit (${this.sortConfig.maxForwards}), stopping...`
                     );
+                    scanCompleted = false;
+                    hasMore = false;
+                    break;
+                }
 
-                    if (forwardResult) {
-                        forwarded++;
-                    }
+                if (messageResult.forwarded) {
+                    forwarded++;
                 }
             }
 
+            forwarded += await this.forwardQueued(source, forumGroup, topicIds, queuedForwards, forwardStats, onForward);
+            queuedForwards.length = 0;
+            queuedMessages = 0;
+
             if (messages.length > 0) {
                 const lastMessage = messages.at(-1);
                 if (lastMessage) offsetId = lastMessage.id;
@@ -409,13 +361,269 @@ export class VideoProcessor {
                 hasMore = false;
             }
 
-            await sleep(500); // Increased from 100ms to 500ms for better rate limiting
+            // Checkpoint after each fully handled page so a crash or abort resumes from here
+            if (scanCompleted && !this.sortConfig.dryRun) {
+                this.storage.saveScanCheckpoint(sourceKey, {offsetId, minId, maxMessageId: highestMessageId});
+            }
+
+        }
+
+        // Advance the mark only after a complete scan, otherwise older unscanned messages would be skipped
+        if (scanCompleted && !this.sortConfig.dryRun) {
+            this.storage.completeSourceScan(sourceKey, highestMessageId);
         }
 
-        console.log(`  ✅ Finished processing source ${sourceId}`);
+        console.log(`  ✅ Finished processing source ${sourceKey}`);
         return {processed, forwarded};
     }
 
+    /**
+     * Run a single message through matching, duplicate handling and forwarding.
+     * Shared by the history scan and watch mode so both sort identically.
+     */
+    async processMessage(
+        source: Api.TypeInputPeer,
+        message: any,
+        forumGroup: Api.InputPeerChannel,
+        topicIds: Record<string, number>,
+        topics: TopicRoute[],
+        exclusions: MatchRule[],
+        forwardStats: Record<string, number>,
+        onForward: ForwardCallback,
+        canForward: boolean = true,
+        gateway: TelegramGateway = this.gateway,  // Account that reads this source
+        queuedForwards?: QueuedForward[]  // Collect the forwards here instead of sending them right away
+    ): Promise<MessageProcessingResult> {
+        const result: MessageProcessingResult = {processed: false, forwarded: false, queued: false, limitReached: false};
+        const sourceKey = utils.getPeerId(source);
+        const messageId = `${sourceKey}_${message.id}`;
+
+        // Skip already processed - don't count these
+        if (this.storage.hasProcessedMessage(messageId)) {
+            return result;
+        }
+
+        const topicMatches = routeVideo(message, topics, exclusions);
+
+        // Leave matches beyond maxForwards unprocessed, so the next run picks them up
+        if (topicMatches.length > 0 && !canForward) {
+            result.limitReached = true;
+            return result;
+        }
+
+        // Fetch fingerprints before marking the message processed: from here on there must be
+        // no await until the forwards are journaled, or a crash would lose the message
+        const fingerprint = topicMatches.length > 0
+            ? await this.fetchFingerprint(message, gateway)
+            : {};
+
+        // CRITICAL FIX: Mark as processed IMMEDIATELY to prevent duplicate processing
+        // in the same batch before the video is forwarded
+        this.storage.saveProcessedMessage(messageId);
+        result.processed = true;
+
+        if (topicMatches.length === 0) {
+            return result;
+        }
+
+        const videoMeta = {...this.extractVideoMetadata(message), ...fingerprint};
+
+        const eligibleMatches = topicMatches.filter(match => this.validateVideoConstraints(videoMeta, match.route));
+        if (eligibleMatches.length === 0) {
+            return result;
+        }
+        const matchedStrings = eligibleMatches.map(match => match.route.title);
+
+        // CRITICAL FIX: Resolve duplicates against storage BEFORE pre-registering the video,
+        // so the check never finds the video's own record
+        const {topicsToForward, replacements} = this.resolveDuplicates(videoMeta, matchedStrings);
+
+        if (topicsToForward.length === 0) {
+            console.log(`     ⏭️  Keeping existing copies in ALL matching topics (${matchedStrings.join(', ')}), skipping: "${videoMeta.fileName}"`);
+            return result;
+        }
+
+        // CRITICAL FIX: Save to storage IMMEDIATELY to prevent race conditions
+        // This ensures that if another identical video comes in during async operations below,
+        // it will be caught by the duplicate check
+        if (!this.sortConfig.dryRun) {
+            for (const [topic, duplicates] of replacements) {
+                this.storage.deleteVideosFromTopic(duplicates.map(d => d.normalizedName), topic);
+                this.storage.recordRemovedDuplicates(topic, duplicates, videoMeta.fileName);
+            }
+
+            for (const topic of topicsToForward) {
+                this.storage.saveProcessedVideoName(
+                    videoMeta.fileName, 
+                    topic, 
+                    videoMeta.duration ?? undefined, 
+                    videoMeta.sizeMB, 
+                    videoMeta.normalizedName,
+                    videoMeta,
+                    {sourceId: sourceKey, sourceMessageId: message.id, topicId: topicIds[topic], caption: message.message || undefined}
+                );
+            }
+            console.log(`     💾 Pre-registered video in ${topicsToForward.length} topic(s) to prevent race conditions`);
+
+            // Journal the forwards before the first await: the message is already marked processed,
+            // so if the process dies now the pending entries are what gets the forward retried
+            for (const topic of topicsToForward) {
+                this.storage.recordPendingForward({
+                    sourceId: sourceKey,
+                    messageId: message.id,
+                    topicName: topic,
+                    topicId: topicIds[topic],
+                    fileName: videoMeta.fileName,
+                    normalizedName: videoMeta.normalizedName,
+                    duration: videoMeta.duration ?? undefined,
+                    sizeMB: videoMeta.sizeMB
+                });
+            }
+
+            if (queuedForwards) {
+                for (const [topic, duplicates] of replacements) {
+                    const remaining = this.dropSupersededForwards(queuedForwards, sourceKey, topic, duplicates);
+                    if (remaining.length > 0) {
+                        replacements.set(topic, remaining);
+                    } else {
+                        replacements.delete(topic);
+                    }
+                }
+            }
+        }
+
+        let deletedCount = 0;
+        for (const [topic, duplicates] of replacements) {
+            deletedCount += await this.findAndDeleteDuplicatesInTopic(forumGroup, topicIds[topic], topic, duplicates);
+        }
+
+        if (deletedCount > 0) {
+            console.log(`     ✨ Replaced ${deletedCount} duplicate(s), forwarding new version...`);
+        }
+
+        this.logVideoMatch(videoMeta, eligibleMatches);
+
+        const forwards = topicsToForward.map(topic => ({
+            topicName: topic,
+            item: {
+                messageId: message.id,
+                fileName: videoMeta.fileName,
+                duration: videoMeta.duration ?? 0,
+                sizeMB: videoMeta.sizeMB,
+                normalizedName: videoMeta.normalizedName,
+                matchedKeywords: eligibleMatches.find(match => match.route.title === topic)?.keywords
+            }
+        }));
+
+        if (queuedForwards && !this.sortConfig.dryRun) {
+            queuedForwards.push(...forwards);
+            result.queued = true;
+            return result;
+        }
+
+        result.forwarded = await this.forwardToTopics(source, forumGroup, topicIds, forwards, forwardStats, onForward);
+
+        return result;
+    }
+
+    /**
+     * Remove the queued forwards of the current page that a duplicate just replaced. They were
+     * never forwarded, so their journal entries are closed instead of deleting anything in Telegram.
+     * Returns the duplicates that still need to be deleted.
+     */
+    private dropSupersededForwards(
+        queuedForwards: QueuedForward[],
+        sourceKey: string,
+        topicName: string,
+        duplicates: VideoTopicMetadata[]
+    ): VideoTopicMetadata[] {
+        const remaining: VideoTopicMetadata[] = [];
+
+        for (const duplicate of duplicates) {
+            const index = duplicate.forumMessageId === undefined
+                ? queuedForwards.findIndex(queued => queued.topicName === topicName && queued.item.normalizedName === duplicate.normalizedName)
+                : -1;
+            if (index === -1) {
+                remaining.push(duplicate);
+                continue;
+            }
+
+            const [{item}] = queuedForwards.splice(index, 1);
+            this.storage.markForwardDone(sourceKey, item.messageId, topicName);
+            console.log(`     🗑️  Dropped queued forward of "${item.fileName}" to "${topicName}"`);
+        }
+
+        return remaining;
+    }
+
+    /**
+     * Retry forwards left pending by a crashed run and failed forwards whose backoff has passed.
+     * Sources are looked up by peer ID among the currently accessible dialogs.
+     */
+    async resumeUnfinishedForwards(
+        sources: Map<string, Api.TypeInputPeer>,
+        forumGroup: Api.InputPeerChannel,
+        topicIds: Record<string, number>,
+        forwardStats: Record<string, number>,
+        onForward: ForwardCallback
+    ): Promise<number> {
+        if (this.sortConfig.dryRun) {
+            return 0;
+        }
+
+        const pending = this.storage.getUnfinishedForwards();
+        const due = this.storage.getDueFailedForwards();
+        if (pending.length === 0 && due.length === 0) {
+            return 0;
+        }
+
+        console.log(`\n↩️  Retrying ${pending.length} interrupted and ${due.length} failed forward(s) from previous runs...`);
+        const entries: (ForwardJournalEntry | FailedForward)[] = [...pending, ...due];
+        let resumed = 0;
+
+        // Retry the entries of each source and topic in one batch
+        const groups = new Map<string, (ForwardJournalEntry | FailedForward)[]>();
+        for (const entry of entries) {
+            const key = `${entry.sourceId}\u0000${entry.topicName}`;
+            groups.set(key, [...(groups.get(key) ?? []), entry]);
+        }
+
+        for (const group of groups.values()) {
+            if (this.stopRequested) break;
+
+            const [first] = group;
+            // Fall back to the peer ID; the forwarder resolves it with a stored access hash
+            const source = sources.get(first.sourceId) ?? first.sourceId;
+            const targetTopicId = topicIds[first.topicName] ?? first.topicId;
+
+            for (const entry of group) {
+                const reason = 'errorClass' in entry ? `failed: ${entry.errorClass}` : 'interrupted';
+                console.log(`  🎯 Retrying "${entry.fileName}" → "${entry.topicName}" (${reason}, ${entry.attempts} previous attempt(s))`);
+            }
+
+            const results = await onForward(source, forumGroup, targetTopicId, first.topicName, group.map(entry => ({
+                messageId: entry.messageId,
+                fileName: entry.fileName,
+                duration: entry.duration ?? 0,
+                sizeMB: entry.sizeMB ?? 0,
+                normalizedName: entry.normalizedName
+            })));
+
+            group.forEach((entry, i) => {
+                if (results[i]) {
+                    this.storage.markForwardDone(entry.sourceId, entry.messageId, entry.topicName);
+                    forwardStats[entry.topicName] = (forwardStats[entry.topicName] ?? 0) + 1;
+                    resumed++;
+                } else {
+                    this.storage.markForwardFailed(entry.sourceId, entry.messageId, entry.topicName);
+                }
+            });
+        }
+
+        console.log(`  ✅ Resumed ${resumed}/${entries.length} forward(s)`);
+        return resumed;
+    }
+
     private extractVideoMetadata(message: any): VideoMetadata {
         const document = message.media?.document;
         const duration = getVideoDuration(document);
@@ -425,76 +633,145 @@ export class VideoProcessor {
             ? normalizeFileName(fileName)
             : fileName.toLowerCase();
 
-        return {fileName, normalizedName, duration, sizeMB};
+        const resolution = getVideoResolution(document);
+
+        return {
+            fileName,
+            normalizedName,
+            duration,
+            sizeMB,
+            documentId: getDocumentId(document),
+            width: resolution?.width,
+            height: resolution?.height
+        };
+    }
+
+    /**
+     * Optional content fingerprints; each costs API calls, so they are off unless enabled in duplicateDetection.
+     */
+    private async fetchFingerprint(message: any, gateway: TelegramGateway): Promise<VideoFingerprint> {
+        const fileHash = await this.fetchFileHash(message, gateway);
+        const thumbHash = this.sortConfig.duplicateDetection?.usePerceptualHash
+            ? await this.thumbnailFingerprinter.fingerprint(message, gateway)
+            : undefined;
+        return {fileHash, thumbHash};
+    }
+
+    /**
+     * Fingerprint a document by its chunk hashes, which are the same for every upload of the same file.
+     * Disabled unless duplicateDetection.useFileHashes is set, since it costs an API call per video.
+     */
+    private async fetchFileHash(message: any, gateway: TelegramGateway): Promise<string | undefined> {
+        const document = message.media?.document;
+        if (!this.sortConfig.duplicateDetection?.useFileHashes || !(document instanceof Api.Document)) {
+            return undefined;
+        }
+
+        try {
+            const hashes = await gateway.getFileHashes(document);
+
+            if (hashes.length === 0) {
+                return undefined;
+            }
+
+            const digest = createHash('sha256').update(document.size.toString());
+            for (const fileHash of hashes) {
+                digest.update(fileHash.hash);
+            }
+            return digest.digest('hex');
+        } catch (error) {
+            console.warn(`     ⚠️  Could not fetch file hashes, falling back to name matching: ${(error as Error).message}`);
+            return undefined;
+        }
     }
 
-    private validateVideoConstraints(videoMeta: VideoMetadata): boolean {
+    private validateVideoConstraints(videoMeta: VideoMetadata, route: TopicRoute): boolean {
         const {fileName, duration, sizeMB} = videoMeta;
+        const {title, minFileSizeMB, maxFileSizeMB, maxVideoDurationInSeconds} = route;
 
         // Check file size constraints
-        if (this.sortConfig.minFileSizeMB && sizeMB < this.sortConfig.minFileSizeMB) {
-            console.log(`  ⏭️  Skipping (too small): "${fileName}" (${sizeMB.toFixed(2)} MB < ${this.sortConfig.minFileSizeMB} MB)`);
+        if (minFileSizeMB && sizeMB < minFileSizeMB) {
+            console.log(`  ⏭️  Skipping for "${title}" (too small): "${fileName}" (${sizeMB.toFixed(2)} MB < ${minFileSizeMB} MB)`);
             return false;
         }
-        if (this.sortConfig.maxFileSizeMB && sizeMB > this.sortConfig.maxFileSizeMB) {
-            console.log(`  ⏭️  Skipping (too large): "${fileName}" (${sizeMB.toFixed(2)} MB > ${this.sortConfig.maxFileSizeMB} MB)`);
+        if (maxFileSizeMB && sizeMB > maxFileSizeMB) {
+            console.log(`  ⏭️  Skipping for "${title}" (too large): "${fileName}" (${sizeMB.toFixed(2)} MB > ${maxFileSizeMB} MB)`);
             return false;
         }
 
         // Check duration constraints
-        if (this.sortConfig.maxVideoDurationInSeconds && duration && duration > this.sortConfig.maxVideoDurationInSeconds) {
-            console.log(`  ⏭️  Skipping (too long): "${fileName}" (${formatDuration(duration)} > ${formatDuration(this.sortConfig.maxVideoDurationInSeconds)})`);
+        if (maxVideoDurationInSeconds && duration && duration > maxVideoDurationInSeconds) {
+            console.log(`  ⏭️  Skipping for "${title}" (too long): "${fileName}" (${formatDuration(duration)} > ${formatDuration(maxVideoDurationInSeconds)})`);
             return false;
         }
 
         return true;
     }
 
-    private async getTopicsToForwardWithDuplicateHandling(
-        forumGroupId: number,
-        topicIds: Record<string, number>,
+    /**
+     * Decide per topic whether to forward the video. Where a duplicate already exists,
+     * the keep policy picks the better copy; identical files are never forwarded again.
+     * Returns the topics to forward to and, per topic, the duplicates the video replaces.
+     */
+    private resolveDuplicates(
         videoMeta: VideoMetadata,
         matchedStrings: string[]
-    ): Promise<{topicsToForward: string[], deletedCount: number}> {
+    ): {topicsToForward: string[], replacements: Map<string, VideoTopicMetadata[]>} {
         const {fileName, normalizedName, duration, sizeMB} = videoMeta;
+        const policy = this.sortConfig.duplicateDetection?.keepPolicy ?? DEFAULT_KEEP_POLICY;
         const topicsToForward: string[] = [];
-        let deletedCount = 0;
+        const replacements = new Map<string, VideoTopicMetadata[]>();
 
         for (const matchedString of matchedStrings) {
-            const similarVideo = this.storage.findSimilarVideoInTopic(
+            const duplicates = this.storage.findAllSimilarVideosInTopic(
                 fileName,
                 normalizedName,
                 matchedString,
                 duration || undefined,
                 sizeMB,
-                this.sortConfig.duplicateDetection
+                this.sortConfig.duplicateDetection,
+                videoMeta
             );
 
-            if (similarVideo) {
-                console.log(`     🔄 Duplicate exists in topic "${matchedString}": "${similarVideo.fileName}"`);
-                if (duration && similarVideo.duration) {
-                    console.log(`        ⏱️  Durations: ${formatDuration(duration)} vs ${formatDuration(similarVideo.duration)}`);
-                }
-                if (similarVideo.sizeMB) {
-                    console.log(`        📏 Sizes: ${sizeMB.toFixed(2)} MB vs ${similarVideo.sizeMB.toFixed(2)} MB`);
-                }
-                
-                // Delete the duplicates and then forward the new video
-                const topicId = topicIds[matchedString];
-                const deleted = await this.findAndDeleteDuplicatesInTopic(
-                    forumGroupId,
-                    topicId,
-                    matchedString,
-                    videoMeta
-                );
-                deletedCount += deleted;
+            if (duplicates.length === 0) {
                 topicsToForward.push(matchedString);
-            } else {
+                continue;
+            }
+
+            const [similarVideo] = duplicates;
+            console.log(`     🔄 Duplicate exists in topic "${matchedString}": "${similarVideo.fileName}"`);
+            if (similarVideo.matchedBy) {
+                const matchDescriptions = {document: 'Identical Telegram document', hash: 'Identical file content', thumbnail: 'Similar thumbnail'};
+                console.log(`        🧬 ${matchDescriptions[similarVideo.matchedBy]}`);
+            }
+            if (duration && similarVideo.duration) {
+                console.log(`        ⏱️  Durations: ${formatDuration(duration)} vs ${formatDuration(similarVideo.duration)}`);
+            }
+            if (similarVideo.sizeMB) {
+                console.log(`        📏 Sizes: ${sizeMB.toFixed(2)} MB vs ${similarVideo.sizeMB.toFixed(2)} MB`);
+            }
+
+            if (duplicates.some(d => d.matchedBy === 'document' || d.matchedBy === 'hash')) {
+                console.log(`     ⏭️  Same file already in topic "${matchedString}", skipping`);
+                continue;
+            }
+
+            // The incoming video is always the newest candidate
+            const keep = pickVideoToKeep([
+                ...duplicates.map(d => ({...d, order: 0})),
+                {...videoMeta, order: 1}
+            ], policy);
+
+            if (keep.order === 1) {
+                console.log(`     ♻️  New version wins in "${matchedString}" (keep policy: ${policy}), replacing ${duplicates.length} duplicate(s)`);
                 topicsToForward.push(matchedString);
+                replacements.set(matchedString, duplicates);
+            } else {
+                console.log(`     ⏭️  Keeping existing "${keep.fileName}" in "${matchedString}" (keep policy: ${policy})`);
             }
         }
 
-        return {topicsToForward, deletedCount};
+        return {topicsToForward, replacements};
     }
 
     // Legacy method kept for backward compatibility
@@ -512,7 +789,8 @@ export class VideoProcessor {
                 matchedString,
                 duration || undefined,
                 sizeMB,
-                this.sortConfig.duplicateDetection
+                this.sortConfig.duplicateDetection,
+                videoMeta
             );
 
             if (similarVideo) {
@@ -531,77 +809,80 @@ export class VideoProcessor {
         return topicsToForward;
     }
 
-    private logVideoMatch(videoMeta: VideoMetadata, matchedStrings: string[]): void {
+    private logVideoMatch(videoMeta: VideoMetadata, topicMatches: TopicMatch[]): void {
         const {fileName, duration, sizeMB} = videoMeta;
+        const matchDescriptions = topicMatches.map(({route, keywords}) =>
+            keywords.length === 1 && keywords[0] === route.title ? route.title : `${route.title} (${keywords.join(', ')})`
+        );
 
-        console.log(`  ✨ Matches found: ${matchedStrings.join(', ')}`);
+        console.log(`  ✨ Matches found: ${matchDescriptions.join(', ')}`);
         console.log(`     📹 File: ${fileName}`);
         console.log(`     ⏱️  Duration: ${duration ? formatDuration(duration) : 'unknown'}`);
         console.log(`     📏 Size: ${sizeMB.toFixed(2)} MB`);
     }
 
     private async forwardToTopics(
-        sourceId: number,
-        messageId: number,
-        forumGroupId: number,
+        source: Api.TypeInputPeer,
+        forumGroup: Api.InputPeerChannel,
         topicIds: Record<string, number>,
-        topicsToForward: string[],
-        videoMeta: VideoMetadata,
+        forwards: QueuedForward[],
         forwardStats: Record<string, number>,
-        onForward: (
-            sourceId: number,
-            messageId: number,
-            forumGroupId: number,
-            targetTopicId: number,
-            fileName: string,
-            topicName: string,
-            duration: number,
-            sizeMB: number,
-            normalizedName: string
-        ) => Promise<boolean>
+        onForward: ForwardCallback
     ): Promise<boolean> {
-        const {fileName, normalizedName, duration, sizeMB} = videoMeta;
-
-        if (!this.sortConfig.dryRun && forumGroupId) {
+        if (!this.sortConfig.dryRun) {
             // Note: Video is already saved to storage earlier (before async operations)
             // to prevent race conditions during batch processing
-            
-            const forwardPromises = topicsToForward.map(matchedString => {
-                const targetTopicId = topicIds[matchedString];
-                console.log(`     🎯 Forwarding to topic "${matchedString}" (ID: ${targetTopicId})`);
-
-                return onForward(
-                    sourceId,
-                    messageId,
-                    forumGroupId,
-                    targetTopicId,
-                    fileName,
-                    matchedString,
-                    duration ?? 0,
-                    sizeMB,
-                    normalizedName
-                ).then(success => ({success, matchedString}));
-            });
+            return await this.forwardQueued(source, forumGroup, topicIds, forwards, forwardStats, onForward) === 1;
+        }
+
+        for (const {topicName} of forwards) {
+            const targetTopicId = topicIds[topicName];
+            console.log(`     🔍 [DRY RUN] Would forward to topic "${topicName}" (ID: ${targetTopicId})`);
+            forwardStats[topicName] = (forwardStats[topicName] ?? 0) + 1;
+        }
+        return true;
+    }
 
-            const results = await Promise.all(forwardPromises);
-            const allSucceeded = results.every(r => r.success);
+    /**
+     * Forward queued messages with one call per topic (and per 100 messages).
+     * Returns the number of messages that reached all of their topics.
+     */
+    private async forwardQueued(
+        source: Api.TypeInputPeer,
+        forumGroup: Api.InputPeerChannel,
+        topicIds: Record<string, number>,
+        forwards: QueuedForward[],
+        forwardStats: Record<string, number>,
+        onForward: ForwardCallback
+    ): Promise<number> {
+        if (forwards.length === 0) {
+            return 0;
+        }
 
-            for (const {success, matchedString} of results) {
-                if (success) {
-                    forwardStats[matchedString] = (forwardStats[matchedString] ?? 0) + 1;
-                }
-            }
+        const sourceKey = utils.getPeerId(source);
+        const byTopic = new Map<string, ForwardItem[]>();
+        for (const {topicName, item} of forwards) {
+            byTopic.set(topicName, [...(byTopic.get(topicName) ?? []), item]);
+        }
 
-            return allSucceeded;
-        } else if (this.sortConfig.dryRun) {
-            for (const matchedString of topicsToForward) {
-                const targetTopicId = topicIds[matchedString];
-                console.log(`     🔍 [DRY RUN] Would forward to topic "${matchedString}" (ID: ${targetTopicId})`);
-                forwardStats[matchedString] = (forwardStats[matchedString] ?? 0) + 1;
-            }
-            return true;
+        const failedMessages = new Set<number>();
+        for (const [topicName, items] of byTopic) {
+            const targetTopicId = topicIds[topicName];
+            const what = items.length > 1 ? `${items.length} videos` : `"${items[0].fileName}"`;
+            console.log(`     🎯 Forwarding ${what} to topic "${topicName}" (ID: ${targetTopicId})`);
+
+            const results = await onForward(source, forumGroup, targetTopicId, topicName, items);
+            items.forEach((item, i) => {
+                if (results[i]) {
+                    this.storage.markForwardDone(sourceKey, item.messageId, topicName);
+                    forwardStats[topicName] = (forwardStats[topicName] ?? 0) + 1;
+                } else {
+                    this.storage.markForwardFailed(sourceKey, item.messageId, topicName);
+                    failedMessages.add(item.messageId);
+                }
+            });
         }
 
-        return false;
+        return new Set(forwards.map(forward => forward.item.messageId)).size - failedMessages.size;
     }
 }
@@ -1,101 +1,243 @@
 #!/usr/bin/env ts-node
 
-import {TelegramClient} from 'telegram';
-import path from 'node:path';
+import {Api, utils} from 'telegram';
+import type {Entity} from 'telegram/define';
 import {ConfigLoader} from './services/config-loader';
-import {TelegramClientFactory} from './services/telegram-client';
-import {ForwardingLogger, MessageStorage} from './services/storage';
+import {AccountPool, type TelegramAccount} from './services/account-pool';
+import {MessageStorage} from './services/storage';
+import type {GatewayDialog, TelegramGateway} from './services/telegram-gateway';
+import type {SortingConfig} from './types/config';
 import {ForumService} from './services/forum-service';
 import {VideoProcessor} from './services/video-processor';
 import {MessageForwarder} from './services/message-forwarder';
 import {ForumCleaner} from './services/forum-cleaner';
 import {ConsoleLogger} from './services/console-logger';
+import {DashboardServer} from './services/dashboard-server';
+import type {MatchRule} from './utils/match-rules';
+import type {TopicRoute} from './utils/topic-routing';
+import {matchesSourceGroup, parseSourceGroup, toStoredPeer} from './utils/peers';
+import {waitForShutdownSignal} from './utils/helpers';
+import {formatTopicIndex, INDEX_RECENT_VIDEOS} from './utils/topic-index';
+
+interface SorterOptions {
+    watch?: boolean;  // Keep running and sort new messages as they arrive
+    fullRescan?: boolean;  // Ignore stored high-water marks and scan every source's full history
+    dashboard?: boolean;  // Serve the catalog dashboard while sorting
+}
+
+interface SortStats {
+    totalProcessed: number;
+    totalForwarded: number;
+    forwardStats: Record<string, number>;
+}
 
 class TelegramVideoSorter {
     private config: ConfigLoader;
-    private readonly client: TelegramClient;
+    private readonly accounts: AccountPool;
+    private readonly gateway: TelegramGateway;
     private storage: MessageStorage;
-    private logger: ForwardingLogger;
     private forumService: ForumService;
     private videoProcessor: VideoProcessor;
     private messageForwarder: MessageForwarder;
     private forumCleaner: ForumCleaner;
+    private readonly options: SorterOptions;
 
-    constructor() {
+    constructor(options: SorterOptions = {}, accounts?: AccountPool) {
+        this.options = options;
         this.config = new ConfigLoader();
         const paths = this.config.getPaths();
         const sortConfig = this.config.getConfig();
 
-        this.client = TelegramClientFactory.createClient(
-            path.join(process.cwd(), '/session/', sortConfig.sessionFile)
-        );
+        // The primary account manages the forum group; the others only read sources and forward
+        this.accounts = accounts ?? new AccountPool(this.config.getAccounts(), sortConfig.floodWaitFailoverSeconds, sortConfig.rateLimits);
+        this.gateway = this.accounts.getPrimary().gateway;
         this.storage = new MessageStorage(paths.processedLogFile);
-        this.logger = new ForwardingLogger(paths.forwardingLogFile);
-        this.forumService = new ForumService(this.client, paths.forumGroupCache, sortConfig.dryRun);
-        this.videoProcessor = new VideoProcessor(this.client, this.storage, sortConfig);
-        this.messageForwarder = new MessageForwarder(this.client, this.storage, this.logger);
-        this.forumCleaner = new ForumCleaner(this.client, sortConfig);
+        this.forumService = new ForumService(this.gateway, paths.forumGroupCache, sortConfig.dryRun);
+        this.videoProcessor = new VideoProcessor(this.gateway, this.storage, sortConfig, {
+            fullRescan: options.fullRescan
+        });
+        this.messageForwarder = new MessageForwarder(this.accounts, this.storage, sortConfig);
+        this.forumCleaner = new ForumCleaner(this.gateway, sortConfig);
     }
 
     async run(): Promise<void> {
         const sortConfig = this.config.getConfig();
-        const matches = this.config.getMatches();
         const exclusions = this.config.getExclusions();
+        const topicRoutes = this.config.getTopicRoutes();
+
+        ConsoleLogger.logStartup(sortConfig, topicRoutes, exclusions);
 
-        ConsoleLogger.logStartup(sortConfig, matches, exclusions);
+        // In watch mode SIGTERM/SIGINT stop the sorter gracefully instead of killing it mid-forward
+        const shutdownSignal = this.options.watch
+            ? waitForShutdownSignal().then((signal) => {
+                console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
+                this.videoProcessor.requestStop();
+                return signal;
+            })
+            : null;
 
-        await this.client.connect();
+        await this.accounts.connect();
         console.log('✅ Connected to Telegram');
 
-        this.storage.loadProcessedMessages();
-        this.storage.loadProcessedVideoNames();
         ConsoleLogger.logStorageStats(
             this.storage.getProcessedMessagesCount(),
             this.storage.getProcessedVideoNamesCount()
         );
 
-        // Create/load forum group and topics
-        console.log('\n📂 Preparing forum group and topics...');
-        const forumGroupId = await this.forumService.getOrCreateForumGroup(sortConfig.sortedGroupName);
-
-        // Create topics for each match string
-        const topicIds: Record<string, number> = {};
-        for (const matchString of matches) {
-            topicIds[matchString] = await this.forumService.getOrCreateTopic(forumGroupId, matchString);
+        const {runId, interruptedRuns} = this.storage.startRun();
+        console.log(`📝 Started run #${runId}`);
+        if (interruptedRuns > 0) {
+            console.log(`⚠️  ${interruptedRuns} previous run(s) did not finish, resuming where they stopped`);
         }
 
-        // Clean up forum group (can be skipped with skipCleanup: true in config)
-        await this.forumCleaner.cleanupForumGroup(forumGroupId, exclusions, sortConfig.skipCleanup);
+        const stats: SortStats = {totalProcessed: 0, totalForwarded: 0, forwardStats: {}};
+        const dashboard = this.options.dashboard ? await this.startDashboard() : null;
 
-        // Process videos
-        const stats = await this.processVideos(forumGroupId, topicIds, matches, exclusions, sortConfig);
+        try {
+            await this.sort(stats, shutdownSignal);
+        } catch (error) {
+            this.storage.finishRun('failed', stats.totalProcessed, stats.totalForwarded);
+            throw error;
+        } finally {
+            await dashboard?.stop();
+        }
 
         // Print summary
         ConsoleLogger.logSummary(stats, sortConfig.dryRun);
 
+        // A run stopped by SIGTERM/SIGINT may have left messages unscanned
+        const status = this.videoProcessor.isStopRequested() ? 'interrupted' : 'completed';
+        this.storage.finishRun(status, stats.totalProcessed, stats.totalForwarded);
+
         // Close database connection
         this.storage.close();
 
-        await this.client.disconnect();
+        await this.accounts.disconnect();
         console.log('👋 Disconnected from Telegram');
     }
 
-    private async processVideos(
-        forumGroupId: number,
-        topicIds: Record<string, number>,
-        matches: string[],
-        exclusions: string[],
-        sortConfig: any
-    ): Promise<{ totalProcessed: number; totalForwarded: number; forwardStats: Record<string, number> }> {
-        let totalProcessed = 0;
-        let totalForwarded = 0;
-        const forwardStats: Record<string, number> = {};
+    private async startDashboard(): Promise<DashboardServer> {
+        const dashboardConfig = this.config.getConfig().dashboard;
+        const dashboard = new DashboardServer(this.storage, dashboardConfig?.host, dashboardConfig?.port);
+        const port = await dashboard.start();
+        console.log(`📊 Dashboard running at http://${dashboardConfig?.host ?? '127.0.0.1'}:${port}/`);
+        return dashboard;
+    }
+
+    private async sort(stats: SortStats, shutdownSignal: Promise<NodeJS.Signals> | null): Promise<void> {
+        const sortConfig = this.config.getConfig();
+        const exclusionRules = this.config.getExclusionRules();
+        const topicRoutes = this.config.getTopicRoutes();
+        const onForward = this.messageForwarder.forwardMessages.bind(this.messageForwarder);
+
+        // Create/load forum group and topics
+        console.log('\n📂 Preparing forum group and topics...');
+        const forumGroup = await this.forumService.getOrCreateForumGroup(sortConfig.sortedGroupName);
+
+        // Repair cached topics that were deleted, renamed or closed in Telegram since the last run
+        await this.forumService.reconcileTopics(forumGroup, sortConfig.reopenClosedTopics);
+
+        // Create a forum topic for each configured topic title
+        const topicIds: Record<string, number> = {};
+        for (const route of topicRoutes) {
+            topicIds[route.title] = await this.forumService.getOrCreateTopic(forumGroup, route.title, route);
+        }
+        await this.forumService.syncTopicIcons(forumGroup, topicRoutes);
+        await this.forumService.syncOrphanedTopics(forumGroup, topicRoutes.map((route) => route.title), sortConfig.orphanedTopics);
+
+        if (this.accounts.isMultiAccount() && !sortConfig.dryRun) {
+            await this.accounts.checkForumMembership(forumGroup);
+        }
+
+        // Clean up forum group (can be skipped with skipCleanup: true in config)
+        await this.forumCleaner.cleanupForumGroup(forumGroup, exclusionRules, sortConfig.skipCleanup);
+
+        const sourceDialogs = await this.resolveSourceDialogs(sortConfig);
+        const sourcesByPeerId = new Map<string, Entity>();
+        for (const dialog of sourceDialogs) {
+            if (dialog.entity) {
+                sourcesByPeerId.set(utils.getPeerId(dialog.entity), dialog.entity);
+            }
+        }
+
+        // Finish forwards a crashed run left behind and retry due failed forwards before scanning for new ones
+        stats.totalForwarded += await this.videoProcessor.resumeUnfinishedForwards(
+            new Map([...sourcesByPeerId].map(([peerId, entity]) => [peerId, utils.getInputPeer(entity)])),
+            forumGroup,
+            topicIds,
+            stats.forwardStats,
+            onForward
+        );
+
+        // Catch up on history first, so nothing posted while the sorter was down is missed
+        const catchUp = async () => {
+            await this.processVideos(sourceDialogs, forumGroup, topicIds, topicRoutes, exclusionRules, sortConfig, stats);
+            await this.updateTopicIndexes(forumGroup, topicRoutes);
+        };
+
+        if (this.options.watch) {
+            await this.watchSources(sourcesByPeerId, forumGroup, topicIds, topicRoutes, exclusionRules, stats, shutdownSignal, catchUp);
+            await this.updateTopicIndexes(forumGroup, topicRoutes);
+        } else {
+            await catchUp();
+        }
+    }
+
+    /**
+     * Refresh the pinned index message of every topic with pinnedIndex set.
+     */
+    private async updateTopicIndexes(forumGroup: Api.InputPeerChannel, topicRoutes: TopicRoute[]): Promise<void> {
+        for (const route of topicRoutes.filter((r) => r.pinnedIndex)) {
+            const {total, videos} = this.storage.searchVideos({topicName: route.title, limit: INDEX_RECENT_VIDEOS});
+            try {
+                await this.forumService.updateIndexMessage(forumGroup, route.title, formatTopicIndex(route.title, total, videos));
+            } catch (error) {
+                console.error(`  ⚠️  Could not update the index of topic "${route.title}":`, (error as Error).message);
+            }
+        }
+    }
+
+    /**
+     * Collect the source dialogs of every account. Each source is assigned to the first
+     * account (in config order) that can see it and whose sourceGroups include it.
+     */
+    private async resolveSourceDialogs(sortConfig: SortingConfig): Promise<GatewayDialog[]> {
+        const dialogsToProcess: GatewayDialog[] = [];
+        const assigned = new Set<string>();
+
+        for (const account of this.accounts.getAccounts()) {
+            if (this.accounts.isMultiAccount()) {
+                console.log(`\n👤 Account "${account.name}"`);
+            }
+
+            const sourceGroups = account.sourceGroups ?? sortConfig.sourceGroups;
+            const dialogs = this.filterSourceDialogs(await this.getAccessibleDialogs(account), sourceGroups);
+
+            for (const dialog of dialogs) {
+                if (!dialog.entity) continue;
+
+                const sourceKey = utils.getPeerId(dialog.entity);
+                // Lets this account forward from the source when it is resumed or failed over to later
+                if (dialog.entity instanceof Api.Channel) {
+                    this.storage.saveSourcePeer(account.name, sourceKey, toStoredPeer(dialog.entity));
+                }
+                if (assigned.has(sourceKey)) continue;
+
+                assigned.add(sourceKey);
+                this.accounts.assignSource(sourceKey, account);
+                dialogsToProcess.push(dialog);
+            }
+        }
+
+        if (this.accounts.isMultiAccount()) {
+            console.log(`\n👥 Assigned ${dialogsToProcess.length} source(s) across ${this.accounts.getAccounts().length} accounts`);
+        }
 
-        const sourceGroups = sortConfig.sourceGroups ?? [];
-        const useAllGroups = !sortConfig.sourceGroups || sortConfig.sourceGroups.length === 0;
+        return dialogsToProcess;
+    }
 
-        // Always fetch all accessible dialogs first
-        const allDialogs = await this.getAccessibleDialogs();
+    private filterSourceDialogs(allDialogs: GatewayDialog[], sourceGroups: (string | number)[] | undefined): GatewayDialog[] {
+        const useAllGroups = !sourceGroups || sourceGroups.length === 0;
 
         let dialogsToProcess;
         if (useAllGroups) {
@@ -105,37 +247,47 @@ class TelegramVideoSorter {
             // Filter dialogs based on specified source IDs
             console.log(`\n📋 Processing ${sourceGroups.length} specified groups...`);
 
-            // Convert string IDs to numbers and create a Set for faster lookup
-            const specifiedIds = new Set(
-                sourceGroups.map((id: string | number) => {
-                    const numId = typeof id === 'string' ? parseInt(id, 10) : id;
-                    // Store absolute value for matching
-                    return Math.abs(numId);
-                })
-            );
+            // Entries are IDs in any form, usernames or t.me links; the config loader rejected anything else
+            const refs = sourceGroups.map((entry) => ({entry, ref: parseSourceGroup(entry)!}));
 
-            dialogsToProcess = allDialogs.filter(dialog => {
-                const entityId = dialog.entity?.id;
-                if (!entityId) return false;
-
-                const absId = Math.abs(Number(entityId));
-                return specifiedIds.has(absId);
-            });
+            dialogsToProcess = allDialogs.filter(dialog =>
+                dialog.entity && refs.some(({ref}) => matchesSourceGroup(ref, dialog.entity!))
+            );
 
             console.log(`  ✅ Found ${dialogsToProcess.length} matching groups/channels from your list`);
 
-            if (dialogsToProcess.length === 0) {
-                console.warn(`  ⚠️  WARNING: None of the specified source IDs were found in accessible dialogs!`);
+            const missing = refs.filter(({ref}) => !dialogsToProcess.some(dialog => matchesSourceGroup(ref, dialog.entity!)));
+            if (missing.length > 0) {
+                console.warn(`  ⚠️  WARNING: ${missing.map(({entry}) => entry).join(', ')} not found in accessible dialogs!`);
                 console.warn(`      Make sure you have access to these groups/channels and the IDs are correct.`);
             }
         }
 
+        return dialogsToProcess;
+    }
+
+    private async processVideos(
+        dialogsToProcess: GatewayDialog[],
+        forumGroup: Api.InputPeerChannel,
+        topicIds: Record<string, number>,
+        topics: TopicRoute[],
+        exclusions: MatchRule[],
+        sortConfig: any,
+        stats: SortStats
+    ): Promise<void> {
+        const {forwardStats} = stats;
+
         // Clear topic message cache before processing sources to get fresh data
         this.videoProcessor.clearTopicCache();
         console.log('🗑️  Cleared topic message cache\n');
 
         for (const dialog of dialogsToProcess) {
-            if (totalForwarded >= sortConfig.maxForwards) {
+            if (this.videoProcessor.isStopRequested()) {
+                console.log('\n🛑 Stop requested, skipping remaining sources...');
+                break;
+            }
+
+            if (stats.totalForwarded >= sortConfig.maxForwards) {
                 console.log(
                     `\n⚠️  Reached maximum forwards limit (${sortConfig.maxForwards}), stopping...`
                 );
@@ -151,33 +303,129 @@ class TelegramVideoSorter {
             }
 
             const dialogTitle = dialog.title || 'Unknown';
-            console.log(`\n📂 Processing source: ${sourceId} (${sourceEntity.className || 'Unknown type'}) - "${dialogTitle}"`);
+            const account = this.accounts.getSourceAccount(utils.getPeerId(sourceEntity));
+            const accountLabel = this.accounts.isMultiAccount() ? ` [${account.name}]` : '';
+            console.log(`\n📂 Processing source: ${sourceId} (${sourceEntity.className || 'Unknown type'}) - "${dialogTitle}"${accountLabel}`);
 
             try {
                 const result = await this.videoProcessor.processSource(
-                    sourceEntity,
-                    forumGroupId,
+                    utils.getInputPeer(sourceEntity),
+                    forumGroup,
                     topicIds,
-                    matches,
+                    topics,
                     exclusions,
-                    totalForwarded,
+                    stats.totalForwarded,
                     forwardStats,
-                    this.messageForwarder.forwardMessage.bind(this.messageForwarder)
+                    this.messageForwarder.forwardMessages.bind(this.messageForwarder),
+                    account.gateway
                 );
 
-                totalProcessed += result.processed;
-                totalForwarded = result.forwarded;
+                stats.totalProcessed += result.processed;
+                stats.totalForwarded = result.forwarded;
             } catch (error) {
                 console.error(`  ❌ Error processing source ${sourceId}:`, error);
             }
         }
 
-        return {totalProcessed, totalForwarded, forwardStats};
     }
 
-    private async getAccessibleDialogs() {
+    /**
+     * Sort new messages from the source dialogs in real time until SIGTERM/SIGINT.
+     * The handlers are registered before the catch-up scan runs, and messages arriving
+     * meanwhile are buffered until it is done, so none are missed during a long scan.
+     * maxForwards only limits the history scan; watch mode forwards every match.
+     */
+    private async watchSources(
+        sourcesByPeerId: Map<string, Entity>,
+        forumGroup: Api.InputPeerChannel,
+        topicIds: Record<string, number>,
+        topics: TopicRoute[],
+        exclusions: MatchRule[],
+        stats: SortStats,
+        shutdownSignal: Promise<NodeJS.Signals>,
+        catchUp: () => Promise<void>
+    ): Promise<void> {
+        // Handle messages one at a time so duplicate checks see the previous forward,
+        // starting once the catch-up scan released the queue
+        let releaseQueue!: () => void;
+        let queue = new Promise<void>((resolve) => releaseQueue = resolve);
+
+        const handler = (message: Api.Message): void => {
+            const peerId = utils.getPeerId(message.peerId);
+            const source = sourcesByPeerId.get(peerId);
+            if (!source || !message.media) {
+                return;
+            }
+
+            queue = queue.then(async () => {
+                // Messages left over at shutdown are picked up by the next history scan
+                if (this.videoProcessor.isStopRequested()) {
+                    return;
+                }
+
+                console.log(`\n📨 New message ${message.id} in "${'title' in source ? source.title : source.id}"`);
+                try {
+                    const result = await this.videoProcessor.processMessage(
+                        utils.getInputPeer(source),
+                        message,
+                        forumGroup,
+                        topicIds,
+                        topics,
+                        exclusions,
+                        stats.forwardStats,
+                        this.messageForwarder.forwardMessages.bind(this.messageForwarder),
+                        true,
+                        this.accounts.getSourceAccount(peerId).gateway
+                    );
+
+                    if (result.processed) stats.totalProcessed++;
+                    if (result.forwarded) stats.totalForwarded++;
+                } catch (error) {
+                    console.error(`  ❌ Error processing new message ${message.id}:`, error);
+                }
+            });
+        };
+
+        // Each account only receives updates for the sources assigned to it
+        const sourcesByAccount = new Map<TelegramAccount, Entity[]>();
+        for (const [peerId, source] of sourcesByPeerId) {
+            const account = this.accounts.getSourceAccount(peerId);
+            sourcesByAccount.set(account, [...(sourcesByAccount.get(account) ?? []), source]);
+        }
+
+        const unsubscribers = [...sourcesByAccount].map(([account, sources]) => account.gateway.onNewMessage(sources, handler));
+        const unsubscribeAll = () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+
+        try {
+            await catchUp();
+        } catch (error) {
+            unsubscribeAll();
+            throw error;
+        }
+        releaseQueue();
+
+        if (this.videoProcessor.isStopRequested()) {
+            unsubscribeAll();
+            await queue;
+            return;
+        }
+
+        if (sourcesByPeerId.size === 0) {
+            console.warn('\n⚠️  No source groups/channels to watch, exiting watch mode');
+            return;
+        }
+
+        console.log(`\n👀 Watching ${sourcesByPeerId.size} source(s) for new videos (SIGTERM or Ctrl+C to stop)...`);
+
+        await shutdownSignal;
+        unsubscribeAll();
+        console.log('⏳ Finishing in-flight messages...');
+        await queue;
+    }
+
+    private async getAccessibleDialogs(account: TelegramAccount) {
         console.log('🔍 Fetching all accessible chats...');
-        const dialogs = await this.client.getDialogs({limit: 500});
+        const dialogs = await account.gateway.getDialogs();
         const groups = dialogs.filter((dialog) => dialog.isGroup || dialog.isChannel);
         console.log(`📊 Found ${groups.length} accessible groups/channels`);
         console.log("\n📝 Available groups/channels with IDs:");
@@ -186,26 +434,14 @@ class TelegramVideoSorter {
             const groupName = dialog.title ?? 'Unknown';
             const entity = dialog.entity;
 
-            // Extract the correct ID based on entity type
-            let groupId: string | undefined;
-            if (entity && 'id' in entity) {
-                const rawId = entity.id;
-                // For channels and megagroups, convert to negative ID format
-                if ('className' in entity &&
-                    (entity.className === 'Channel' || entity.className === 'Chat')) {
-                    // Convert BigInt to string if necessary
-                    const idValue = typeof rawId === 'bigint' ? Number(rawId) : rawId;
-                    // Telegram uses negative IDs for groups/channels in some contexts
-                    groupId = (-Math.abs(Number(idValue))).toString();
-                } else {
-                    groupId = rawId.toString();
-                }
-            }
+            // Marked IDs (-100… for channels) as strings, so large IDs keep every digit
+            const groupId = entity ? utils.getPeerId(entity) : undefined;
 
             const groupType = dialog.isGroup ? 'Group' : dialog.isChannel ? 'Channel' : 'Unknown Type';
 
             // Enhanced logging for group/channel extracted details
-            console.log(`  📂 ${groupType} Name: "${groupName}", ID: ${groupId} (Entity: ${entity?.className || 'Unknown'})`);
+            const folder = dialog.archived ? ', archived' : '';
+            console.log(`  📂 ${groupType} Name: "${groupName}", ID: ${groupId} (Entity: ${entity?.className || 'Unknown'}${folder})`);
             if (!groupId) {
                 console.warn(`  ❌ Unable to extract a valid ID for "${groupName}". Verify the entity format.`);
             }
@@ -217,7 +453,7 @@ class TelegramVideoSorter {
         if (validIds.length === 0) {
             console.warn("⚠️ No valid group/channel IDs found to use for sortConfig.sourceGroups.");
         } else {
-            console.log(validIds.join(', '));
+            console.log(validIds.map(id => `"${id}"`).join(', '));
         }
 
         // Return dialogs with entity objects for proper resolution
@@ -227,7 +463,12 @@ class TelegramVideoSorter {
 
 // Run the script if executed directly
 if (require.main === module) {
-    const sorter = new TelegramVideoSorter();
+    const args = process.argv.slice(2);
+    const sorter = new TelegramVideoSorter({
+        watch: args.includes('--watch'),
+        fullRescan: args.includes('--full-rescan'),
+        dashboard: args.includes('--dashboard')
+    });
     sorter.run().catch((error: Error) => {
         console.error('Fatal error:', error);
         process.exit(1);
@@ -1,9 +1,52 @@
+export interface TopicLimits {
+    minVideoDurationInSeconds?: number;
+    maxVideoDurationInSeconds?: number;
+    minFileSizeMB?: number;
+    maxFileSizeMB?: number;
+}
+
+export interface TopicAppearance {
+    iconColor?: number;     // One of Telegram's six topic colors, e.g. 0x6FB9F0; only applied when the topic is created
+    iconEmojiId?: string;   // Custom emoji document ID as a string (needs Premium)
+}
+
+export interface TopicConfig extends TopicLimits, TopicAppearance {
+    title: string;
+    keywords: string[];     // Match rules, any of which routes a video to this topic
+    exclusions?: string[];  // Applied in addition to videoExclusions
+    pinnedIndex?: boolean;  // Keep a pinned message with the video count and latest additions (default: false)
+}
+
+export type OrphanedTopicPolicy = 'close' | 'keep';
+
+export type KeepPolicy = 'highest-resolution' | 'largest' | 'longest' | 'oldest' | 'newest';
+
+export type DeliveryMode = 'forward' | 'copy' | 'copy-with-caption';
+
+export interface AccountConfig {
+    name: string;
+    sessionFile: string;              // Session file in session/, like the top-level sessionFile
+    sourceGroups?: (string | number)[];  // Sources this account reads (default: every matching source it can see)
+}
+
+export interface RateLimitConfig {
+    historyPerMinute?: number;   // Message history and topic reads (default: 120)
+    forwardPerMinute?: number;   // Forwards and copies; a batch of up to 100 messages is one request (default: 30)
+    deletePerMinute?: number;    // Message deletions (default: 60)
+    otherPerMinute?: number;     // Every other request (default: 300)
+    maxRetries?: number;         // Retries of a request after a FLOOD_WAIT (default: 3)
+}
+
 export interface SortingConfig {
     sortedGroupName: string
     dataDir: string;
     sessionFile: string;
-    videoMatches: string[];
+    accounts?: AccountConfig[];  // Multiple accounts; the first one manages the forum group
+    floodWaitFailoverSeconds?: number;  // Switch accounts on FLOOD_WAITs at least this long (default: 60)
+    rateLimits?: RateLimitConfig;  // Request pacing per account
+    videoMatches?: string[];  // Legacy: each entry becomes its own topic
     videoExclusions: string[];
+    topics?: TopicConfig[];
     sourceGroups?: (string | number)[];
     minVideoDurationInSeconds: number;
     maxVideoDurationInSeconds?: number;
@@ -12,21 +55,37 @@ export interface SortingConfig {
     maxForwards: number;
     dryRun: boolean;
     skipCleanup?: boolean;  // Skip forum cleanup phase for faster runs
+    reopenClosedTopics?: boolean;  // Reopen cached topics that were closed in Telegram (default: false)
+    orphanedTopics?: OrphanedTopicPolicy;  // Topics removed from the config: close or keep them (default: close)
+    deliveryMode?: DeliveryMode;  // forward, copy (re-send without the forward header) or copy-with-caption (default: forward)
+    captionTemplate?: string;  // Caption of copied videos, e.g. "{fileName} ({duration})" (default: "{fileName}")
+    failedForwards?: {
+        maxAttempts?: number;         // Attempts before a forward is dead-lettered (default: 5)
+        retryDelayMinutes?: number;   // Delay before the first retry, doubled per attempt (default: 15)
+    };
+    dashboard?: {
+        host?: string;  // Interface the dashboard listens on (default: 127.0.0.1)
+        port?: number;  // Default: 8080
+    };
     duplicateDetection?: {
         checkDuration?: boolean;
         durationToleranceSeconds?: number;
         checkFileSize?: boolean;
         fileSizeTolerancePercent?: number;
         normalizeFilenames?: boolean;
+        useFileHashes?: boolean;  // Fetch file hashes to catch renamed re-uploads (one extra API call per match)
+        usePerceptualHash?: boolean;  // Hash video thumbnails to catch re-encodes (one thumbnail download per match)
+        perceptualHashMaxDistance?: number;  // Max differing bits of 64 for a thumbnail match (default: 10)
+        keepPolicy?: KeepPolicy;  // Which copy of a duplicate survives (default: newest, cleanup-duplicates: oldest)
     };
 }
 
 export interface DerivedPaths {
     processedLogFile: string;
     forumGroupCache: string;
-    forwardingLogFile: string;
 }
 
+// Entry of the legacy forwarding-log.json, migrated into the forwards table on startup
 export interface ForwardingLogEntry {
     timestamp: string;
     fileName: string;
@@ -37,16 +96,28 @@ export interface ForwardingLogEntry {
     sizeMB: number;
 }
 
+// Channel ID and access hash as decimal strings, so IDs beyond Number precision survive JSON
+export interface StoredPeer {
+    id: string;
+    accessHash: string;
+}
+
 export interface ForumGroupCache {
-    groupId?: number;
+    group?: StoredPeer;
+    groupId?: number;  // Legacy: caches written before access hashes were stored
     topics: Record<string, number>;
+    indexMessages?: Record<string, number>;  // Pinned index message ID per topic
+    orphanedTopics?: string[];  // Topics closed because they were removed from the config
 }
 
 export interface VideoDocument {
+    id?: { toString(): string };  // BigInteger in GramJS
     attributes?: {
         className: string;
         duration?: number;
         fileName?: string;
+        w?: number;
+        h?: number;
     }[];
     size?: string;
 }
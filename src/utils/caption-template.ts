@@ -0,0 +1,37 @@
+import type {DeliveryMode} from '../types/config';
+
+export const DELIVERY_MODES: DeliveryMode[] = ['forward', 'copy', 'copy-with-caption'];
+
+// Telegram's caption limit for accounts without Premium
+export const MAX_CAPTION_LENGTH = 1024;
+
+export type CaptionValues = Record<string, string | number | undefined>;
+
+/**
+ * Link to a message: t.me/<username>/<id> for public chats and t.me/c/<id>/<id> for private
+ * channels and supergroups, which only opens for members. Basic groups have no message links.
+ */
+export function getMessageLink(sourceKey: string, messageId: number, username?: string): string | undefined {
+    if (username) {
+        return `https://t.me/${username}/${messageId}`;
+    }
+    return sourceKey.startsWith('-100') ? `https://t.me/c/${sourceKey.slice(4)}/${messageId}` : undefined;
+}
+
+/**
+ * Replace {placeholders} in a caption template. Known placeholders without a value become
+ * empty, unknown ones are kept as typed. The result is trimmed to Telegram's caption limit.
+ */
+export function renderCaptionTemplate(template: string, values: CaptionValues): string {
+    const caption = template
+        .replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+            if (!(name in values)) return placeholder;
+            const value = values[name];
+            return value === undefined ? '' : String(value);
+        })
+        .trim();
+
+    return caption.length > MAX_CAPTION_LENGTH
+        ? `${caption.slice(0, MAX_CAPTION_LENGTH - 1)}…`
+        : caption;
+}
@@ -12,6 +12,14 @@ export function getVideoDuration(document: VideoDocument | undefined): number |
     return videoAttr?.duration ?? null;
 }
 
+export function getVideoResolution(document: VideoDocument | undefined): { width: number; height: number } | null {
+    const videoAttr = document?.attributes?.find(
+        (attr) => attr.className === 'DocumentAttributeVideo'
+    );
+
+    return videoAttr?.w && videoAttr?.h ? {width: videoAttr.w, height: videoAttr.h} : null;
+}
+
 export function getFileName(document: VideoDocument | undefined): string {
     if (!document?.attributes) {
         return '';
@@ -24,6 +32,10 @@ export function getFileName(document: VideoDocument | undefined): string {
     return fileAttr?.fileName ?? '';
 }
 
+export function getDocumentId(document: VideoDocument | undefined): string | undefined {
+    return document?.id?.toString();
+}
+
 export function normalizeFileName(fileName: string): string {
     // IMPROVED: More selective normalization that preserves key identifying information
     let normalized = fileName.toLowerCase();
@@ -83,22 +95,23 @@ export function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-export async function handleRateLimit(
-    error: any,
-    retryCount = 0
-): Promise<boolean> {
-    const maxRetries = 3;
-
-    if (error?.errorMessage === 'FLOOD_WAIT' || error?.code === 420) {
-        const waitTime = error.seconds
-            ? error.seconds * 1000
-            : Math.pow(2, retryCount) * 5000;
-        console.log(
-            `  ⏳ Rate limit hit, waiting ${waitTime / 1000}s before retry...`
-        );
-        await sleep(waitTime);
-        return retryCount < maxRetries;
-    }
+/**
+ * Resolve with the first received shutdown signal. The listeners are removed
+ * afterwards, so a second signal falls back to Node's default (immediate exit).
+ */
+export function waitForShutdownSignal(
+    signals: NodeJS.Signals[] = ['SIGTERM', 'SIGINT']
+): Promise<NodeJS.Signals> {
+    return new Promise((resolve) => {
+        const onSignal = (signal: NodeJS.Signals) => {
+            for (const s of signals) {
+                process.off(s, onSignal);
+            }
+            resolve(signal);
+        };
 
-    return false;
+        for (const signal of signals) {
+            process.once(signal, onSignal);
+        }
+    });
 }
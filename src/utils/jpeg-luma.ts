@@ -0,0 +1,393 @@
+/**
+ * Minimal baseline JPEG decoder that only recovers the brightness of each 8x8 block.
+ * The DC coefficient of a block is its average value, so decoding the luma DC terms
+ * yields a grayscale image at 1/8 scale without any inverse DCT. That is all a
+ * perceptual hash of a video thumbnail needs.
+ */
+
+export interface GrayscaleImage {
+    width: number;
+    height: number;
+    data: Uint8Array;  // Row-major, one byte per pixel
+}
+
+export class JpegDecodeError extends Error {
+    constructor(reason: string) {
+        super(`Cannot decode JPEG: ${reason}`);
+        this.name = 'JpegDecodeError';
+    }
+}
+
+interface HuffmanTable {
+    maxCode: Int32Array;   // Largest code of each length, -1 if none
+    valPtr: Int32Array;    // Index of the first symbol of each length
+    minCode: Int32Array;   // Smallest code of each length
+    values: Uint8Array;
+}
+
+interface FrameComponent {
+    id: number;
+    h: number;
+    v: number;
+    quantTable: number;
+    blocksPerLine: number;
+    blocksPerColumn: number;
+    dcValues?: Int32Array;  // Only kept for the luma component
+}
+
+interface ScanComponent {
+    component: FrameComponent;
+    dcTable: HuffmanTable;
+    acTable: HuffmanTable;
+    pred: number;
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+    const maxCode = new Int32Array(18).fill(-1);
+    const valPtr = new Int32Array(17);
+    const minCode = new Int32Array(17);
+
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        valPtr[length] = k;
+        minCode[length] = code;
+        code += counts[length - 1];
+        k += counts[length - 1];
+        maxCode[length] = counts[length - 1] ? code - 1 : -1;
+        code <<= 1;
+    }
+
+    return {maxCode, valPtr, minCode, values};
+}
+
+class BitReader {
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    constructor(private data: Uint8Array, public offset: number) {
+    }
+
+    readBit(): number {
+        if (this.bitCount === 0) {
+            if (this.offset >= this.data.length) {
+                throw new JpegDecodeError('unexpected end of data');
+            }
+            let byte = this.data[this.offset++];
+            if (byte === 0xFF) {
+                const next = this.data[this.offset];
+                if (next === 0x00) {
+                    this.offset++;  // Stuffed zero byte
+                } else {
+                    // A marker inside the entropy-coded data: pad with ones like libjpeg does
+                    this.offset--;
+                    byte = 0xFF;
+                }
+            }
+            this.bitBuffer = byte;
+            this.bitCount = 8;
+        }
+
+        this.bitCount--;
+        return (this.bitBuffer >> this.bitCount) & 1;
+    }
+
+    receive(length: number): number {
+        let value = 0;
+        for (let i = 0; i < length; i++) {
+            value = (value << 1) | this.readBit();
+        }
+        return value;
+    }
+
+    receiveExtend(length: number): number {
+        if (length === 0) return 0;
+        const value = this.receive(length);
+        return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+    }
+
+    decodeHuffman(table: HuffmanTable): number {
+        let code = 0;
+        for (let length = 1; length <= 16; length++) {
+            code = (code << 1) | this.readBit();
+            if (table.maxCode[length] !== -1 && code <= table.maxCode[length]) {
+                return table.values[table.valPtr[length] + code - table.minCode[length]];
+            }
+        }
+        throw new JpegDecodeError('invalid Huffman code');
+    }
+
+    /**
+     * Skip to the byte after the next RSTn marker and forget buffered bits.
+     */
+    restart(): void {
+        this.bitCount = 0;
+        while (this.offset + 1 < this.data.length) {
+            if (this.data[this.offset] === 0xFF && this.data[this.offset + 1] >= 0xD0 && this.data[this.offset + 1] <= 0xD7) {
+                this.offset += 2;
+                return;
+            }
+            this.offset++;
+        }
+    }
+
+    /**
+     * Offset of the next marker after the entropy-coded segment.
+     */
+    findNextMarker(): number {
+        let offset = this.offset;
+        while (offset + 1 < this.data.length) {
+            if (this.data[offset] === 0xFF && this.data[offset + 1] !== 0x00 &&
+                !(this.data[offset + 1] >= 0xD0 && this.data[offset + 1] <= 0xD7)) {
+                return offset;
+            }
+            offset++;
+        }
+        return this.data.length;
+    }
+}
+
+function decodeBlock(reader: BitReader, scan: ScanComponent, blockIndex: number): void {
+    const size = reader.decodeHuffman(scan.dcTable);
+    scan.pred += reader.receiveExtend(size);
+    if (scan.component.dcValues && blockIndex < scan.component.dcValues.length) {
+        scan.component.dcValues[blockIndex] = scan.pred;
+    }
+
+    // Skip the AC coefficients, they only add detail below the 8x8 block size
+    let k = 1;
+    while (k < 64) {
+        const rs = reader.decodeHuffman(scan.acTable);
+        const run = rs >> 4;
+        const length = rs & 15;
+        if (length === 0) {
+            if (run !== 15) break;  // End of block
+            k += 16;
+            continue;
+        }
+        reader.receive(length);
+        k += run + 1;
+    }
+}
+
+/**
+ * Decode the block averages of the luma channel of a baseline JPEG.
+ * Progressive and arithmetic-coded JPEGs are rejected with a JpegDecodeError.
+ */
+export function decodeJpegLuma(buffer: Uint8Array): GrayscaleImage {
+    const data = buffer;
+    if (data[0] !== 0xFF || data[1] !== 0xD8) {
+        throw new JpegDecodeError('missing SOI marker');
+    }
+
+    const quantTables: Int32Array[] = [];
+    const dcTables: HuffmanTable[] = [];
+    const acTables: HuffmanTable[] = [];
+    let components: FrameComponent[] = [];
+    let width = 0;
+    let height = 0;
+    let maxH = 1;
+    let maxV = 1;
+    let restartInterval = 0;
+    let luma: FrameComponent | undefined;
+
+    let offset = 2;
+    while (offset + 4 <= data.length) {
+        if (data[offset] !== 0xFF) {
+            offset++;
+            continue;
+        }
+
+        const marker = data[offset + 1];
+        offset += 2;
+
+        if (marker === 0xD9) break;  // EOI
+        if (marker === 0xFF || (marker >= 0xD0 && marker <= 0xD7) || marker === 0x01) continue;
+
+        const length = (data[offset] << 8) | data[offset + 1];
+        const segmentEnd = offset + length;
+        let pos = offset + 2;
+
+        switch (marker) {
+            case 0xDB: // DQT
+                while (pos < segmentEnd) {
+                    const precision = data[pos] >> 4;
+                    const id = data[pos] & 15;
+                    pos++;
+                    const table = new Int32Array(64);
+                    for (let i = 0; i < 64; i++) {
+                        table[i] = precision ? (data[pos] << 8) | data[pos + 1] : data[pos];
+                        pos += precision ? 2 : 1;
+                    }
+                    quantTables[id] = table;
+                }
+                break;
+
+            case 0xC0: // SOF0 baseline
+            case 0xC1: // SOF1 extended sequential, Huffman
+                height = (data[pos + 1] << 8) | data[pos + 2];
+                width = (data[pos + 3] << 8) | data[pos + 4];
+                components = [];
+                for (let i = 0, count = data[pos + 5]; i < count; i++) {
+                    const base = pos + 6 + i * 3;
+                    components.push({
+                        id: data[base],
+                        h: data[base + 1] >> 4,
+                        v: data[base + 1] & 15,
+                        quantTable: data[base + 2],
+                        blocksPerLine: 0,
+                        blocksPerColumn: 0
+                    });
+                }
+                maxH = Math.max(...components.map((c) => c.h));
+                maxV = Math.max(...components.map((c) => c.v));
+                for (const component of components) {
+                    component.blocksPerLine = Math.ceil(Math.ceil(width * component.h / maxH) / 8);
+                    component.blocksPerColumn = Math.ceil(Math.ceil(height * component.v / maxV) / 8);
+                }
+                // The first component is Y in JFIF and the only one in grayscale images
+                luma = components[0];
+                if (!luma || width === 0 || height === 0) {
+                    throw new JpegDecodeError('invalid frame header');
+                }
+                // Interleaved scans pad the luma plane to whole MCUs
+                luma.dcValues = new Int32Array(
+                    Math.ceil(width / (8 * maxH)) * luma.h * Math.ceil(height / (8 * maxV)) * luma.v
+                );
+                break;
+
+            case 0xC2:
+            case 0xC3:
+            case 0xC5:
+            case 0xC6:
+            case 0xC7:
+            case 0xC9:
+            case 0xCA:
+            case 0xCB:
+            case 0xCD:
+            case 0xCE:
+            case 0xCF:
+                throw new JpegDecodeError('only baseline JPEGs are supported');
+
+            case 0xC4: // DHT
+                while (pos < segmentEnd) {
+                    const tableClass = data[pos] >> 4;
+                    const id = data[pos] & 15;
+                    const counts = data.subarray(pos + 1, pos + 17);
+                    const total = counts.reduce((sum, count) => sum + count, 0);
+                    const values = data.subarray(pos + 17, pos + 17 + total);
+                    (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanTable(counts, values);
+                    pos += 17 + total;
+                }
+                break;
+
+            case 0xDD: // DRI
+                restartInterval = (data[pos] << 8) | data[pos + 1];
+                break;
+
+            case 0xDA: { // SOS
+                if (!luma) {
+                    throw new JpegDecodeError('scan before frame header');
+                }
+
+                const scanComponents: ScanComponent[] = [];
+                for (let i = 0, count = data[pos]; i < count; i++) {
+                    const id = data[pos + 1 + i * 2];
+                    const tables = data[pos + 2 + i * 2];
+                    const component = components.find((c) => c.id === id);
+                    const dcTable = dcTables[tables >> 4];
+                    const acTable = acTables[tables & 15];
+                    if (!component || !dcTable || !acTable) {
+                        throw new JpegDecodeError('scan references an unknown component or table');
+                    }
+                    scanComponents.push({component, dcTable, acTable, pred: 0});
+                }
+
+                const reader = new BitReader(data, segmentEnd);
+                decodeScan(reader, scanComponents, width, height, maxH, maxV, restartInterval);
+                offset = reader.findNextMarker();
+                continue;
+            }
+        }
+
+        offset = segmentEnd;
+    }
+
+    if (!luma?.dcValues) {
+        throw new JpegDecodeError('no image data');
+    }
+
+    const quantTable = quantTables[luma.quantTable];
+    if (!quantTable) {
+        throw new JpegDecodeError('missing quantization table');
+    }
+
+    // Crop the padded block grid and turn DC terms into average pixel values
+    const blocksWide = Math.ceil(width / 8);
+    const blocksHigh = Math.ceil(height / 8);
+    const stride = Math.ceil(width / (8 * maxH)) * luma.h;
+    const image = new Uint8Array(blocksWide * blocksHigh);
+    for (let y = 0; y < blocksHigh; y++) {
+        for (let x = 0; x < blocksWide; x++) {
+            const value = (luma.dcValues[y * stride + x] * quantTable[0]) / 8 + 128;
+            image[y * blocksWide + x] = Math.max(0, Math.min(255, Math.round(value)));
+        }
+    }
+
+    return {width: blocksWide, height: blocksHigh, data: image};
+}
+
+function decodeScan(
+    reader: BitReader,
+    scanComponents: ScanComponent[],
+    width: number,
+    height: number,
+    maxH: number,
+    maxV: number,
+    restartInterval: number
+): void {
+    const mcusPerLine = Math.ceil(width / (8 * maxH));
+    const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+    let mcusLeft = restartInterval;
+    const nextMcu = (): void => {
+        if (restartInterval === 0) return;
+        if (mcusLeft === 0) {
+            reader.restart();
+            for (const scan of scanComponents) scan.pred = 0;
+            mcusLeft = restartInterval;
+        }
+        mcusLeft--;
+    };
+
+    if (scanComponents.length === 1) {
+        // Non-interleaved scans cover exactly the component's own blocks
+        const scan = scanComponents[0];
+        const {blocksPerLine, blocksPerColumn} = scan.component;
+        const stride = mcusPerLine * scan.component.h;
+        for (let row = 0; row < blocksPerColumn; row++) {
+            for (let col = 0; col < blocksPerLine; col++) {
+                nextMcu();
+                decodeBlock(reader, scan, row * stride + col);
+            }
+        }
+        return;
+    }
+
+    for (let mcuRow = 0; mcuRow < mcusPerColumn; mcuRow++) {
+        for (let mcuCol = 0; mcuCol < mcusPerLine; mcuCol++) {
+            nextMcu();
+            for (const scan of scanComponents) {
+                const {h, v} = scan.component;
+                const stride = mcusPerLine * h;
+                for (let by = 0; by < v; by++) {
+                    for (let bx = 0; bx < h; bx++) {
+                        const row = mcuRow * v + by;
+                        const col = mcuCol * h + bx;
+                        decodeBlock(reader, scan, row * stride + col);
+                    }
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import type {KeepPolicy} from '../types/config';
+
+export const KEEP_POLICIES: KeepPolicy[] = ['highest-resolution', 'largest', 'longest', 'oldest', 'newest'];
+
+// Used by the sorter and the forum cleanup when duplicateDetection.keepPolicy is not set
+export const DEFAULT_KEEP_POLICY: KeepPolicy = 'newest';
+
+// npm run cleanup has always kept the first upload, so existing setups keep the same copies
+export const DEFAULT_CLEANUP_KEEP_POLICY: KeepPolicy = 'oldest';
+
+export interface KeepCandidate {
+    order: number;  // Higher is newer, e.g. a message ID
+    width?: number;
+    height?: number;
+    sizeMB?: number;
+    duration?: number | null;
+}
+
+function qualityOf(candidate: KeepCandidate, policy: KeepPolicy): number | undefined {
+    switch (policy) {
+        case 'highest-resolution':
+            return candidate.width && candidate.height ? candidate.width * candidate.height : undefined;
+        case 'largest':
+            return candidate.sizeMB || undefined;
+        case 'longest':
+            return candidate.duration || undefined;
+        case 'oldest':
+            return -candidate.order;
+        case 'newest':
+            return candidate.order;
+    }
+}
+
+/**
+ * Pick the copy of a duplicate to keep. When the policy's metric is unknown for one
+ * of two copies (e.g. no resolution recorded), or equal, the older copy wins so
+ * existing messages are not churned for nothing.
+ */
+export function pickVideoToKeep<T extends KeepCandidate>(candidates: T[], policy: KeepPolicy): T {
+    return candidates.reduce((best, candidate) => {
+        const candidateQuality = qualityOf(candidate, policy);
+        const bestQuality = qualityOf(best, policy);
+
+        if (candidateQuality !== undefined && bestQuality !== undefined && candidateQuality !== bestQuality) {
+            return candidateQuality > bestQuality ? candidate : best;
+        }
+        return candidate.order < best.order ? candidate : best;
+    });
+}
@@ -0,0 +1,271 @@
+export type MatchRuleKind = 'keyword' | 'regex' | 'expression';
+
+export interface MatchRule {
+    source: string;
+    kind: MatchRuleKind;
+    test(text: string): boolean;
+}
+
+export class MatchRuleError extends Error {
+    constructor(public readonly rule: string, reason: string) {
+        super(`Invalid match rule "${rule}": ${reason}`);
+        this.name = 'MatchRuleError';
+    }
+}
+
+interface MatchContext {
+    raw: string;
+    lower: string;
+}
+
+type Evaluator = (context: MatchContext) => boolean;
+
+type Token =
+    | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen' }
+    | { type: 'word' | 'phrase'; value: string }
+    | { type: 'regex'; regex: RegExp };
+
+const REGEX_LITERAL = /^\/((?:\\.|[^\\/])+)\/([a-z]*)$/;
+// Regexes and expressions are opt-in, so keywords with slashes, quotes, parentheses or AND/OR/NOT stay plain keywords
+const REGEX_PREFIX = 're:';
+const EXPRESSION_PREFIX = 'expr:';
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = {AND: 'and', OR: 'or', NOT: 'not'};
+
+function compileRegex(rule: string, pattern: string, flags: string): RegExp {
+    // Global/sticky flags make RegExp.test stateful, which would break repeated matching
+    const safeFlags = flags.replace(/[gy]/g, '');
+    try {
+        return new RegExp(pattern, safeFlags);
+    } catch (error) {
+        throw new MatchRuleError(rule, (error as Error).message);
+    }
+}
+
+function keywordEvaluator(keyword: string): Evaluator {
+    const needle = keyword.toLowerCase();
+    return ({lower}) => lower.includes(needle);
+}
+
+function regexEvaluator(regex: RegExp): Evaluator {
+    return ({raw}) => regex.test(raw);
+}
+
+function tokenize(rule: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < rule.length) {
+        const char = rule[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(') {
+            tokens.push({type: 'lparen'});
+            i++;
+        } else if (char === ')') {
+            tokens.push({type: 'rparen'});
+            i++;
+        } else if (char === '"') {
+            const end = rule.indexOf('"', i + 1);
+            if (end === -1) {
+                throw new MatchRuleError(rule, `unterminated quote at position ${i + 1}`);
+            }
+            const phrase = rule.slice(i + 1, end).trim();
+            if (!phrase) {
+                throw new MatchRuleError(rule, `empty quoted phrase at position ${i + 1}`);
+            }
+            tokens.push({type: 'phrase', value: phrase});
+            i = end + 1;
+        } else if (char === '/') {
+            let end = i + 1;
+            while (end < rule.length && rule[end] !== '/') {
+                end += rule[end] === '\\' ? 2 : 1;
+            }
+            if (end >= rule.length) {
+                throw new MatchRuleError(rule, `unterminated regex at position ${i + 1}`);
+            }
+            let flagsEnd = end + 1;
+            while (flagsEnd < rule.length && /[a-z]/.test(rule[flagsEnd])) {
+                flagsEnd++;
+            }
+            const pattern = rule.slice(i + 1, end);
+            if (!pattern) {
+                throw new MatchRuleError(rule, `empty regex at position ${i + 1}`);
+            }
+            tokens.push({type: 'regex', regex: compileRegex(rule, pattern, rule.slice(end + 1, flagsEnd))});
+            i = flagsEnd;
+        } else {
+            let end = i;
+            while (end < rule.length && !/[\s()"]/.test(rule[end])) {
+                end++;
+            }
+            const word = rule.slice(i, end);
+            const operator = OPERATORS[word];
+            tokens.push(operator ? {type: operator} : {type: 'word', value: word});
+            i = end;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Recursive descent parser for boolean rules. Precedence: NOT > AND > OR.
+ * Consecutive bare words form a single phrase, so `cat video AND NOT preview`
+ * means "cat video" AND NOT "preview".
+ */
+class ExpressionParser {
+    private position = 0;
+
+    constructor(private readonly rule: string, private readonly tokens: Token[]) {
+    }
+
+    parse(): Evaluator {
+        if (this.tokens.length === 0) {
+            throw new MatchRuleError(this.rule, 'expression is empty');
+        }
+
+        const evaluator = this.parseOr();
+        const leftover = this.peek();
+        if (leftover) {
+            throw new MatchRuleError(this.rule, `unexpected ${this.describe(leftover)}`);
+        }
+        return evaluator;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private describe(token: Token | undefined): string {
+        if (!token) return 'end of expression';
+        switch (token.type) {
+            case 'and':
+            case 'or':
+            case 'not':
+                return `operator ${token.type.toUpperCase()}`;
+            case 'lparen':
+                return '"("';
+            case 'rparen':
+                return '")"';
+            case 'regex':
+                return `regex ${token.regex}`;
+            default:
+                return `"${token.value}"`;
+        }
+    }
+
+    private parseOr(): Evaluator {
+        const operands = [this.parseAnd()];
+        while (this.peek()?.type === 'or') {
+            this.position++;
+            operands.push(this.parseAnd());
+        }
+        return operands.length === 1 ? operands[0] : (context) => operands.some(operand => operand(context));
+    }
+
+    private parseAnd(): Evaluator {
+        const operands = [this.parseNot()];
+        while (this.peek()?.type === 'and') {
+            this.position++;
+            operands.push(this.parseNot());
+        }
+        return operands.length === 1 ? operands[0] : (context) => operands.every(operand => operand(context));
+    }
+
+    private parseNot(): Evaluator {
+        if (this.peek()?.type === 'not') {
+            this.position++;
+            const operand = this.parseNot();
+            return (context) => !operand(context);
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Evaluator {
+        const token = this.peek();
+
+        if (token?.type === 'lparen') {
+            this.position++;
+            const inner = this.parseOr();
+            if (this.peek()?.type !== 'rparen') {
+                throw new MatchRuleError(this.rule, `expected ")" but found ${this.describe(this.peek())}`);
+            }
+            this.position++;
+            return inner;
+        }
+
+        if (token?.type === 'phrase') {
+            this.position++;
+            return keywordEvaluator(token.value);
+        }
+
+        if (token?.type === 'regex') {
+            this.position++;
+            return regexEvaluator(token.regex);
+        }
+
+        if (token?.type === 'word') {
+            const words: string[] = [];
+            let next = this.peek();
+            while (next?.type === 'word') {
+                words.push(next.value);
+                this.position++;
+                next = this.peek();
+            }
+            return keywordEvaluator(words.join(' '));
+        }
+
+        throw new MatchRuleError(this.rule, `expected a keyword but found ${this.describe(token)}`);
+    }
+}
+
+/**
+ * Compile a videoMatches/videoExclusions entry into a rule.
+ *
+ * - `re:/pattern/flags` is a regular expression tested against the original text
+ * - `expr:...` is a boolean expression of keywords, quoted phrases and regexes joined by AND/OR/NOT
+ * - anything else is a case-insensitive substring keyword (the original behavior)
+ */
+export function compileMatchRule(source: string): MatchRule {
+    const rule = source.trim();
+    if (!rule) {
+        throw new MatchRuleError(source, 'rule is empty');
+    }
+
+    let kind: MatchRuleKind;
+    let evaluator: Evaluator;
+
+    // Keywords like "re:zero" don't start a regex, only "re:/"
+    if (rule.startsWith(REGEX_PREFIX) && rule.slice(REGEX_PREFIX.length).trimStart().startsWith('/')) {
+        const regexLiteral = REGEX_LITERAL.exec(rule.slice(REGEX_PREFIX.length).trim());
+        if (!regexLiteral) {
+            throw new MatchRuleError(rule, 'expected a regex like re:/pattern/flags');
+        }
+        kind = 'regex';
+        evaluator = regexEvaluator(compileRegex(rule, regexLiteral[1], regexLiteral[2]));
+    } else if (rule.startsWith(EXPRESSION_PREFIX)) {
+        const expression = rule.slice(EXPRESSION_PREFIX.length).trim();
+        kind = 'expression';
+        evaluator = new ExpressionParser(expression, tokenize(expression)).parse();
+    } else {
+        kind = 'keyword';
+        evaluator = keywordEvaluator(rule);
+    }
+
+    return {
+        source,
+        kind,
+        test: (text: string) => evaluator({raw: text, lower: text.toLowerCase()})
+    };
+}
+
+export function compileMatchRules(sources: string[]): MatchRule[] {
+    return sources.map(compileMatchRule);
+}
+
+export function toMatchRules(rules: (string | MatchRule)[]): MatchRule[] {
+    return rules
+        .filter(rule => typeof rule !== 'string' || rule.trim().length > 0)
+        .map(rule => typeof rule === 'string' ? compileMatchRule(rule) : rule);
+}
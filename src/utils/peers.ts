@@ -0,0 +1,61 @@
+import {Api, helpers, utils} from 'telegram';
+import type {Entity} from 'telegram/define';
+import type {StoredPeer} from '../types/config';
+
+// A source to read or forward from: an input peer, or the marked ID of a source only known from the database
+export type SourcePeer = Api.TypeInputPeer | string;
+
+export type SourceGroupRef =
+    | { type: 'id'; id: string }              // Bare chat or channel ID, as dialogs carry it
+    | { type: 'username'; username: string };  // Lower case, without the @
+
+export function toStoredPeer(channel: Api.Channel | Api.InputPeerChannel): StoredPeer {
+    return channel instanceof Api.Channel
+        ? {id: channel.id.toString(), accessHash: (channel.accessHash ?? helpers.returnBigInt(0)).toString()}
+        : {id: channel.channelId.toString(), accessHash: channel.accessHash.toString()};
+}
+
+export function toInputPeer(peer: StoredPeer): Api.InputPeerChannel {
+    return new Api.InputPeerChannel({
+        channelId: helpers.returnBigInt(peer.id),
+        accessHash: helpers.returnBigInt(peer.accessHash)
+    });
+}
+
+/**
+ * Parse a sourceGroups entry: a chat ID (bare, negative or -100-prefixed), an @username or a
+ * public or private t.me link. Returns null for entries that are none of these.
+ */
+export function parseSourceGroup(entry: string | number): SourceGroupRef | null {
+    const value = String(entry).trim();
+
+    if (/^-?\d+$/.test(value)) {
+        // Strips the -100 of channels and the minus of basic groups (and of IDs older configs listed)
+        return {type: 'id', id: utils.resolveId(helpers.returnBigInt(value))[0].toString()};
+    }
+
+    const privateLink = /^(?:https?:\/\/)?(?:t|telegram)\.me\/c\/(\d+)(?:\/\d+)?\/?$/i.exec(value);
+    if (privateLink) {
+        return {type: 'id', id: privateLink[1]};
+    }
+
+    const username = /^(?:(?:https?:\/\/)?(?:t|telegram)\.me\/|@)?([a-z]\w{3,31})(?:\/\d+)?\/?$/i.exec(value);
+    if (username) {
+        return {type: 'username', username: username[1].toLowerCase()};
+    }
+
+    return null;
+}
+
+export function matchesSourceGroup(ref: SourceGroupRef, entity: Entity): boolean {
+    if (ref.type === 'id') {
+        return entity.id.toString() === ref.id;
+    }
+
+    // Channels can have several collectible usernames besides the main one
+    const usernames = [
+        'username' in entity ? entity.username : undefined,
+        ...('usernames' in entity ? (entity.usernames ?? []).map((u) => u.username) : [])
+    ];
+    return usernames.some((username) => username?.toLowerCase() === ref.username);
+}
@@ -0,0 +1,72 @@
+import {decodeJpegLuma, type GrayscaleImage} from './jpeg-luma';
+
+const HASH_WIDTH = 8;
+const HASH_HEIGHT = 8;
+
+/**
+ * Shrink an image by averaging the source pixels that fall into each target pixel.
+ * Images smaller than the target are sampled instead.
+ */
+function resize(image: GrayscaleImage, width: number, height: number): Float64Array {
+    const result = new Float64Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.floor(y * image.height / height);
+        const y1 = Math.max(y0 + 1, Math.floor((y + 1) * image.height / height));
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.floor(x * image.width / width);
+            const x1 = Math.max(x0 + 1, Math.floor((x + 1) * image.width / width));
+
+            let sum = 0;
+            for (let sy = y0; sy < y1; sy++) {
+                for (let sx = x0; sx < x1; sx++) {
+                    sum += image.data[sy * image.width + sx];
+                }
+            }
+            result[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Difference hash: one bit per horizontally adjacent pixel pair of a 9x8 thumbnail,
+ * set when brightness increases. Re-encodes, rescales and recompressions of the same
+ * frame keep most bits, so similar images have a small Hamming distance.
+ * Returned as 16 hex characters (64 bits).
+ */
+export function differenceHash(image: GrayscaleImage): string {
+    const pixels = resize(image, HASH_WIDTH + 1, HASH_HEIGHT);
+    let hash = 0n;
+
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        for (let x = 0; x < HASH_WIDTH; x++) {
+            const left = pixels[y * (HASH_WIDTH + 1) + x];
+            const right = pixels[y * (HASH_WIDTH + 1) + x + 1];
+            hash = (hash << 1n) | (right > left ? 1n : 0n);
+        }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Perceptual hash of a JPEG thumbnail. Throws a JpegDecodeError for unsupported images.
+ */
+export function thumbnailHash(jpeg: Uint8Array): string {
+    return differenceHash(decodeJpegLuma(jpeg));
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length.
+ */
+export function hammingDistance(hash1: string, hash2: string): number {
+    let diff = BigInt(`0x${hash1}`) ^ BigInt(`0x${hash2}`);
+    let count = 0;
+    while (diff > 0n) {
+        count += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return count;
+}
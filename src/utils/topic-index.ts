@@ -0,0 +1,40 @@
+import {formatDuration} from './helpers';
+
+// Telegram's message length limit
+export const MAX_MESSAGE_LENGTH = 4096;
+
+// Latest additions listed in a topic's index message
+export const INDEX_RECENT_VIDEOS = 10;
+
+export interface IndexedVideo {
+    fileName: string;
+    duration?: number;
+    processedAt: number;    // Unix seconds
+}
+
+/**
+ * Text of the pinned index message of a topic: its video count and the latest additions,
+ * newest first. File names are shortened when the list would exceed Telegram's message limit.
+ */
+export function formatTopicIndex(title: string, videoCount: number, recent: IndexedVideo[]): string {
+    const header = `📂 ${title}: ${videoCount} video${videoCount === 1 ? '' : 's'}`;
+    if (recent.length === 0) {
+        return header;
+    }
+
+    const lines = recent.map((video) => {
+        const date = new Date(video.processedAt * 1000).toISOString().slice(0, 10);
+        const details = video.duration ? `${formatDuration(video.duration)}, ${date}` : date;
+        return {name: video.fileName, suffix: ` (${details})`};
+    });
+
+    const fixedLength = header.length + '\n\nLatest additions:'.length +
+        lines.reduce((sum, line) => sum + '\n• '.length + line.suffix.length, 0);
+    const maxNameLength = Math.max(1, Math.floor((MAX_MESSAGE_LENGTH - fixedLength) / lines.length));
+
+    const list = lines.map(({name, suffix}) => {
+        const shortName = name.length > maxNameLength ? `${name.slice(0, maxNameLength - 1)}…` : name;
+        return `• ${shortName}${suffix}`;
+    });
+    return `${header}\n\nLatest additions:\n${list.join('\n')}`;
+}
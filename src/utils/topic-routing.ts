@@ -0,0 +1,46 @@
+import type {OrphanedTopicPolicy, TopicAppearance, TopicLimits, VideoMessage} from '../types/config';
+import type {MatchRule} from './match-rules';
+import {matchesVideo} from './video-matching';
+
+// The colors Telegram allows for topic icons
+export const TOPIC_ICON_COLORS = [0x6FB9F0, 0xFFD67E, 0xCB86DB, 0x8EEE98, 0xFF93B2, 0xFB6F5F];
+
+export const ORPHANED_TOPIC_POLICIES: OrphanedTopicPolicy[] = ['close', 'keep'];
+
+export interface TopicRoute extends TopicLimits, TopicAppearance {
+    title: string;
+    matchRules: MatchRule[];
+    exclusionRules: MatchRule[];
+    pinnedIndex?: boolean;
+}
+
+export interface TopicMatch {
+    route: TopicRoute;
+    keywords: string[];
+}
+
+/**
+ * Find every topic a video belongs to. Global exclusions apply to all topics,
+ * topic exclusions and the minimum duration only to their own topic.
+ */
+export function routeVideo(
+    message: VideoMessage,
+    routes: TopicRoute[],
+    exclusions: MatchRule[]
+): TopicMatch[] {
+    const results: TopicMatch[] = [];
+
+    for (const route of routes) {
+        const keywords = matchesVideo(
+            message,
+            route.matchRules,
+            [...exclusions, ...route.exclusionRules],
+            route.minVideoDurationInSeconds ?? 0
+        );
+        if (keywords.length > 0) {
+            results.push({route, keywords});
+        }
+    }
+
+    return results;
+}
@@ -1,10 +1,11 @@
 import type {VideoMessage} from '../types/config';
 import {getFileName, getVideoDuration} from './helpers';
+import {type MatchRule, toMatchRules} from './match-rules';
 
 export function matchesVideo(
     message: VideoMessage,
-    matches: string[],
-    exclusions: string[],
+    matches: (string | MatchRule)[],
+    exclusions: (string | MatchRule)[],
     minDuration: number
 ): string[] {
     const media = message.media;
@@ -26,48 +27,31 @@ export function matchesVideo(
         return [];
     }
 
-    const messageText = (message.message ?? '').toLowerCase();
-    const fileName = getFileName(document).toLowerCase();
+    const messageText = message.message ?? '';
+    const fileName = getFileName(document);
     const duration = getVideoDuration(document);
 
     if (!duration || duration < minDuration) {
         return [];
     }
 
-    const combinedText = `${messageText} ${fileName}`;
-
     // Check exclusions first
-    for (const exclusion of exclusions) {
-        const exclusionLower = exclusion.toLowerCase().trim();
-        if (exclusionLower && combinedText.includes(exclusionLower)) {
-            return [];
-        }
-    }
-
-    // Find ALL matching strings (case-insensitive word matching)
-    const allMatches: string[] = [];
-    for (const matchString of matches) {
-        const matchLower = matchString.toLowerCase().trim();
-        if (matchLower && combinedText.includes(matchLower)) {
-            allMatches.push(matchString);
-        }
+    if (shouldExcludeVideo(messageText, fileName, exclusions)) {
+        return [];
     }
 
-    return allMatches;
+    // Find ALL matching rules; keyword rules are case-insensitive substring matches
+    const combinedText = `${messageText} ${fileName}`;
+    return toMatchRules(matches)
+        .filter(rule => rule.test(combinedText))
+        .map(rule => rule.source);
 }
 
 export function shouldExcludeVideo(
     messageText: string,
     fileName: string,
-    exclusions: string[]
+    exclusions: (string | MatchRule)[]
 ): boolean {
-    const combinedText = `${messageText.toLowerCase()} ${fileName.toLowerCase()}`;
-
-    for (const exclusion of exclusions) {
-        if (combinedText.includes(exclusion.toLowerCase())) {
-            return true;
-        }
-    }
-
-    return false;
+    const combinedText = `${messageText} ${fileName}`;
+    return toMatchRules(exclusions).some(rule => rule.test(combinedText));
 }
@@ -0,0 +1,57 @@
+import {AccountPool} from '../src/services/account-pool';
+import {TelegramClientFactory} from '../src/services/telegram-client';
+
+describe('AccountPool', () => {
+    let pool: AccountPool;
+
+    beforeEach(() => {
+        jest.spyOn(TelegramClientFactory, 'createClient').mockImplementation(() => ({}) as any);
+        pool = new AccountPool([
+            {name: 'main', sessionFile: 'main.session'},
+            {name: 'second', sessionFile: 'second.session'},
+            {name: 'third', sessionFile: 'third.session'}
+        ], 60);
+    });
+
+    const account = (name: string) => pool.getAccounts().find(a => a.name === name)!;
+
+    it('should assign unknown sources to the primary account', () => {
+        pool.assignSource('-1001', account('second'));
+
+        expect(pool.getSourceAccount('-1001').name).toBe('second');
+        expect(pool.getSourceAccount('-1002').name).toBe('main');
+    });
+
+    it('should forward with the source account while it is not rate limited', () => {
+        pool.assignSource('-1001', account('second'));
+
+        expect(pool.getForwardingAccount('-1001')?.name).toBe('second');
+    });
+
+    it('should fail over to another forum member on long flood waits', () => {
+        pool.assignSource('-1001', account('second'));
+        account('main').canForward = false;
+
+        expect(pool.markFloodWait(account('second'), 30)).toBe(false);
+        expect(pool.markFloodWait(account('second'), 600)).toBe(true);
+
+        expect(pool.getForwardingAccount('-1001', account('second'))?.name).toBe('third');
+        expect(pool.getForwardingAccount('-1001')?.name).toBe('third');
+    });
+
+    it('should pick the account that is free first when all are rate limited', () => {
+        pool.markFloodWait(account('main'), 600);
+        pool.markFloodWait(account('second'), 120);
+        pool.markFloodWait(account('third'), 300);
+
+        expect(pool.getForwardingAccount('-1001', account('main'))).toBeNull();
+        expect(pool.getForwardingAccount('-1001')?.name).toBe('second');
+    });
+
+    it('should never fail over with a single account', () => {
+        const single = new AccountPool([{name: 'default', sessionFile: 'telegram_session.session'}]);
+
+        expect(single.markFloodWait(single.getPrimary(), 3600)).toBe(false);
+        expect(single.getForwardingAccount('-1001')).toBe(single.getPrimary());
+    });
+});
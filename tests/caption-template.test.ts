@@ -0,0 +1,26 @@
+import {getMessageLink, MAX_CAPTION_LENGTH, renderCaptionTemplate} from '../src/utils/caption-template';
+
+describe('Caption Template', () => {
+    it('should replace placeholders with their values', () => {
+        expect(renderCaptionTemplate('{fileName} in {topicName}', {fileName: 'Cat.mp4', topicName: 'Cats'}))
+            .toBe('Cat.mp4 in Cats');
+    });
+
+    it('should empty known placeholders without a value and keep unknown ones', () => {
+        expect(renderCaptionTemplate('{fileName}\n\n{caption}', {fileName: 'Cat.mp4', caption: undefined})).toBe('Cat.mp4');
+        expect(renderCaptionTemplate('{fileName} {unknown}', {fileName: 'Cat.mp4'})).toBe('Cat.mp4 {unknown}');
+    });
+
+    it('should cut captions at the Telegram limit', () => {
+        const caption = renderCaptionTemplate('{caption}', {caption: 'x'.repeat(2000)});
+
+        expect(caption).toHaveLength(MAX_CAPTION_LENGTH);
+        expect(caption.endsWith('…')).toBe(true);
+    });
+
+    it('should link to public and private messages', () => {
+        expect(getMessageLink('-1001234567890', 42, 'catvideos')).toBe('https://t.me/catvideos/42');
+        expect(getMessageLink('-1001234567890', 42)).toBe('https://t.me/c/1234567890/42');
+        expect(getMessageLink('-123456', 42)).toBeUndefined();
+    });
+});
@@ -0,0 +1,101 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import Database from 'better-sqlite3';
+import {CatalogExporter} from '../src/services/catalog-exporter';
+import {MessageStorage} from '../src/services/storage';
+
+describe('CatalogExporter', () => {
+    const testDir = path.join(__dirname, 'test-data');
+    const testDbPath = path.join(testDir, 'export-processed.txt');
+    let storage: MessageStorage;
+    let exporter: CatalogExporter;
+
+    beforeEach(() => {
+        fs.mkdirSync(testDir, {recursive: true});
+        fs.rmSync(testDbPath.replace('.txt', '.db'), {force: true});
+
+        storage = new MessageStorage(testDbPath);
+        storage.saveProcessedVideoName('Cat, "the" movie.mp4', 'Cats', 125, 50.5, 'cat the movie', {}, {sourceId: '-1001', sourceMessageId: 10});
+        storage.saveProcessedVideoName('Kitten.mp4', 'Cats', 60, 20, 'kitten');
+        storage.saveProcessedVideoName('Dog <3.mp4', 'Dogs', 90, 30, 'dog 3', {}, {sourceId: '-1002', sourceMessageId: 20});
+
+        storage.recordForward({sourceId: '-1001', sourceMessageId: 10, topicName: 'Cats', fileName: 'Cat, "the" movie.mp4'});
+        storage.recordForward({sourceId: '-1002', sourceMessageId: 20, topicName: 'Dogs', fileName: 'Dog <3.mp4'});
+
+        // Backdate the forwards to 2024-01-01 and 2024-02-01 (UTC)
+        const db = new Database(testDbPath.replace('.txt', '.db'));
+        db.prepare('UPDATE forwards SET forwarded_at = ? WHERE source_id = ?').run(1704067200, '-1001');
+        db.prepare('UPDATE forwards SET forwarded_at = ? WHERE source_id = ?').run(1706745600, '-1002');
+        // Kitten.mp4 stands for a video sorted before sources and forward dates were recorded, on 2023-06-01
+        db.prepare('UPDATE processed_videos SET processed_at = ? WHERE file_name = ?').run(1685577600, 'Kitten.mp4');
+        db.close();
+
+        exporter = new CatalogExporter(storage);
+    });
+
+    afterEach(() => {
+        storage.close();
+        fs.rmSync(testDbPath.replace('.txt', '.db'), {force: true});
+    });
+
+    it('should join videos with their source and forward date', () => {
+        const entries = exporter.collect();
+
+        expect(entries.map(e => [e.topicName, e.fileName, e.sourceId])).toEqual([
+            ['Cats', 'Cat, "the" movie.mp4', '-1001'],
+            ['Cats', 'Kitten.mp4', undefined],
+            ['Dogs', 'Dog <3.mp4', '-1002']
+        ]);
+    });
+
+    it('should join forwards by source message, not by file name', () => {
+        // A later forward of another upload with the same name must not take over the date
+        storage.recordForward({sourceId: '-1003', sourceMessageId: 30, topicName: 'Cats', fileName: 'Cat, "the" movie.mp4'});
+
+        const [entry] = exporter.collect({topics: ['Cats']});
+
+        expect(entry).toMatchObject({fileName: 'Cat, "the" movie.mp4', sourceId: '-1001', forwardedAt: 1704067200});
+    });
+
+    it('should filter by topic, source and date range', () => {
+        expect(exporter.collect({topics: ['Dogs']}).map(e => e.fileName)).toEqual(['Dog <3.mp4']);
+        expect(exporter.collect({sourceId: '-1001'}).map(e => e.fileName)).toEqual(['Cat, "the" movie.mp4']);
+        expect(exporter.collect({from: 1706745600}).map(e => e.fileName)).toEqual(['Dog <3.mp4']);
+        expect(exporter.collect({to: 1706745600}).map(e => e.fileName)).toEqual(['Cat, "the" movie.mp4', 'Kitten.mp4']);
+    });
+
+    it('should date videos without a recorded forward by when they were sorted', () => {
+        const [kitten] = exporter.collect({from: 1685577600, to: 1685664000});
+
+        expect(kitten).toMatchObject({fileName: 'Kitten.mp4', sourceId: undefined, forwardedAt: 1685577600});
+        expect(exporter.collect({sourceId: '-1001'}).map(e => e.fileName)).not.toContain('Kitten.mp4');
+    });
+
+    it('should quote CSV fields', () => {
+        const csv = exporter.format(exporter.collect({topics: ['Cats']}), 'csv');
+
+        expect(csv.split('\r\n')).toEqual([
+            'topic,file_name,duration_seconds,size_mb,source,date',
+            'Cats,"Cat, ""the"" movie.mp4",125,50.5,-1001,2024-01-01 00:00:00',
+            'Cats,Kitten.mp4,60,20,,2023-06-01 00:00:00',
+            ''
+        ]);
+    });
+
+    it('should write one JSON object per line', () => {
+        const lines = exporter.format(exporter.collect(), 'jsonl').trim().split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(JSON.parse(lines[1])).toEqual({
+            topic: 'Cats', fileName: 'Kitten.mp4', duration: 60, sizeMB: 20, source: null, sourceMessageId: null, date: '2023-06-01 00:00:00'
+        });
+    });
+
+    it('should group the HTML report by topic and escape names', () => {
+        const html = exporter.format(exporter.collect(), 'html');
+
+        expect(html).toContain('<h2>Cats</h2>\n<p>2 video(s), 70.5 MB</p>');
+        expect(html).toContain('<td>Dog &lt;3.mp4</td><td>1:30</td>');
+        expect(html).not.toContain('Dog <3');
+    });
+});
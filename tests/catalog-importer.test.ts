@@ -0,0 +1,123 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import Database from 'better-sqlite3';
+import {CatalogExporter} from '../src/services/catalog-exporter';
+import {CatalogImporter, CatalogImportError} from '../src/services/catalog-importer';
+import {MessageStorage} from '../src/services/storage';
+import {normalizeFileName} from '../src/utils/helpers';
+
+describe('CatalogImporter', () => {
+    const testDir = path.join(__dirname, 'test-data', 'import');
+    const localPath = path.join(testDir, 'local', 'processed-messages.txt');
+    const remotePath = path.join(testDir, 'remote', 'processed-messages.txt');
+    let local: MessageStorage;
+    let remote: MessageStorage;
+
+    beforeEach(() => {
+        fs.rmSync(testDir, {recursive: true, force: true});
+        fs.mkdirSync(path.dirname(localPath), {recursive: true});
+        fs.mkdirSync(path.dirname(remotePath), {recursive: true});
+
+        local = new MessageStorage(localPath);
+        local.saveProcessedMessage('-1001_1');
+        local.saveProcessedVideoName('Cat Video.mp4', 'Cats', undefined, undefined, normalizeFileName('Cat Video.mp4'));
+        local.saveProcessedVideoName('Kitten.mp4', 'Cats', 60, 20, normalizeFileName('Kitten.mp4'));
+
+        remote = new MessageStorage(remotePath);
+        remote.saveProcessedMessage('-1001_1');
+        remote.saveProcessedMessage('-1002_5');
+        remote.saveProcessedVideoName('Cat Video.mp4', 'Cats', 120, 50, normalizeFileName('Cat Video.mp4'), {fileHash: 'abc'});
+        remote.saveProcessedVideoName('Kitten.mp4', 'Cats', 60, 20, normalizeFileName('Kitten.mp4'));
+        remote.saveProcessedVideoName('Dog.mp4', 'Dogs', 90, 30, normalizeFileName('Dog.mp4'), {},
+            {sourceId: '-1002', sourceMessageId: 5, topicId: 7, caption: 'Good boy'});
+        remote.recordForward({sourceId: '-1002', sourceMessageId: 5, topicName: 'Dogs', fileName: 'Dog.mp4'});
+    });
+
+    afterEach(() => {
+        local.close();
+        remote.close();
+        fs.rmSync(testDir, {recursive: true, force: true});
+    });
+
+    it('should merge another data directory, filling in missing metadata on conflicts', () => {
+        remote.close();
+        const catalog = new CatalogImporter().read(path.dirname(remotePath));
+        const result = local.mergeCatalog(catalog.messageIds, catalog.videos);
+
+        expect(result).toEqual({
+            messagesAdded: 1, videosAdded: 1, videosUpdated: 1, videosUnchanged: 1, addedPerTopic: {Dogs: 1}
+        });
+        expect(local.hasProcessedMessage('-1002_5')).toBe(true);
+        expect(local.findVideosByFingerprintInTopic('Cats', {fileHash: 'abc'})[0]).toMatchObject({
+            normalizedName: normalizeFileName('Cat Video.mp4'), duration: 120, sizeMB: 50
+        });
+        expect(local.getProcessedVideoNamesCount()).toBe(3);
+        expect(local.getSortedVideos('Dogs')).toEqual([expect.objectContaining({
+            sourceId: '-1002', sourceMessageId: 5, caption: 'Good boy', topicId: undefined
+        })]);
+    });
+
+    it('should not write anything in a dry run', () => {
+        const catalog = new CatalogImporter().read(remotePath.replace('.txt', '.db'));
+        const result = local.mergeCatalog(catalog.messageIds, catalog.videos, true);
+
+        expect(result.videosAdded).toBe(1);
+        expect(local.getProcessedVideoNamesCount()).toBe(2);
+        expect(local.hasProcessedMessage('-1002_5')).toBe(false);
+    });
+
+    it('should read databases of older versions without fingerprint columns', () => {
+        const legacyPath = path.join(testDir, 'legacy.db');
+        const db = new Database(legacyPath);
+        db.exec(`
+            CREATE TABLE processed_videos (id INTEGER PRIMARY KEY, file_name TEXT, normalized_name TEXT, topic_name TEXT,
+                                           duration REAL, size_mb REAL, processed_at INTEGER);
+            INSERT INTO processed_videos (file_name, normalized_name, topic_name, duration, size_mb, processed_at)
+            VALUES ('Old.mp4', 'old', '*', NULL, NULL, 1700000000);
+        `);
+        db.close();
+
+        const catalog = new CatalogImporter().read(legacyPath);
+
+        expect(catalog.messageIds).toEqual([]);
+        expect(catalog.videos).toEqual([expect.objectContaining({fileName: 'Old.mp4', topicName: '*', processedAt: 1700000000})]);
+    });
+
+    it('should import JSON Lines exports', () => {
+        const exporter = new CatalogExporter(remote);
+        const jsonlPath = path.join(testDir, 'remote.jsonl');
+        fs.writeFileSync(jsonlPath, exporter.format(exporter.collect(), 'jsonl'));
+
+        const catalog = new CatalogImporter().read(jsonlPath);
+        const result = local.mergeCatalog(catalog.messageIds, catalog.videos);
+
+        expect(catalog.videos.map(v => [v.topicName, v.normalizedName])).toEqual([
+            ['Cats', 'catvideo'], ['Cats', 'kitten'], ['Dogs', 'dog']
+        ]);
+        expect(result).toMatchObject({messagesAdded: 0, videosAdded: 1, videosUpdated: 1, videosUnchanged: 1});
+    });
+
+    it('should keep the source of videos through an export and import', () => {
+        const exporter = new CatalogExporter(remote);
+        const jsonlPath = path.join(testDir, 'remote.jsonl');
+        fs.writeFileSync(jsonlPath, exporter.format(exporter.collect(), 'jsonl'));
+
+        const catalog = new CatalogImporter().read(jsonlPath);
+        local.mergeCatalog(catalog.messageIds, catalog.videos);
+
+        const [dog] = local.getSortedVideos('Dogs');
+        expect(dog).toMatchObject({fileName: 'Dog.mp4', sourceId: '-1002', sourceMessageId: 5});
+        expect(dog.forwardedAt).toBe(exporter.collect({topics: ['Dogs']})[0].forwardedAt);
+        expect(new CatalogExporter(local).collect({sourceId: '-1002'}).map(entry => entry.fileName)).toEqual(['Dog.mp4']);
+    });
+
+    it('should reject missing files and invalid input', () => {
+        const importer = new CatalogImporter();
+        const badPath = path.join(testDir, 'bad.jsonl');
+        fs.writeFileSync(badPath, '{"topic": "Cats"}\n');
+
+        expect(() => importer.read(path.join(testDir, 'missing.db'))).toThrow(CatalogImportError);
+        expect(() => importer.read(badPath)).toThrow('bad.jsonl:1: topic and fileName are required');
+        expect(() => importer.read(path.join(testDir, 'local'))).not.toThrow();
+    });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {DashboardServer} from '../src/services/dashboard-server';
+import {MessageStorage} from '../src/services/storage';
+
+describe('DashboardServer', () => {
+    const testDir = path.join(__dirname, 'test-data');
+    const testDbPath = path.join(testDir, 'dashboard-processed.txt');
+    let storage: MessageStorage;
+    let server: DashboardServer;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        fs.mkdirSync(testDir, {recursive: true});
+        fs.rmSync(testDbPath.replace('.txt', '.db'), {force: true});
+
+        storage = new MessageStorage(testDbPath);
+        storage.saveProcessedVideoName('Cat Video.mp4', 'Cats', 120, 50, 'cat video');
+        storage.saveProcessedVideoName('Cat_100%.mp4', 'Cats', 60, 20, 'cat 100%');
+        storage.saveProcessedVideoName('Dog Video.mp4', 'Dogs & Puppies', 90, 30, 'dog video');
+
+        server = new DashboardServer(storage, '127.0.0.1', 0);
+        baseUrl = `http://127.0.0.1:${await server.start()}`;
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        storage.close();
+        fs.rmSync(testDbPath.replace('.txt', '.db'), {force: true});
+    });
+
+    const getJson = async (pathname: string) => {
+        const response = await fetch(baseUrl + pathname);
+        return {status: response.status, body: await response.json()};
+    };
+
+    it('should serve the search page', async () => {
+        const response = await fetch(`${baseUrl}/`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/html');
+        expect(await response.text()).toContain('/api/videos');
+    });
+
+    it('should list topics with video counts', async () => {
+        const {body} = await getJson('/api/topics');
+
+        expect(body.map((t: any) => [t.topicName, t.videoCount, t.totalSizeMB])).toEqual([
+            ['Cats', 2, 70],
+            ['Dogs & Puppies', 1, 30]
+        ]);
+    });
+
+    it('should search videos per topic, treating wildcards literally', async () => {
+        const topic = encodeURIComponent('Dogs & Puppies');
+        expect((await getJson(`/api/topics/${topic}/videos`)).body.total).toBe(1);
+
+        const {body} = await getJson('/api/videos?q=100%25');
+        expect(body.total).toBe(1);
+        expect(body.videos[0].fileName).toBe('Cat_100%.mp4');
+
+        expect((await getJson('/api/videos?q=_')).body.total).toBe(1);
+        expect((await getJson('/api/videos?topic=Cats&limit=1')).body.videos).toHaveLength(1);
+    });
+
+    it('should report forwards, removed duplicates and runs', async () => {
+        storage.startRun();
+        storage.recordForward({
+            sourceId: '-1001', sourceMessageId: 7, topicName: 'Cats', topicId: 3, forwardedMessageId: 42, fileName: 'Cat Video.mp4'
+        });
+        storage.recordRemovedDuplicates('Cats', [
+            {fileName: 'Cat Video (old).mp4', normalizedName: 'cat video', topicName: 'Cats', matchedBy: 'hash'}
+        ], 'Cat Video.mp4');
+        storage.finishRun('completed', 10, 1);
+
+        const forwards = (await getJson('/api/forwards')).body;
+        expect(forwards).toHaveLength(1);
+        expect(forwards[0]).toMatchObject({sourceId: '-1001', sourceMessageId: 7, forwardedMessageId: 42, topicName: 'Cats'});
+
+        const duplicates = (await getJson('/api/duplicates')).body;
+        expect(duplicates[0]).toMatchObject({fileName: 'Cat Video (old).mp4', matchedBy: 'hash', replacedBy: 'Cat Video.mp4'});
+
+        const runs = (await getJson('/api/runs')).body;
+        expect(runs[0]).toMatchObject({status: 'completed', processed: 10, forwarded: 1});
+
+        const stats = (await getJson('/api/stats')).body;
+        expect(stats).toMatchObject({videos: 3, topics: 2});
+        expect(stats.lastRun.status).toBe('completed');
+    });
+
+    it('should reject unknown paths, bad parameters and non-GET requests', async () => {
+        expect((await getJson('/api/unknown')).status).toBe(404);
+        expect((await getJson('/api/runs?limit=abc')).status).toBe(400);
+        expect(await getJson('/api/topics/%E0%A4%A/videos')).toEqual({status: 400, body: {error: 'Malformed path segment: %E0%A4%A'}});
+        expect((await fetch(`${baseUrl}/api/topics`, {method: 'POST'})).status).toBe(405);
+    });
+});
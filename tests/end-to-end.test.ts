@@ -0,0 +1,324 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {Api, utils} from 'telegram';
+import {AccountPool} from '../src/services/account-pool';
+import {MessageStorage} from '../src/services/storage';
+import {TelegramVideoSorter} from '../src/telegram-sorter';
+import {FakeTelegram} from './fake-telegram';
+
+describe('End-to-end sort run', () => {
+    const testDir = path.join(__dirname, 'test-data', 'end-to-end');
+    let telegram: FakeTelegram;
+    let source: Api.Channel;
+
+    const writeConfig = (overrides: Record<string, unknown> = {}): void => {
+        fs.writeFileSync(path.join(testDir, 'telegram-sorter-config.json'), JSON.stringify({
+            sortedGroupName: 'Sorted Videos',
+            dataDir: path.join(testDir, 'data'),
+            sessionFile: 'main.session',
+            videoExclusions: ['trailer'],
+            topics: [
+                {title: 'Cats', keywords: ['cat']},
+                {title: 'Dogs', keywords: ['dog']}
+            ],
+            minVideoDurationInSeconds: 10,
+            sourceGroups: [utils.getPeerId(source)],
+            maxForwards: 50,
+            dryRun: false,
+            ...overrides
+        }));
+    };
+
+    const runSorter = async (): Promise<void> => {
+        const accounts = new AccountPool([{name: 'main', sessionFile: 'main.session'}], 60, {}, () => telegram);
+        await new TelegramVideoSorter({}, accounts).run();
+    };
+
+    beforeEach(() => {
+        fs.rmSync(testDir, {recursive: true, force: true});
+        fs.mkdirSync(testDir, {recursive: true});
+        jest.spyOn(process, 'cwd').mockReturnValue(testDir);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        telegram = new FakeTelegram();
+        source = telegram.addChannel('Pet Videos');
+        writeConfig();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(testDir, {recursive: true, force: true});
+    });
+
+    it('should create the forum and sort matching videos into their topics', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        telegram.postVideo(source, {fileName: 'Dog park.mp4'});
+        telegram.postVideo(source, {fileName: 'Cat and dog.mp4'});
+        telegram.postVideo(source, {fileName: 'Cat trailer.mp4'});
+        telegram.postVideo(source, {fileName: 'Short cat.mp4', duration: 5});
+        telegram.postVideo(source, {fileName: 'Sunset.mp4'});
+
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos');
+        expect(group).toBeDefined();
+        expect(telegram.getTopicVideos(group!, 'Cats').sort()).toEqual(['Cat and dog.mp4', 'Funny cat.mp4']);
+        expect(telegram.getTopicVideos(group!, 'Dogs').sort()).toEqual(['Cat and dog.mp4', 'Dog park.mp4']);
+        expect(telegram.connected).toBe(false);
+    });
+
+    it('should forward each video once across runs and replace duplicates', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        await runSorter();
+
+        telegram.postVideo(source, {fileName: 'Funny_Cat.mp4'});
+        telegram.postVideo(source, {fileName: 'Sleepy cat.mp4', duration: 300, sizeMB: 80});
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        // The newer upload of the same clip replaces the first one (default keep policy: newest)
+        expect(telegram.getTopicVideos(group, 'Cats').sort()).toEqual(['Funny_Cat.mp4', 'Sleepy cat.mp4']);
+        expect(telegram.calls.filter(call => call === 'createForumGroup')).toHaveLength(1);
+    });
+
+    it('should forward the matches left over at maxForwards on the next run', async () => {
+        telegram.postVideo(source, {fileName: 'A cat.mp4', duration: 100, sizeMB: 10});
+        telegram.postVideo(source, {fileName: 'B cat.mp4', duration: 200, sizeMB: 20});
+        telegram.postVideo(source, {fileName: 'C cat.mp4', duration: 300, sizeMB: 30});
+        writeConfig({maxForwards: 1});
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual(['C cat.mp4']);
+
+        writeConfig();
+        await runSorter();
+
+        expect(telegram.getTopicVideos(group, 'Cats').sort()).toEqual(['A cat.mp4', 'B cat.mp4', 'C cat.mp4']);
+    });
+
+    it('should forward only one of two duplicates on the same page', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        telegram.postVideo(source, {fileName: 'Funny_Cat.mp4'});
+
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toHaveLength(1);
+
+        const storage = new MessageStorage(path.join(testDir, 'data', 'processed-messages.txt'));
+        expect(storage.getProcessedVideosInTopic('Cats')).toHaveLength(1);
+        expect(storage.getUnfinishedForwards()).toEqual([]);
+        storage.close();
+    });
+
+    it('should queue a forward that still hit a FLOOD_WAIT after the rate limiter gave up', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        telegram.failNext('forwardMessages', telegram.floodWait(5));
+
+        await runSorter();
+
+        // The rate limiter owns the retries of short FLOOD_WAITs, so the forwarder does not send again
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual([]);
+        expect(telegram.calls.filter(call => call === 'forwardMessages')).toHaveLength(1);
+
+        const storage = new MessageStorage(path.join(testDir, 'data', 'processed-messages.txt'));
+        expect(storage.getFailedForwards().map(forward => forward.fileName)).toEqual(['Funny cat.mp4']);
+        storage.close();
+    });
+
+    it('should copy videos of sources that restrict forwarding', async () => {
+        const restricted = telegram.addChannel('Protected Pets', {noforwards: true});
+        telegram.postVideo(restricted, {fileName: 'Funny cat.mp4', caption: 'Look at this'});
+        writeConfig({sourceGroups: [utils.getPeerId(restricted)]});
+
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual(['Funny cat.mp4']);
+        expect(telegram.calls).toContain('sendDocument');
+    });
+
+    it('should count a copy as sent when its new message ID is unknown', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        writeConfig({deliveryMode: 'copy'});
+        const sendDocument = telegram.sendDocument.bind(telegram);
+        jest.spyOn(telegram, 'sendDocument').mockImplementation(async (...args) => {
+            await sendDocument(...args);
+            return undefined;
+        });
+
+        await runSorter();
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual(['Funny cat.mp4']);
+        const storage = new MessageStorage(path.join(testDir, 'data', 'processed-messages.txt'));
+        expect(storage.getFailedForwards()).toEqual([]);
+        storage.close();
+    });
+
+    it('should keep messages of different sources with the same IDs apart', async () => {
+        const other = telegram.addChannel('More Pets');
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        telegram.postVideo(other, {fileName: 'Sleepy cat.mp4', duration: 300, sizeMB: 80});
+        writeConfig({sourceGroups: [utils.getPeerId(source), utils.getPeerId(other)]});
+
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats').sort()).toEqual(['Funny cat.mp4', 'Sleepy cat.mp4']);
+    });
+
+    it('should find sources listed by username or t.me link', async () => {
+        const publicChannel = telegram.addChannel('Public Pets', {username: 'PublicPets'});
+        const privateChannel = telegram.addChannel('Private Pets');
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        telegram.postVideo(publicChannel, {fileName: 'Sleepy cat.mp4', duration: 300, sizeMB: 80});
+        telegram.postVideo(privateChannel, {fileName: 'Dog park.mp4'});
+        writeConfig({sourceGroups: ['@publicpets', `https://t.me/c/${privateChannel.id}/1`]});
+
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual(['Sleepy cat.mp4']);
+        expect(telegram.getTopicVideos(group, 'Dogs')).toEqual(['Dog park.mp4']);
+    });
+
+    it('should reuse an archived forum group and its topics beyond the first page', async () => {
+        const existing = telegram.addChannel('Sorted Videos', {forum: true, archived: true});
+        telegram.addTopic(existing, 'Cats');
+        for (let i = 1; i <= 150; i++) {
+            telegram.addTopic(existing, `Topic ${i}`);
+        }
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+
+        await runSorter();
+
+        expect(telegram.calls).not.toContain('createForumGroup');
+        // Only the Dogs topic is new, and the topics are listed once for both
+        expect(telegram.calls.filter(call => call === 'createForumTopic')).toHaveLength(1);
+        expect(telegram.calls.filter(call => call === 'getForumTopics')).toHaveLength(1);
+        expect(telegram.getTopicVideos(utils.getInputPeer(existing) as Api.InputPeerChannel, 'Cats')).toEqual(['Funny cat.mp4']);
+    });
+
+    it('should repair cached topics that were deleted, renamed or closed', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        telegram.postVideo(source, {fileName: 'Dog park.mp4'});
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        const dogsTopic = telegram.getTopicId(group, 'Dogs')!;
+        telegram.deleteTopic(group, telegram.getTopicId(group, 'Cats')!);
+        telegram.editTopic(group, dogsTopic, {title: 'Doggos', closed: true});
+        telegram.postVideo(source, {fileName: 'Sleepy cat.mp4', duration: 300, sizeMB: 80});
+        telegram.postVideo(source, {fileName: 'Dog walk.mp4', duration: 300, sizeMB: 80});
+        writeConfig({reopenClosedTopics: true});
+
+        await runSorter();
+
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual(['Sleepy cat.mp4']);
+        expect(telegram.getTopicVideos(group, 'Doggos')).toEqual(['Dog park.mp4', 'Dog walk.mp4']);
+        expect(telegram.calls).toContain('editForumTopic');
+    });
+
+    it('should create topics with their icons and keep a pinned index up to date', async () => {
+        writeConfig({
+            topics: [
+                {title: 'Cats', keywords: ['cat'], iconColor: 0xFFD67E, iconEmojiId: '5312536423851630001', pinnedIndex: true},
+                {title: 'Dogs', keywords: ['dog']}
+            ]
+        });
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopic(group, 'Cats')).toMatchObject({iconColor: 0xFFD67E, iconEmojiId: '5312536423851630001'});
+        expect(telegram.getPinnedText(group, 'Cats')).toMatch(/^📂 Cats: 1 video\n\nLatest additions:\n• Funny cat\.mp4 \(2m 0s, /);
+        expect(telegram.getPinnedText(group, 'Dogs')).toBeUndefined();
+
+        telegram.postVideo(source, {fileName: 'Sleepy cat.mp4', duration: 300, sizeMB: 80});
+        await runSorter();
+
+        // The index message is edited in place, not posted again
+        expect(telegram.getPinnedText(group, 'Cats')).toContain('📂 Cats: 2 videos');
+        expect(telegram.calls.filter(call => call === 'sendMessage')).toHaveLength(1);
+    });
+
+    it('should close topics removed from the config and reopen them when added back', async () => {
+        await runSorter();
+        const group = telegram.findForumGroup('Sorted Videos')!;
+
+        writeConfig({topics: [{title: 'Cats', keywords: ['cat']}]});
+        await runSorter();
+        expect(telegram.getTopic(group, 'Dogs')?.closed).toBe(true);
+        expect(telegram.getTopic(group, 'Cats')?.closed).toBe(false);
+
+        writeConfig();
+        telegram.postVideo(source, {fileName: 'Dog park.mp4'});
+        await runSorter();
+        expect(telegram.getTopic(group, 'Dogs')?.closed).toBe(false);
+        expect(telegram.getTopicVideos(group, 'Dogs')).toEqual(['Dog park.mp4']);
+    });
+
+    it('should delete videos the forum group holds that are now excluded', async () => {
+        telegram.postVideo(source, {fileName: 'Cat trailer.mp4'});
+        writeConfig({videoExclusions: []});
+        await runSorter();
+
+        const group = telegram.findForumGroup('Sorted Videos')!;
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual(['Cat trailer.mp4']);
+
+        writeConfig();
+        await runSorter();
+
+        expect(telegram.getTopicVideos(group, 'Cats')).toEqual([]);
+    });
+
+    it('should sort videos posted while watch mode catches up on the history', async () => {
+        telegram.postVideo(source, {fileName: 'Funny cat.mp4'});
+        const getHistory = telegram.getHistory.bind(telegram);
+        let posted = false;
+        jest.spyOn(telegram, 'getHistory').mockImplementation(async (peer, options) => {
+            const messages = await getHistory(peer, options);
+            if (!posted && utils.getPeerId(peer) === utils.getPeerId(source)) {
+                posted = true;
+                telegram.postVideo(source, {fileName: 'Sleepy cat.mp4', duration: 300, sizeMB: 80});
+            }
+            return messages;
+        });
+
+        const accounts = new AccountPool([{name: 'main', sessionFile: 'main.session'}], 60, {}, () => telegram);
+        const run = new TelegramVideoSorter({watch: true}, accounts).run();
+
+        const topicVideos = () => {
+            const group = telegram.findForumGroup('Sorted Videos');
+            return group ? telegram.getTopicVideos(group, 'Cats') : [];
+        };
+        for (let i = 0; i < 1000 && topicVideos().length < 2; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        process.emit('SIGTERM');
+        await run;
+
+        expect(topicVideos().sort()).toEqual(['Funny cat.mp4', 'Sleepy cat.mp4']);
+    });
+
+    it('should record a watch run stopped by a signal as interrupted', async () => {
+        const accounts = new AccountPool([{name: 'main', sessionFile: 'main.session'}], 60, {}, () => telegram);
+        const run = new TelegramVideoSorter({watch: true}, accounts).run();
+
+        while (!telegram.calls.includes('onNewMessage')) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        process.emit('SIGTERM');
+        await run;
+
+        const storage = new MessageStorage(path.join(testDir, 'data', 'processed-messages.txt'));
+        expect(storage.getRuns(1)[0].status).toBe('interrupted');
+        storage.close();
+    });
+});
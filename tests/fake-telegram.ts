@@ -0,0 +1,404 @@
+import {Api, helpers, utils} from 'telegram';
+import type {EntityLike} from 'telegram/define';
+import type {TopicAppearance} from '../src/types/config';
+import type {
+    ForumTopicEdit,
+    ForumTopicInfo,
+    ForwardResult,
+    GatewayDialog,
+    HistoryOptions,
+    TelegramGateway
+} from '../src/services/telegram-gateway';
+
+export interface FakeVideo {
+    fileName: string;
+    duration?: number;      // Seconds (default: 120)
+    sizeMB?: number;        // Default: 50
+    caption?: string;
+}
+
+interface FakeTopic extends ForumTopicInfo {
+    iconColor?: number;
+    pinnedMessageId?: number;
+}
+
+interface FakeChannel {
+    entity: Api.Channel;
+    archived: boolean;
+    messages: Api.Message[];   // Oldest first
+    topics: Map<number, FakeTopic>;
+    nextMessageId: number;
+}
+
+type GatewayMethod = keyof TelegramGateway;
+
+/**
+ * In-memory Telegram for end-to-end tests: channels with video messages, one or more forum groups with
+ * topics, forwarding, deletions and injectable RPC errors like FLOOD_WAIT. Every gateway call is logged.
+ * Channel IDs are beyond Number precision, and channels are only found with their access hash.
+ */
+export class FakeTelegram implements TelegramGateway {
+    readonly calls: GatewayMethod[] = [];
+    private channels: Map<string, FakeChannel> = new Map();
+    private failures: { method: GatewayMethod; error: Error }[] = [];
+    private listeners: Set<{ sources: Set<string>; handler: (message: Api.Message) => void }> = new Set();
+    private nextChannelId = helpers.returnBigInt('9007199254740993');  // 2^53 + 1
+    private nextDocumentId = 1;
+    connected = false;
+
+    addChannel(
+        title: string,
+        options: { forum?: boolean; noforwards?: boolean; username?: string; archived?: boolean } = {}
+    ): Api.Channel {
+        const id = this.nextChannelId;
+        this.nextChannelId = id.add(1);
+        const entity = new Api.Channel({
+            id,
+            accessHash: id.multiply(7),
+            title,
+            photo: new Api.ChatPhotoEmpty(),
+            date: 0,
+            megagroup: options.forum,
+            forum: options.forum,
+            noforwards: options.noforwards,
+            username: options.username
+        });
+        this.channels.set(entity.id.toString(), {
+            entity,
+            archived: Boolean(options.archived),
+            messages: [],
+            topics: new Map(),
+            nextMessageId: 1
+        });
+        return entity;
+    }
+
+    postVideo(channel: Api.Channel, video: FakeVideo): Api.Message {
+        const document = new Api.Document({
+            id: helpers.returnBigInt(this.nextDocumentId++),
+            accessHash: helpers.returnBigInt(1),
+            fileReference: Buffer.alloc(0),
+            date: 0,
+            mimeType: 'video/mp4',
+            size: helpers.returnBigInt(Math.round((video.sizeMB ?? 50) * 1024 * 1024)),
+            dcId: 1,
+            attributes: [
+                new Api.DocumentAttributeVideo({duration: video.duration ?? 120, w: 1280, h: 720}),
+                new Api.DocumentAttributeFilename({fileName: video.fileName})
+            ]
+        });
+        const message = this.addMessage(this.getChannel(channel), document, video.caption ?? '');
+
+        const sourceKey = channel.id.toString();
+        for (const listener of this.listeners) {
+            if (listener.sources.has(sourceKey)) {
+                listener.handler(message);
+            }
+        }
+        return message;
+    }
+
+    addTopic(forumGroup: Api.Channel | Api.InputPeerChannel, title: string, appearance: TopicAppearance = {}): number {
+        const group = this.getChannel(forumGroup);
+        // The topic ID is the ID of the service message that opens the topic
+        const topicId = group.nextMessageId++;
+        group.topics.set(topicId, {id: topicId, title, closed: false, hidden: false, ...appearance});
+        return topicId;
+    }
+
+    /**
+     * Rename, close or hide a topic like a user would in Telegram.
+     */
+    editTopic(forumGroup: Api.InputPeerChannel, topicId: number, changes: Partial<Omit<ForumTopicInfo, 'id'>>): void {
+        Object.assign(this.getChannel(forumGroup).topics.get(topicId)!, changes);
+    }
+
+    deleteTopic(forumGroup: Api.InputPeerChannel, topicId: number): void {
+        const group = this.getChannel(forumGroup);
+        group.topics.delete(topicId);
+        group.messages = group.messages.filter(message => !this.isInTopic(message, topicId));
+    }
+
+    getTopic(forumGroup: Api.InputPeerChannel, topicTitle: string): FakeTopic | undefined {
+        return [...this.getChannel(forumGroup).topics.values()].find(topic => topic.title === topicTitle);
+    }
+
+    getTopicId(forumGroup: Api.InputPeerChannel, topicTitle: string): number | undefined {
+        return this.getTopic(forumGroup, topicTitle)?.id;
+    }
+
+    getPinnedText(forumGroup: Api.InputPeerChannel, topicTitle: string): string | undefined {
+        const pinnedId = this.getTopic(forumGroup, topicTitle)?.pinnedMessageId;
+        return this.getChannel(forumGroup).messages.find(message => message.id === pinnedId)?.message;
+    }
+
+    deleteVideo(channel: Api.Channel, messageId: number): void {
+        const fakeChannel = this.getChannel(channel);
+        fakeChannel.messages = fakeChannel.messages.filter(message => message.id !== messageId);
+    }
+
+    /**
+     * Make the next call of a method fail, e.g. with floodWait(seconds), before it touches any state.
+     */
+    failNext(method: GatewayMethod, error: Error, times: number = 1): void {
+        for (let i = 0; i < times; i++) {
+            this.failures.push({method, error});
+        }
+    }
+
+    floodWait(seconds: number): Error {
+        return Object.assign(new Error(`A wait of ${seconds} seconds is required`), {errorMessage: 'FLOOD', code: 420, seconds});
+    }
+
+    findForumGroup(title: string): Api.InputPeerChannel | undefined {
+        const channel = [...this.channels.values()].find(c => c.entity.forum && c.entity.title === title);
+        return channel && utils.getInputPeer(channel.entity) as Api.InputPeerChannel;
+    }
+
+    /**
+     * File names of the videos in a topic of a forum group, oldest first.
+     */
+    getTopicVideos(forumGroup: Api.InputPeerChannel, topicTitle: string): string[] {
+        const group = this.getChannel(forumGroup);
+        const topicId = this.getTopicId(forumGroup, topicTitle);
+        return group.messages
+            .filter(message => topicId !== undefined && this.isInTopic(message, topicId) && message.media)
+            .map(message => this.getFileName(message));
+    }
+
+    async connect(): Promise<void> {
+        this.call('connect');
+        this.connected = true;
+    }
+
+    async disconnect(): Promise<void> {
+        this.call('disconnect');
+        this.connected = false;
+    }
+
+    async getDialogs(): Promise<GatewayDialog[]> {
+        this.call('getDialogs');
+        return [...this.channels.values()].map(({entity, archived}) => ({
+            entity,
+            title: entity.title,
+            isGroup: Boolean(entity.megagroup),
+            isChannel: true,
+            archived
+        }));
+    }
+
+    async resolvePeer(peerId: string): Promise<Api.TypeInputPeer> {
+        this.call('resolvePeer');
+        const channel = this.channels.get(utils.resolveId(helpers.returnBigInt(peerId))[0].toString());
+        if (!channel) {
+            throw new Error(`Could not find the input entity for ${peerId}`);
+        }
+        return utils.getInputPeer(channel.entity);
+    }
+
+    async getHistory(peer: EntityLike, options: HistoryOptions): Promise<Api.TypeMessage[]> {
+        this.call('getHistory');
+        return this.page(this.getChannel(peer).messages, options);
+    }
+
+    async getReplies(group: Api.InputPeerChannel, topicId: number, options: HistoryOptions): Promise<Api.TypeMessage[]> {
+        this.call('getReplies');
+        const messages = this.getChannel(group).messages.filter(message => this.isInTopic(message, topicId));
+        return this.page(messages, options);
+    }
+
+    async getMessages(peer: EntityLike, ids: number[]): Promise<(Api.Message | undefined)[]> {
+        this.call('getMessages');
+        const channel = this.getChannel(peer);
+        return ids.map(id => channel.messages.find(message => message.id === id));
+    }
+
+    async getFileHashes(): Promise<Api.FileHash[]> {
+        this.call('getFileHashes');
+        return [];
+    }
+
+    async downloadThumbnail(): Promise<Buffer | undefined> {
+        this.call('downloadThumbnail');
+        return undefined;
+    }
+
+    async forwardMessages(fromPeer: EntityLike, messageIds: number[], forumGroup: Api.InputPeerChannel, topicId: number): Promise<ForwardResult> {
+        this.call('forwardMessages');
+        const source = this.getChannel(fromPeer);
+        const group = this.getChannel(forumGroup);
+        if (source.entity.noforwards) {
+            throw this.rpcError('CHAT_FORWARDS_RESTRICTED', 400);
+        }
+        this.checkTopic(group, topicId);
+
+        // Like Telegram, leave out messages that no longer exist and only fail if none is left
+        const originals = messageIds.map(id => source.messages.find(message => message.id === id));
+        if (originals.every(original => !original)) {
+            throw this.rpcError('MESSAGE_ID_INVALID', 400);
+        }
+        return originals.map(original => original && this.addMessage(
+            group,
+            (original.media as Api.MessageMediaDocument).document as Api.Document,
+            original.message,
+            topicId
+        ).id);
+    }
+
+    async sendDocument(forumGroup: Api.InputPeerChannel, topicId: number, document: Api.Document, caption: string): Promise<number | undefined> {
+        this.call('sendDocument');
+        const group = this.getChannel(forumGroup);
+        this.checkTopic(group, topicId);
+        return this.addMessage(group, document, caption, topicId).id;
+    }
+
+    async deleteMessages(forumGroup: Api.InputPeerChannel, messageIds: number[]): Promise<void> {
+        this.call('deleteMessages');
+        const group = this.getChannel(forumGroup);
+        group.messages = group.messages.filter(message => !messageIds.includes(message.id));
+    }
+
+    async checkChannelAccess(forumGroup: Api.InputPeerChannel): Promise<void> {
+        this.call('checkChannelAccess');
+        this.getChannel(forumGroup);
+    }
+
+    async createForumGroup(title: string): Promise<Api.InputPeerChannel> {
+        this.call('createForumGroup');
+        return utils.getInputPeer(this.addChannel(title, {forum: true})) as Api.InputPeerChannel;
+    }
+
+    async getForumTopics(forumGroup: Api.InputPeerChannel): Promise<ForumTopicInfo[]> {
+        this.call('getForumTopics');
+        return [...this.getChannel(forumGroup).topics.values()].map(({id, title, closed, hidden, iconEmojiId}) =>
+            ({id, title, closed, hidden, iconEmojiId}));
+    }
+
+    async createForumTopic(forumGroup: Api.InputPeerChannel, title: string, appearance?: TopicAppearance): Promise<number> {
+        this.call('createForumTopic');
+        return this.addTopic(forumGroup, title, appearance);
+    }
+
+    async editForumTopic(forumGroup: Api.InputPeerChannel, topicId: number, changes: ForumTopicEdit): Promise<void> {
+        this.call('editForumTopic');
+        const topic = this.checkTopic(this.getChannel(forumGroup), topicId, true);
+        if (changes.closed !== undefined && changes.closed === topic.closed) {
+            throw this.rpcError('TOPIC_NOT_MODIFIED', 400);
+        }
+        Object.assign(topic, changes);
+    }
+
+    async sendMessage(forumGroup: Api.InputPeerChannel, topicId: number, text: string): Promise<number | undefined> {
+        this.call('sendMessage');
+        const group = this.getChannel(forumGroup);
+        this.checkTopic(group, topicId);
+        return this.addMessage(group, undefined, text, topicId).id;
+    }
+
+    async editMessage(forumGroup: Api.InputPeerChannel, messageId: number, text: string): Promise<void> {
+        this.call('editMessage');
+        const message = this.getChannel(forumGroup).messages.find(m => m.id === messageId);
+        if (!message) {
+            throw this.rpcError('MESSAGE_ID_INVALID', 400);
+        }
+        if (message.message === text) {
+            throw this.rpcError('MESSAGE_NOT_MODIFIED', 400);
+        }
+        message.message = text;
+    }
+
+    async pinMessage(forumGroup: Api.InputPeerChannel, messageId: number): Promise<void> {
+        this.call('pinMessage');
+        const group = this.getChannel(forumGroup);
+        const message = group.messages.find(m => m.id === messageId);
+        const topicId = message?.replyTo instanceof Api.MessageReplyHeader ? message.replyTo.replyToTopId : undefined;
+        if (!message || topicId === undefined) {
+            throw this.rpcError('MESSAGE_ID_INVALID', 400);
+        }
+        group.topics.get(topicId)!.pinnedMessageId = messageId;
+    }
+
+    onNewMessage(sources: EntityLike[], handler: (message: Api.Message) => void): () => void {
+        this.call('onNewMessage');
+        const listener = {sources: new Set(sources.map(source => this.getChannel(source).entity.id.toString())), handler};
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private call(method: GatewayMethod): void {
+        this.calls.push(method);
+        const index = this.failures.findIndex(failure => failure.method === method);
+        if (index !== -1) {
+            const [{error}] = this.failures.splice(index, 1);
+            throw error;
+        }
+    }
+
+    /**
+     * Like Telegram, only accept channels with their access hash: entities or input peers, not bare IDs.
+     */
+    private getChannel(peer: EntityLike): FakeChannel {
+        const channel = peer instanceof Api.Channel || peer instanceof Api.InputPeerChannel
+            ? this.channels.get((peer instanceof Api.Channel ? peer.id : peer.channelId).toString())
+            : undefined;
+        if (!channel || !channel.entity.accessHash!.equals((peer as Api.Channel | Api.InputPeerChannel).accessHash!)) {
+            throw this.rpcError('CHANNEL_INVALID', 400);
+        }
+        return channel;
+    }
+
+    /**
+     * Like Telegram for an account that is no admin: deleted and closed topics take no messages.
+     */
+    private checkTopic(group: FakeChannel, topicId: number, allowClosed: boolean = false): FakeTopic {
+        const topic = group.topics.get(topicId);
+        if (!topic) {
+            throw this.rpcError('TOPIC_DELETED', 400);
+        }
+        if (topic.closed && !allowClosed) {
+            throw this.rpcError('TOPIC_CLOSED', 400);
+        }
+        return topic;
+    }
+
+    private addMessage(channel: FakeChannel, document: Api.Document | undefined, text: string, topicId?: number): Api.Message {
+        const message = new Api.Message({
+            id: channel.nextMessageId++,
+            peerId: new Api.PeerChannel({channelId: channel.entity.id}),
+            date: Math.floor(Date.now() / 1000),
+            message: text,
+            media: document && new Api.MessageMediaDocument({document, video: true}),
+            replyTo: topicId === undefined ? undefined : new Api.MessageReplyHeader({
+                forumTopic: true,
+                replyToMsgId: topicId,
+                replyToTopId: topicId
+            })
+        });
+        channel.messages.push(message);
+        return message;
+    }
+
+    private isInTopic(message: Api.Message, topicId: number): boolean {
+        return message.replyTo instanceof Api.MessageReplyHeader && message.replyTo.replyToTopId === topicId;
+    }
+
+    private getFileName(message: Api.Message): string {
+        const document = (message.media as Api.MessageMediaDocument).document as Api.Document;
+        const attribute = document.attributes.find(a => a instanceof Api.DocumentAttributeFilename);
+        return (attribute as Api.DocumentAttributeFilename).fileName;
+    }
+
+    /**
+     * Newest first, older than offsetId and newer than minId, like GetHistory and GetReplies.
+     */
+    private page(messages: Api.Message[], options: HistoryOptions): Api.Message[] {
+        return messages
+            .filter(message => (options.offsetId === 0 || message.id < options.offsetId) && message.id > (options.minId ?? 0))
+            .reverse()
+            .slice(0, options.limit);
+    }
+
+    private rpcError(errorMessage: string, code: number): Error {
+        return Object.assign(new Error(errorMessage), {errorMessage, code});
+    }
+}
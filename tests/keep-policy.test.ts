@@ -0,0 +1,23 @@
+import {pickVideoToKeep} from '../src/utils/keep-policy';
+
+describe('Keep Policy', () => {
+    const hd = {name: 'hd', order: 1, width: 1920, height: 1080, sizeMB: 900, duration: 600};
+    const sd = {name: 'sd', order: 2, width: 854, height: 480, sizeMB: 1200, duration: 610};
+    const unknown = {name: 'unknown', order: 3};
+
+    it('should keep the copy with the best metric', () => {
+        expect(pickVideoToKeep([sd, hd], 'highest-resolution').name).toBe('hd');
+        expect(pickVideoToKeep([hd, sd], 'largest').name).toBe('sd');
+        expect(pickVideoToKeep([hd, sd], 'longest').name).toBe('sd');
+    });
+
+    it('should keep by age', () => {
+        expect(pickVideoToKeep([sd, hd, unknown], 'oldest').name).toBe('hd');
+        expect(pickVideoToKeep([sd, hd, unknown], 'newest').name).toBe('unknown');
+    });
+
+    it('should keep the older copy when the metric is unknown or equal', () => {
+        expect(pickVideoToKeep([unknown, hd], 'highest-resolution').name).toBe('hd');
+        expect(pickVideoToKeep([hd, {...hd, name: 'copy', order: 5}], 'largest').name).toBe('hd');
+    });
+});
@@ -0,0 +1,171 @@
+import {compileMatchRule, MatchRuleError} from '../src/utils/match-rules';
+import {matchesVideo, shouldExcludeVideo} from '../src/utils/video-matching';
+import {routeVideo, type TopicRoute} from '../src/utils/topic-routing';
+
+describe('Match Rules', () => {
+    describe('compileMatchRule', () => {
+        it('should treat plain strings as case-insensitive keywords', () => {
+            const rule = compileMatchRule('Cat');
+
+            expect(rule.kind).toBe('keyword');
+            expect(rule.test('my CAT video')).toBe(true);
+            expect(rule.test('education')).toBe(true);
+            expect(rule.test('dog video')).toBe(false);
+        });
+
+        it('should compile regex literals with flags', () => {
+            const rule = compileMatchRule('re:/\\bcat\\b/i');
+
+            expect(rule.kind).toBe('regex');
+            expect(rule.test('My Cat video')).toBe(true);
+            expect(rule.test('education')).toBe(false);
+        });
+
+        it('should ignore global flags so repeated tests are stable', () => {
+            const rule = compileMatchRule('re:/cat/g');
+
+            expect(rule.test('cat')).toBe(true);
+            expect(rule.test('cat')).toBe(true);
+        });
+
+        it('should evaluate AND / NOT expressions', () => {
+            const rule = compileMatchRule('expr:cat AND NOT food');
+
+            expect(rule.kind).toBe('expression');
+            expect(rule.test('cat video')).toBe(true);
+            expect(rule.test('cat food review')).toBe(false);
+        });
+
+        it('should respect precedence and parentheses', () => {
+            const withoutParens = compileMatchRule('expr:cat OR dog AND puppy');
+            const withParens = compileMatchRule('expr:(cat OR dog) AND puppy');
+
+            expect(withoutParens.test('cat')).toBe(true);
+            expect(withParens.test('cat')).toBe(false);
+            expect(withParens.test('dog and puppy')).toBe(true);
+        });
+
+        it('should support quoted phrases and multi-word terms', () => {
+            const quoted = compileMatchRule('expr:"cat food" OR kitten');
+            const bare = compileMatchRule('expr:cat video AND NOT preview');
+
+            expect(quoted.test('best CAT FOOD ever')).toBe(true);
+            expect(quoted.test('cat and food')).toBe(false);
+            expect(bare.test('cat video full')).toBe(true);
+            expect(bare.test('cat video preview')).toBe(false);
+            expect(bare.test('video of a cat')).toBe(false);
+        });
+
+        it('should allow regexes inside expressions', () => {
+            const rule = compileMatchRule('expr:/\\bcat\\b/i AND NOT "cat food"');
+
+            expect(rule.test('Cat compilation')).toBe(true);
+            expect(rule.test('cat food')).toBe(false);
+            expect(rule.test('education')).toBe(false);
+        });
+
+        it('should keep legacy keywords with slashes, quotes, parentheses or operators as keywords', () => {
+            const legacy = ['cat (2020)', '"best of"', 'TOM AND JERRY', '/r/videos/', 're:zero'];
+            const rules = legacy.map(compileMatchRule);
+
+            expect(rules.map(rule => rule.kind)).toEqual(['keyword', 'keyword', 'keyword', 'keyword', 'keyword']);
+            expect(rules[0].test('My Cat (2020) remastered')).toBe(true);
+            expect(rules[0].test('cat 2020')).toBe(false);
+            expect(rules[1].test('the "Best Of" collection')).toBe(true);
+            expect(rules[1].test('best of')).toBe(false);
+            expect(rules[2].test('Tom and Jerry episode 1')).toBe(true);
+            expect(rules[2].test('Tom episode')).toBe(false);
+            expect(rules[3].test('from /r/videos/ today')).toBe(true);
+            expect(rules[4].test('Re:Zero opening')).toBe(true);
+        });
+
+        it('should reject invalid rules with a descriptive error', () => {
+            expect(() => compileMatchRule('re:/[cat/')).toThrow(MatchRuleError);
+            expect(() => compileMatchRule('expr:cat AND')).toThrow(/expected a keyword but found end of expression/);
+            expect(() => compileMatchRule('expr:(cat OR dog')).toThrow(/expected "\)"/);
+            expect(() => compileMatchRule('expr:"cat food')).toThrow(/unterminated quote/);
+            expect(() => compileMatchRule('expr:cat )')).toThrow(/unexpected "\)"/);
+        });
+    });
+
+    describe('video matching with compiled rules', () => {
+        const message = (fileName: string, text = '') => ({
+            media: {
+                video: true,
+                document: {
+                    attributes: [
+                        {className: 'DocumentAttributeVideo', duration: 100},
+                        {className: 'DocumentAttributeFilename', fileName}
+                    ]
+                }
+            },
+            message: text,
+            id: 1
+        });
+
+        it('should return the source of every matching rule', () => {
+            const rules = ['re:/\\bcat\\b/i', 'expr:kitten OR feline', 'dog'].map(compileMatchRule);
+
+            expect(matchesVideo(message('Cat_and_kitten.mp4', 'a cat'), rules, [], 60))
+                .toEqual(['re:/\\bcat\\b/i', 'expr:kitten OR feline']);
+        });
+
+        it('should apply compiled exclusion rules', () => {
+            const exclusions = [compileMatchRule('expr:preview AND NOT full')];
+
+            expect(shouldExcludeVideo('preview clip', 'video.mp4', exclusions)).toBe(true);
+            expect(shouldExcludeVideo('preview of the full video', 'video.mp4', exclusions)).toBe(false);
+            expect(matchesVideo(message('cat_preview.mp4'), ['cat'], exclusions, 60)).toEqual([]);
+        });
+    });
+
+    describe('routeVideo', () => {
+        const message = (fileName: string, duration = 100) => ({
+            media: {
+                video: true,
+                document: {
+                    attributes: [
+                        {className: 'DocumentAttributeVideo', duration},
+                        {className: 'DocumentAttributeFilename', fileName}
+                    ]
+                }
+            },
+            message: '',
+            id: 1
+        });
+
+        const cats: TopicRoute = {
+            title: 'Cats',
+            matchRules: ['cat', 'kitten', 'feline'].map(compileMatchRule),
+            exclusionRules: [compileMatchRule('cartoon')],
+            minVideoDurationInSeconds: 60
+        };
+        const dogs: TopicRoute = {
+            title: 'Dogs',
+            matchRules: ['dog', 'puppy'].map(compileMatchRule),
+            exclusionRules: [],
+            minVideoDurationInSeconds: 300
+        };
+
+        it('should route all aliases to a single topic', () => {
+            const matches = routeVideo(message('kitten_and_cat.mp4'), [cats, dogs], []);
+
+            expect(matches.map(m => m.route.title)).toEqual(['Cats']);
+            expect(matches[0].keywords).toEqual(['cat', 'kitten']);
+        });
+
+        it('should apply topic exclusions and limits only to their own topic', () => {
+            const titles = (fileName: string, duration?: number) =>
+                routeVideo(message(fileName, duration), [cats, dogs], []).map(m => m.route.title);
+
+            expect(titles('cat_cartoon_with_dog.mp4', 400)).toEqual(['Dogs']);
+            expect(titles('cat_and_dog.mp4', 100)).toEqual(['Cats']);
+        });
+
+        it('should apply global exclusions to every topic', () => {
+            const matches = routeVideo(message('cat_and_dog_preview.mp4', 400), [cats, dogs], [compileMatchRule('preview')]);
+
+            expect(matches).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {Api, helpers} from 'telegram';
+import {AccountPool} from '../src/services/account-pool';
+import {MessageForwarder} from '../src/services/message-forwarder';
+import {MessageStorage} from '../src/services/storage';
+import {TelegramClientFactory} from '../src/services/telegram-client';
+import type {ForwardItem} from '../src/services/video-processor';
+
+describe('MessageForwarder', () => {
+    const testDir = path.join(__dirname, 'test-data');
+    const testDbPath = path.join(testDir, 'forwarder-processed.txt');
+    const source = new Api.InputPeerChannel({channelId: helpers.returnBigInt(1234567890), accessHash: helpers.returnBigInt(11)});
+    const forumGroup = new Api.InputPeerChannel({channelId: helpers.returnBigInt(9876543210), accessHash: helpers.returnBigInt(22)});
+    let storage: MessageStorage;
+    let invoke: jest.Mock;
+    let forwarder: MessageForwarder;
+
+    beforeEach(() => {
+        fs.mkdirSync(testDir, {recursive: true});
+        fs.rmSync(testDbPath.replace('.txt', '.db'), {force: true});
+
+        invoke = jest.fn();
+        jest.spyOn(TelegramClientFactory, 'createClient').mockImplementation(() => ({invoke}) as any);
+        const accounts = new AccountPool([{name: 'main', sessionFile: 'main.session'}], 60);
+
+        storage = new MessageStorage(testDbPath);
+        forwarder = new MessageForwarder(accounts, storage, {maxForwards: 50, dryRun: false} as any);
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        storage.close();
+        fs.rmSync(testDbPath.replace('.txt', '.db'), {force: true});
+    });
+
+    const item = (messageId: number): ForwardItem => ({
+        messageId, fileName: `Video ${messageId}.mp4`, duration: 60, sizeMB: 10, normalizedName: `video ${messageId}`
+    });
+
+    // Forward all requested messages except the skipped ones, like Telegram does for deleted messages
+    const forwardResponse = (request: Api.messages.ForwardMessages, skipped: number[] = []) => new Api.Updates({
+        updates: request.id.flatMap((id, i) => skipped.includes(id) ? [] : [
+            new Api.UpdateMessageID({id: 1000 + id, randomId: request.randomId[i]})
+        ]),
+        users: [],
+        chats: [],
+        date: 0,
+        seq: 0
+    });
+
+    it('should forward messages of a topic in one call and map the new message IDs back', async () => {
+        invoke.mockImplementation(async (request: Api.messages.ForwardMessages) => forwardResponse(request, [2]));
+
+        const results = await forwarder.forwardMessages(source, forumGroup, 5, 'Cats', [item(1), item(2), item(3)]);
+
+        expect(results).toEqual([true, false, true]);
+        expect(invoke).toHaveBeenCalledTimes(1);
+        expect(storage.getRecentForwards().map(f => [f.sourceMessageId, f.forwardedMessageId]).sort()).toEqual([
+            [1, 1001],
+            [3, 1003]
+        ]);
+        expect(storage.getFailedForwards().map(f => [f.messageId, f.errorClass])).toEqual([[2, 'ForwardSkippedError']]);
+    });
+
+    it('should forward one by one when a message fails the whole batch', async () => {
+        invoke.mockImplementation(async (request: Api.messages.ForwardMessages) => {
+            if (request.id.includes(2)) {
+                throw Object.assign(new Error('MESSAGE_ID_INVALID'), {errorMessage: 'MESSAGE_ID_INVALID', code: 400});
+            }
+            return forwardResponse(request);
+        });
+
+        const results = await forwarder.forwardMessages(source, forumGroup, 5, 'Cats', [item(1), item(2), item(3)]);
+
+        expect(results).toEqual([true, false, true]);
+        expect(invoke).toHaveBeenCalledTimes(4);
+        expect(storage.getFailedForwards().map(f => [f.messageId, f.errorClass, f.queueStatus])).toEqual([[2, 'MESSAGE_ID_INVALID', 'dead']]);
+    });
+
+    it('should split batches at 100 messages', async () => {
+        invoke.mockImplementation(async (request: Api.messages.ForwardMessages) => forwardResponse(request));
+
+        const items = Array.from({length: 150}, (_, i) => item(i + 1));
+        const results = await forwarder.forwardMessages(source, forumGroup, 5, 'Cats', items);
+
+        expect(results.every(Boolean)).toBe(true);
+        expect(invoke.mock.calls.map(([request]) => request.id.length)).toEqual([100, 50]);
+    });
+});
@@ -0,0 +1,55 @@
+import {Api, helpers} from 'telegram';
+import {matchesSourceGroup, parseSourceGroup, toInputPeer, toStoredPeer} from '../src/utils/peers';
+
+describe('Peers', () => {
+    const channel = new Api.Channel({
+        id: helpers.returnBigInt('9007199254740993'),
+        accessHash: helpers.returnBigInt('-8446744073709551615'),
+        title: 'Pets',
+        photo: new Api.ChatPhotoEmpty(),
+        date: 0,
+        username: 'PetVideos'
+    });
+
+    describe('parseSourceGroup', () => {
+        it('should accept IDs in every form without losing digits', () => {
+            expect(parseSourceGroup('-1009007199254740993')).toEqual({type: 'id', id: '9007199254740993'});
+            expect(parseSourceGroup('-9007199254740993')).toEqual({type: 'id', id: '9007199254740993'});
+            expect(parseSourceGroup(-1001234567890)).toEqual({type: 'id', id: '1234567890'});
+            expect(parseSourceGroup(1234567890)).toEqual({type: 'id', id: '1234567890'});
+        });
+
+        it('should accept usernames and t.me links', () => {
+            expect(parseSourceGroup('@PetVideos')).toEqual({type: 'username', username: 'petvideos'});
+            expect(parseSourceGroup('PetVideos')).toEqual({type: 'username', username: 'petvideos'});
+            expect(parseSourceGroup('https://t.me/PetVideos/42')).toEqual({type: 'username', username: 'petvideos'});
+            expect(parseSourceGroup('t.me/c/9007199254740993/42')).toEqual({type: 'id', id: '9007199254740993'});
+        });
+
+        it('should reject invite links and other text', () => {
+            expect(parseSourceGroup('https://t.me/+AbCdEf123')).toBeNull();
+            expect(parseSourceGroup('my pets')).toBeNull();
+            expect(parseSourceGroup('')).toBeNull();
+        });
+    });
+
+    describe('matchesSourceGroup', () => {
+        it('should match channels by ID or username', () => {
+            expect(matchesSourceGroup(parseSourceGroup('-1009007199254740993')!, channel)).toBe(true);
+            expect(matchesSourceGroup(parseSourceGroup('-1009007199254740992')!, channel)).toBe(false);
+            expect(matchesSourceGroup(parseSourceGroup('@petvideos')!, channel)).toBe(true);
+            expect(matchesSourceGroup(parseSourceGroup('@otherpets')!, channel)).toBe(false);
+        });
+    });
+
+    describe('toStoredPeer', () => {
+        it('should keep IDs and access hashes beyond Number precision', () => {
+            const stored = toStoredPeer(channel);
+            expect(stored).toEqual({id: '9007199254740993', accessHash: '-8446744073709551615'});
+
+            const peer = toInputPeer(JSON.parse(JSON.stringify(stored)));
+            expect(peer.channelId.toString()).toBe('9007199254740993');
+            expect(peer.accessHash.toString()).toBe('-8446744073709551615');
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import {decodeJpegLuma, JpegDecodeError} from '../src/utils/jpeg-luma';
+import {differenceHash, hammingDistance, thumbnailHash} from '../src/utils/perceptual-hash';
+
+// Baseline JPEGs with flat 8x8 blocks: a 64x32 grayscale gradient (block value x*30 + y*10),
+// and a 48x32 YCbCr 4:2:0 image with restart markers every 2 MCUs
+const GRAYSCALE_GRADIENT = '/9j/2wBDAAIBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAALCAAgAEABAREA/8QAHwAAAQUBAQEBAQEAAAAAAAAAAAECAwQFBgcICQoL/8QAtRAAAgEDAwIEAwUFBAQAAAF9AQIDAAQRBRIhMUEGE1FhByJxFDKBkaEII0KxwRVS0fAkM2JyggkKFhcYGRolJicoKSo0NTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqDhIWGh4iJipKTlJWWl5iZmqKjpKWmp6ipqrKztLW2t7i5usLDxMXGx8jJytLT1NXW19jZ2uHi4+Tl5ufo6erx8vP09fb3+Pn6/9oACAEBAAA/AP5/3r3h694eveHr3h694eveHr3h6/jfeveHr3h694eveHr3h694eveHr+N9694eveHr3h694eveHr3h694ev433r3h694eveHr3h694eveHr3h6/9k=';
+const COLOR_WITH_RESTARTS = '/9j/2wBDAAQBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAARCAAgADADASIAAhEAAxEA/8QAHwAAAQUBAQEBAQEAAAAAAAAAAAECAwQFBgcICQoL/8QAtRAAAgEDAwIEAwUFBAQAAAF9AQIDAAQRBRIhMUEGE1FhByJxFDKBkaEII0KxwRVS0fAkM2JyggkKFhcYGRolJicoKSo0NTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqDhIWGh4iJipKTlJWWl5iZmqKjpKWmp6ipqrKztLW2t7i5usLDxMXGx8jJytLT1NXW19jZ2uHi4+Tl5ufo6erx8vP09fb3+Pn6/90ABAAC/9oADAMBAAIAAwAAPwD6QeuNeuyeuNeiiuNeuNeuyeuNeiiv/9Dh3rjXrsnrjXoorzl66h65d66h6KK//9Hx966h65d66h6KK6h66h65d66h6KK//9k=';
+
+describe('Perceptual Hash', () => {
+    describe('decodeJpegLuma', () => {
+        it('should decode block averages of a grayscale JPEG', () => {
+            const image = decodeJpegLuma(Buffer.from(GRAYSCALE_GRADIENT, 'base64'));
+
+            expect([image.width, image.height]).toEqual([8, 4]);
+            expect(Array.from(image.data.subarray(0, 8))).toEqual([0, 30, 60, 90, 120, 150, 180, 210]);
+            expect(image.data[3 * 8 + 7]).toBe(240);
+        });
+
+        it('should decode the luma plane of subsampled JPEGs with restart intervals', () => {
+            const image = decodeJpegLuma(Buffer.from(COLOR_WITH_RESTARTS, 'base64'));
+
+            expect([image.width, image.height]).toEqual([6, 4]);
+            expect(Array.from(image.data.subarray(0, 6))).toEqual([200, 175, 150, 125, 100, 75]);
+            expect(Array.from(image.data.subarray(18, 24))).toEqual([40, 60, 80, 100, 120, 140]);
+        });
+
+        it('should reject data that is not a baseline JPEG', () => {
+            expect(() => decodeJpegLuma(Buffer.from('not a jpeg'))).toThrow(JpegDecodeError);
+
+            const progressive = Buffer.from(GRAYSCALE_GRADIENT, 'base64');
+            progressive[progressive.indexOf(Buffer.from([0xFF, 0xC0])) + 1] = 0xC2;
+            expect(() => decodeJpegLuma(progressive)).toThrow(/only baseline JPEGs/);
+        });
+    });
+
+    describe('differenceHash', () => {
+        const gradient = (width: number, height: number, brightness = 0) => ({
+            width,
+            height,
+            data: Uint8Array.from({length: width * height}, (_, i) => Math.min(255, (i % width) * 4 + brightness))
+        });
+
+        it('should produce a 64-bit hex hash', () => {
+            expect(differenceHash(gradient(36, 32))).toBe('ffffffffffffffff');
+            expect(thumbnailHash(Buffer.from(GRAYSCALE_GRADIENT, 'base64'))).toMatch(/^[0-9a-f]{16}$/);
+        });
+
+        it('should be stable across rescaling and brightness changes', () => {
+            const original = differenceHash(gradient(36, 32));
+
+            expect(hammingDistance(original, differenceHash(gradient(72, 20, 10)))).toBe(0);
+        });
+
+        it('should tell different images apart', () => {
+            const reversed = {...gradient(36, 32), data: gradient(36, 32).data.reverse()};
+
+            expect(hammingDistance(differenceHash(gradient(36, 32)), differenceHash(reversed))).toBe(64);
+        });
+    });
+
+    describe('hammingDistance', () => {
+        it('should count differing bits', () => {
+            expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+            expect(hammingDistance('000000000000000f', '0000000000000001')).toBe(3);
+            expect(hammingDistance('8000000000000000', '0000000000000001')).toBe(2);
+        });
+    });
+});
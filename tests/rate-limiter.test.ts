@@ -0,0 +1,105 @@
+import {Api} from 'telegram';
+import {classifyRequest, RateLimiter, type RateLimiterClock} from '../src/services/rate-limiter';
+
+describe('RateLimiter', () => {
+    let now: number;
+    let sleeps: number[];
+    let clock: RateLimiterClock;
+
+    beforeEach(() => {
+        now = 0;
+        sleeps = [];
+        clock = {
+            now: () => now,
+            sleep: async (ms: number) => {
+                sleeps.push(ms);
+                now += ms;
+            }
+        };
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const floodWait = (seconds: number) => Object.assign(new Error('FLOOD'), {errorMessage: 'FLOOD', code: 420, seconds});
+
+    it('should classify requests by method', () => {
+        expect(classifyRequest(new Api.messages.GetReplies({}))).toBe('history');
+        expect(classifyRequest(new Api.messages.ForwardMessages({id: [1], randomId: []}))).toBe('forward');
+        expect(classifyRequest(new Api.channels.DeleteMessages({id: [1]}))).toBe('delete');
+        expect(classifyRequest(new Api.help.GetConfig())).toBe('other');
+    });
+
+    it('should pace requests once the burst is used up', async () => {
+        // 12 per minute: a burst of one, then one request every 5 seconds
+        const limiter = new RateLimiter({historyPerMinute: 12}, 60, clock);
+
+        for (let i = 0; i < 3; i++) {
+            await limiter.schedule('history', async () => true);
+        }
+
+        expect(sleeps).toEqual([5000, 5000]);
+    });
+
+    it('should retry short FLOOD_WAITs after exactly the requested time and slow down', async () => {
+        const limiter = new RateLimiter({}, 60, clock);
+        const send = jest.fn()
+            .mockRejectedValueOnce(floodWait(10))
+            .mockResolvedValueOnce('ok');
+
+        await expect(limiter.schedule('forward', send)).resolves.toBe('ok');
+
+        expect(sleeps).toEqual([10_000]);
+        expect(limiter.getSlowdown('forward')).toBe(2);
+        expect(limiter.getSlowdown('history')).toBe(1);
+    });
+
+    it('should throw long FLOOD_WAITs but hold back the next request until they end', async () => {
+        const limiter = new RateLimiter({}, 60, clock);
+
+        await expect(limiter.schedule('forward', () => Promise.reject(floodWait(300)))).rejects.toMatchObject({seconds: 300});
+        await limiter.schedule('forward', async () => true);
+
+        expect(now).toBe(300_000);
+    });
+
+    it('should recover its pace a minute after the last FLOOD_WAIT', async () => {
+        const limiter = new RateLimiter({}, 60, clock);
+        const send = jest.fn()
+            .mockRejectedValueOnce(floodWait(1))
+            .mockRejectedValueOnce(floodWait(1))
+            .mockResolvedValue('ok');
+        await limiter.schedule('delete', send);
+        expect(limiter.getSlowdown('delete')).toBe(4);
+
+        now += 60_000;
+        expect(limiter.getSlowdown('delete')).toBe(2);
+        now += 60_000;
+        expect(limiter.getSlowdown('delete')).toBe(1);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+        const limiter = new RateLimiter({maxRetries: 1}, 60, clock);
+        const send = jest.fn().mockRejectedValue(floodWait(1));
+
+        await expect(limiter.schedule('other', send)).rejects.toMatchObject({code: 420});
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should route the invokes of an attached client through the limiter', async () => {
+        const limiter = new RateLimiter({}, 60, clock);
+        const invoke = jest.fn()
+            .mockRejectedValueOnce(floodWait(10))
+            .mockResolvedValueOnce('ok');
+        const client = limiter.attach({invoke} as any);
+        const request = new Api.messages.GetHistory({});
+
+        await expect(client.invoke(request, 2)).resolves.toBe('ok');
+
+        expect(invoke).toHaveBeenCalledTimes(2);
+        expect(invoke).toHaveBeenLastCalledWith(request, 2);
+        expect(limiter.getSlowdown('history')).toBe(2);
+    });
+});
@@ -1,6 +1,14 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import Database from 'better-sqlite3';
 import {MessageStorage} from '../src/services/storage';
+import {
+    getSchemaVersion,
+    LATEST_SCHEMA_VERSION,
+    migrateSchema,
+    type SchemaMigration,
+    SchemaVersionError
+} from '../src/services/schema-migrations';
 
 describe('MessageStorage with SQLite', () => {
     const testDir = path.join(__dirname, 'test-data');
@@ -21,7 +29,8 @@ describe('MessageStorage with SQLite', () => {
             testDbPath.replace('.txt', '-metadata.json'),
             testDbPath + '.backup',
             testDbPath.replace('.txt', '-videos.txt.backup'),
-            testDbPath.replace('.txt', '-metadata.json.backup')
+            testDbPath.replace('.txt', '-metadata.json.backup'),
+            testDbPath.replace('.txt', '.db.unversioned.backup')
         ];
 
         files.forEach(file => {
@@ -44,7 +53,8 @@ describe('MessageStorage with SQLite', () => {
             testDbPath.replace('.txt', '-metadata.json'),
             testDbPath + '.backup',
             testDbPath.replace('.txt', '-videos.txt.backup'),
-            testDbPath.replace('.txt', '-metadata.json.backup')
+            testDbPath.replace('.txt', '-metadata.json.backup'),
+            testDbPath.replace('.txt', '.db.unversioned.backup')
         ];
 
         files.forEach(file => {
@@ -293,6 +303,185 @@ describe('MessageStorage with SQLite', () => {
             expect(similar).not.toBeNull();
             expect(similar?.topicName).toBe('*');
         });
+
+        it('should detect an identical document under a different name', () => {
+            storage.saveProcessedVideoName('holiday.mp4', 'topic1', 100, 45, 'holiday', {documentId: '5012345'});
+
+            const similar = storage.findSimilarVideoInTopic(
+                'renamed_upload.mp4',
+                'renamedupload',
+                'topic1',
+                100,
+                45,
+                {checkDuration: true, checkFileSize: true},
+                {documentId: '5012345'}
+            );
+
+            expect(similar).toMatchObject({fileName: 'holiday.mp4', matchedBy: 'document'});
+            expect(storage.findSimilarVideoInTopic('renamed_upload.mp4', 'renamedupload', 'topic2', 100, 45, {}, {documentId: '5012345'})).toBeNull();
+        });
+
+        it('should detect identical file hashes before name heuristics', () => {
+            storage.saveProcessedVideoName('clip.mp4', 'topic1', 100, 45, 'clip', {documentId: '1', fileHash: 'abc'});
+            storage.saveProcessedVideoName('clip_part.mp4', 'topic1', 100, 45, 'clippart', {documentId: '2', fileHash: 'def'});
+
+            const similar = storage.findAllSimilarVideosInTopic(
+                'clip_part.mp4',
+                'clippart',
+                'topic1',
+                100,
+                45,
+                {checkDuration: true, checkFileSize: true},
+                {documentId: '3', fileHash: 'abc'}
+            );
+
+            expect(similar.map(v => [v.fileName, v.matchedBy])).toEqual([['clip.mp4', 'hash']]);
+        });
+
+        it('should match similar thumbnails only when durations match', () => {
+            storage.saveProcessedVideoName('original.mp4', 'topic1', 600, 300, 'original', {thumbHash: 'ffff0000ffff0000'});
+
+            const reencode = (duration: number) => storage.findAllSimilarVideosInTopic(
+                'reencode_720p.mkv',
+                'reencode',
+                'topic1',
+                duration,
+                90,
+                {checkDuration: true, checkFileSize: true},
+                {thumbHash: 'ffff0000ffff0003'}
+            );
+
+            expect(reencode(605).map(v => [v.fileName, v.matchedBy])).toEqual([['original.mp4', 'thumbnail']]);
+            expect(reencode(900)).toEqual([]);
+        });
+
+        it('should add fingerprint columns to existing databases', () => {
+            storage.close();
+            const dbFile = testDbPath.replace('.txt', '.db');
+            fs.unlinkSync(dbFile);
+
+            const legacyDb = new Database(dbFile);
+            legacyDb.exec(`
+                CREATE TABLE processed_videos
+                (
+                    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+                    file_name       TEXT    NOT NULL,
+                    normalized_name TEXT    NOT NULL,
+                    topic_name      TEXT    NOT NULL,
+                    duration        REAL,
+                    size_mb         REAL,
+                    processed_at    INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+                    UNIQUE (normalized_name, topic_name)
+                );
+                INSERT INTO processed_videos (file_name, normalized_name, topic_name) VALUES ('old.mp4', 'old', 'topic1');
+            `);
+            legacyDb.close();
+
+            storage = new MessageStorage(testDbPath);
+            storage.saveProcessedVideoName('new.mp4', 'topic1', 100, 45, 'new', {documentId: '42'});
+
+            expect(storage.getProcessedVideoNamesCount()).toBe(2);
+            expect(storage.findVideosByFingerprintInTopic('topic1', {documentId: '42'})[0].fileName).toBe('new.mp4');
+        });
+    });
+
+    describe('Schema Migrations', () => {
+        const dbFile = () => testDbPath.replace('.txt', '.db');
+
+        it('should create new databases at the latest version without a backup', () => {
+            storage.close();
+            const db = new Database(dbFile());
+            expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+            db.close();
+
+            storage = new MessageStorage(testDbPath);
+            expect(fs.existsSync(`${dbFile()}.unversioned.backup`)).toBe(false);
+        });
+
+        it('should back up unversioned databases before upgrading them', () => {
+            storage.close();
+            fs.unlinkSync(dbFile());
+            const legacyDb = new Database(dbFile());
+            legacyDb.exec('CREATE TABLE processed_messages (message_id TEXT PRIMARY KEY); INSERT INTO processed_messages VALUES (\'1_1\');');
+            legacyDb.close();
+
+            storage = new MessageStorage(testDbPath);
+
+            expect(storage.hasProcessedMessage('-1001_1')).toBe(true);
+            const backup = new Database(`${dbFile()}.unversioned.backup`, {readonly: true});
+            expect(getSchemaVersion(backup)).toBe(-1);
+            backup.close();
+        });
+
+        it('should import legacy files as migration zero', () => {
+            storage.close();
+            fs.unlinkSync(dbFile());
+            fs.writeFileSync(testDbPath, '111_222\n333_444');
+
+            storage = new MessageStorage(testDbPath);
+
+            // Both the channel and the basic group form of each bare key
+            expect(storage.getProcessedMessagesCount()).toBe(4);
+            expect(fs.existsSync(testDbPath + '.backup')).toBe(true);
+        });
+
+        it('should rewrite processed-message keys to marked source IDs', () => {
+            storage.close();
+            const db = new Database(dbFile());
+            db.prepare('DELETE FROM schema_version WHERE version >= 3').run();
+            db.exec(`INSERT INTO processed_messages (message_id) VALUES ('123_45'), ('[object Object]_46'), ('-100789_47')`);
+            db.close();
+
+            storage = new MessageStorage(testDbPath);
+
+            expect(storage.hasProcessedMessage('-100123_45')).toBe(true);
+            expect(storage.hasProcessedMessage('-123_45')).toBe(true);
+            expect(storage.hasProcessedMessage('-100789_47')).toBe(true);
+            expect(storage.hasProcessedMessage('123_45')).toBe(false);
+            expect(storage.getProcessedMessagesCount()).toBe(3);
+            fs.unlinkSync(`${dbFile()}.v2.backup`);
+        });
+
+        it('should refuse databases of a newer release', () => {
+            storage.close();
+            const db = new Database(dbFile());
+            db.prepare('INSERT INTO schema_version (version, description) VALUES (?, ?)').run(LATEST_SCHEMA_VERSION + 1, 'future');
+            db.close();
+
+            expect(() => new MessageStorage(testDbPath)).toThrow(SchemaVersionError);
+
+            // Leave a usable database for afterEach
+            const cleanup = new Database(dbFile());
+            cleanup.prepare('DELETE FROM schema_version WHERE version > ?').run(LATEST_SCHEMA_VERSION);
+            cleanup.close();
+            storage = new MessageStorage(testDbPath);
+        });
+
+        it('should apply pending steps in order and roll back failed ones', () => {
+            const db = new Database(':memory:');
+            const applied: number[] = [];
+            const committed: number[] = [];
+            const step = (version: number, fail = false): SchemaMigration => ({
+                version,
+                description: `step ${version}`,
+                migrate: (database, _hooks, afterCommit) => {
+                    database.exec(`CREATE TABLE t${version} (id INTEGER)`);
+                    afterCommit(() => committed.push(version));
+                    if (fail) throw new Error('boom');
+                    applied.push(version);
+                }
+            });
+            const hooks = {importLegacyFiles: () => undefined};
+
+            expect(migrateSchema(db, ':memory:', false, hooks, [step(0), step(1)])).toEqual({fromVersion: -1, toVersion: 1, backupFile: undefined});
+            expect(() => migrateSchema(db, ':memory:', false, hooks, [step(0), step(1), step(2, true)])).toThrow('boom');
+
+            expect(applied).toEqual([0, 1]);
+            expect(committed).toEqual([0, 1]);
+            expect(getSchemaVersion(db)).toBe(1);
+            expect(db.prepare('SELECT name FROM sqlite_master WHERE name = \'t2\'').get()).toBeUndefined();
+            db.close();
+        });
     });
 
     describe('Legacy Data Migration', () => {
@@ -335,6 +524,29 @@ describe('MessageStorage with SQLite', () => {
             expect(fs.existsSync(videoNamesPath + '.backup')).toBe(true);
         });
 
+        it('should migrate the legacy JSON forwarding log once', () => {
+            storage.close();
+
+            const forwardingLogPath = path.join(testDir, 'forwarding-log.json');
+            fs.writeFileSync(forwardingLogPath, JSON.stringify([
+                {timestamp: '2024-01-01T10:00:00.000Z', fileName: 'a.mp4', matchedKeyword: 'Cats', topicName: 'Cats', sourceGroup: -1001, duration: 60, sizeMB: 10},
+                {timestamp: '2024-01-02T10:00:00.000Z', fileName: 'b.mp4', matchedKeyword: 'Dogs', topicName: 'Dogs', sourceGroup: {id: '42'}, duration: 90, sizeMB: 20}
+            ]));
+
+            storage = new MessageStorage(testDbPath);
+            storage.loadForwardingLog();
+            storage.loadForwardingLog();
+
+            const forwards = storage.getRecentForwards();
+            expect(forwards).toHaveLength(2);
+            expect(forwards[0]).toMatchObject({fileName: 'b.mp4', sourceId: '42', topicName: 'Dogs', forwardedAt: 1704189600});
+            expect(forwards[1]).toMatchObject({fileName: 'a.mp4', sourceId: '-1001', sizeMB: 10});
+            expect(forwards[1].sourceMessageId).toBeUndefined();
+
+            expect(fs.existsSync(forwardingLogPath)).toBe(false);
+            fs.unlinkSync(forwardingLogPath + '.backup');
+        });
+
         it('should handle empty legacy files', () => {
             storage.close();
 
@@ -357,6 +569,204 @@ describe('MessageStorage with SQLite', () => {
         });
     });
 
+    describe('Source High-Water Marks', () => {
+        it('should return 0 for a source that was never scanned', () => {
+            expect(storage.getSourceHighWaterMark('-1001234')).toBe(0);
+        });
+
+        it('should save and retrieve the mark per source', () => {
+            storage.saveSourceHighWaterMark('-1001234', 500);
+            storage.saveSourceHighWaterMark('-1005678', 42);
+
+            expect(storage.getSourceHighWaterMark('-1001234')).toBe(500);
+            expect(storage.getSourceHighWaterMark('-1005678')).toBe(42);
+        });
+
+        it('should never move the mark backwards', () => {
+            storage.saveSourceHighWaterMark('-1001234', 500);
+            storage.saveSourceHighWaterMark('-1001234', 300);
+
+            expect(storage.getSourceHighWaterMark('-1001234')).toBe(500);
+
+            storage.saveSourceHighWaterMark('-1001234', 800);
+
+            expect(storage.getSourceHighWaterMark('-1001234')).toBe(800);
+        });
+    });
+
+    describe('Run Journal', () => {
+        const entry = {
+            sourceId: '-1001234',
+            messageId: 42,
+            topicName: 'Cats',
+            topicId: 7,
+            fileName: 'cat.mp4',
+            normalizedName: 'cat',
+            duration: 120,
+            sizeMB: 50
+        };
+
+        it('should report runs that never finished as interrupted', () => {
+            const first = storage.startRun();
+            expect(first.interruptedRuns).toBe(0);
+
+            const second = storage.startRun();
+            expect(second.runId).toBeGreaterThan(first.runId);
+            expect(second.interruptedRuns).toBe(1);
+
+            storage.finishRun('completed', 10, 2);
+            expect(storage.startRun().interruptedRuns).toBe(0);
+        });
+
+        it('should save, resume and complete scan checkpoints', () => {
+            storage.startRun();
+            storage.saveScanCheckpoint('-1001234', {offsetId: 900, minId: 100, maxMessageId: 1500});
+
+            expect(storage.getScanCheckpoint('-1001234')).toEqual({offsetId: 900, minId: 100, maxMessageId: 1500});
+            expect(storage.getScanCheckpoint('-1005678')).toBeNull();
+
+            storage.completeSourceScan('-1001234', 1500);
+
+            expect(storage.getScanCheckpoint('-1001234')).toBeNull();
+            expect(storage.getSourceHighWaterMark('-1001234')).toBe(1500);
+        });
+
+        it('should return pending forwards until they are done or failed', () => {
+            storage.startRun();
+            storage.recordPendingForward(entry);
+            storage.recordPendingForward({...entry, messageId: 43});
+            storage.recordPendingForward({...entry, messageId: 44});
+
+            storage.markForwardFailed(entry.sourceId, 43, entry.topicName);
+            storage.markForwardDone(entry.sourceId, 44, entry.topicName);
+
+            const unfinished = storage.getUnfinishedForwards();
+            expect(unfinished.map(e => [e.messageId, e.status, e.attempts])).toEqual([[42, 'pending', 0]]);
+            expect(unfinished[0]).toMatchObject(entry);
+        });
+
+        it('should append forwards with their run and message IDs', () => {
+            const {runId} = storage.startRun();
+            storage.recordForward({
+                sourceId: '-1001', sourceMessageId: 7, topicName: 'Cats', topicId: 3, forwardedMessageId: 99, fileName: 'a.mp4'
+            });
+
+            expect(storage.getRecentForwards()[0]).toMatchObject({runId, sourceMessageId: 7, topicId: 3, forwardedMessageId: 99});
+        });
+    });
+
+    describe('Failed Forward Queue', () => {
+        const entry = {
+            sourceId: '-1001234',
+            messageId: 42,
+            topicName: 'Cats',
+            topicId: 7,
+            fileName: 'cat.mp4',
+            normalizedName: 'cat'
+        };
+        const policy = {maxAttempts: 3, retryDelaySeconds: 60};
+
+        it('should queue failures with exponential backoff', () => {
+            const now = Math.floor(Date.now() / 1000);
+
+            const first = storage.recordFailedForward(entry, 'FLOOD_WAIT', 'A wait of 30 seconds is required', policy);
+            expect(first).toMatchObject({attempts: 1, queueStatus: 'queued', errorClass: 'FLOOD_WAIT'});
+            expect(first.nextRetryAt).toBeGreaterThanOrEqual(now + 60);
+
+            const second = storage.recordFailedForward(entry, 'FLOOD_WAIT', 'A wait of 30 seconds is required', policy);
+            expect(second.attempts).toBe(2);
+            expect(second.nextRetryAt).toBeGreaterThanOrEqual(now + 120);
+
+            expect(storage.getDueFailedForwards(now)).toEqual([]);
+            expect(storage.getDueFailedForwards(now + 1000).map(f => f.messageId)).toEqual([42]);
+        });
+
+        it('should dead-letter after the maximum attempts or on permanent errors', () => {
+            for (let i = 0; i < 3; i++) {
+                storage.recordFailedForward(entry, 'TIMEOUT', 'Timeout', policy);
+            }
+            storage.recordFailedForward({...entry, messageId: 43}, 'MESSAGE_ID_INVALID', 'Invalid', {...policy, deadLetter: true});
+            storage.recordFailedForward({...entry, messageId: 44}, 'TIMEOUT', 'Timeout', policy);
+
+            expect(storage.getFailedForwards('dead').map(f => f.messageId)).toEqual([42, 43]);
+            expect(storage.getFailedForwards().length).toBe(3);
+            expect(storage.getDueFailedForwards(Number.MAX_SAFE_INTEGER).map(f => f.messageId)).toEqual([44]);
+        });
+
+        it('should resolve, requeue and drop failed forwards', () => {
+            storage.recordFailedForward(entry, 'MESSAGE_ID_INVALID', 'Invalid', {...policy, deadLetter: true});
+            storage.recordFailedForward({...entry, messageId: 43}, 'MESSAGE_ID_INVALID', 'Invalid', {...policy, deadLetter: true});
+            storage.recordFailedForward({...entry, messageId: 44}, 'TIMEOUT', 'Timeout', policy);
+
+            expect(storage.resolveFailedForward(entry.sourceId, 44, entry.topicName)).toBe(true);
+            expect(storage.resolveFailedForward(entry.sourceId, 44, entry.topicName)).toBe(false);
+
+            const [dead] = storage.getFailedForwards('dead');
+            expect(storage.requeueFailedForwards([dead.id])).toBe(1);
+            expect(storage.getDueFailedForwards()).toMatchObject([{messageId: 42, attempts: 0, queueStatus: 'queued'}]);
+
+            expect(storage.dropFailedForwards()).toBe(1);
+            expect(storage.getFailedForwards().map(f => f.messageId)).toEqual([42]);
+        });
+
+        it('should forget videos that were never forwarded once their forward is dead-lettered or dropped', () => {
+            const register = (messageId: number, name: string) => storage.saveProcessedVideoName(
+                `${name}.mp4`, entry.topicName, 60, 10, name, {}, {sourceId: entry.sourceId, sourceMessageId: messageId});
+            register(42, 'cat');
+            register(43, 'kitten');
+            register(44, 'tiger');
+            storage.markVideoForwarded(entry.topicName, 'tiger');
+
+            storage.recordFailedForward(entry, 'MESSAGE_ID_INVALID', 'Invalid', {...policy, deadLetter: true});
+            expect(storage.getVideoProvenance('Cats', 'cat')).toBeNull();
+
+            // A requeued forward gets its record back, so duplicate checks see it again while it is retried
+            const [dead] = storage.getFailedForwards('dead');
+            storage.requeueFailedForwards([dead.id]);
+            expect(storage.getVideoProvenance('Cats', 'cat')).toMatchObject({sourceId: entry.sourceId, sourceMessageId: 42});
+
+            storage.recordFailedForward({...entry, messageId: 43, normalizedName: 'kitten'}, 'TIMEOUT', 'Timeout', policy);
+            storage.recordFailedForward({...entry, messageId: 44, normalizedName: 'tiger'}, 'MESSAGE_ID_INVALID', 'Invalid', {...policy, deadLetter: true});
+            expect(storage.dropFailedForwards(storage.getFailedForwards().map(f => f.id))).toBe(3);
+
+            expect(storage.getProcessedVideosInTopic('Cats').map(v => v.normalizedName)).toEqual(['tiger']);
+        });
+    });
+
+    describe('Source Provenance', () => {
+        const source = {sourceId: '-1001', sourceMessageId: 7, topicId: 3, caption: 'Funny cat #cats'};
+
+        it('should record where a video came from and where it was forwarded', () => {
+            storage.saveProcessedVideoName('Cat.mp4', 'Cats', 60, 10, 'cat', {documentId: '42'}, source);
+            storage.saveProcessedVideoName('Cat.mp4', 'Pets', 60, 10, 'cat', {documentId: '42'}, {...source, topicId: 4});
+            storage.markVideoForwarded('Cats', 'cat', 1500);
+
+            expect(storage.getVideoProvenance('Cats', 'cat')).toMatchObject({...source, fileName: 'Cat.mp4', forumMessageId: 1500});
+            expect(storage.getVideoProvenance('Cats', 'cat')?.forwardedAt).toBeGreaterThan(0);
+            expect(storage.getVideoProvenance('Pets', 'cat')?.forwardedAt).toBeUndefined();
+            expect(storage.getVideoProvenance('Dogs', 'cat')).toBeNull();
+        });
+
+        it('should find videos by forum message and by source', () => {
+            storage.saveProcessedVideoName('Cat.mp4', 'Cats', 60, 10, 'cat', undefined, source);
+            storage.saveProcessedVideoName('Kitten.mp4', 'Cats', 60, 10, 'kitten', undefined, {...source, sourceMessageId: 8});
+            storage.saveProcessedVideoName('Dog.mp4', 'Dogs', 60, 10, 'dog', undefined, {...source, sourceId: '-1002'});
+            storage.markVideoForwarded('Cats', 'kitten', 1501);
+
+            expect(storage.findVideoByForumMessage(1501)?.fileName).toBe('Kitten.mp4');
+            expect(storage.findVideoByForumMessage(9999)).toBeNull();
+            expect(storage.getVideosFromSource('-1001').map(v => v.fileName)).toEqual(['Cat.mp4', 'Kitten.mp4']);
+            expect(storage.getVideosFromSource('-1001', 8).map(v => v.fileName)).toEqual(['Kitten.mp4']);
+        });
+
+        it('should return the forum message of duplicates so they can be deleted directly', () => {
+            storage.saveProcessedVideoName('Cat.mp4', 'Cats', 60, 10, 'cat', {documentId: '42'}, source);
+            storage.markVideoForwarded('Cats', 'cat', 1500);
+
+            expect(storage.findVideosByFingerprintInTopic('Cats', {documentId: '42'})[0].forumMessageId).toBe(1500);
+        });
+    });
+
     describe('Performance', () => {
         it('should handle large number of messages efficiently', () => {
             const startTime = Date.now();
@@ -0,0 +1,82 @@
+import {Api, helpers} from 'telegram';
+import {GramJsGateway} from '../src/services/telegram-gateway';
+
+describe('GramJsGateway', () => {
+    const group = new Api.InputPeerChannel({channelId: helpers.returnBigInt(1), accessHash: helpers.returnBigInt(7)});
+
+    // Topics 1..count, most recently active first; the latest message of topic N has ID N + 1000 and date N
+    const topicPage = (count: number, request: Api.channels.GetForumTopics) => {
+        const newest = request.offsetTopic === 0 ? count : request.offsetTopic - 1;
+        const ids = Array.from({length: Math.min(request.limit, newest)}, (_, i) => newest - i);
+        return new Api.messages.ForumTopics({
+            count,
+            topics: ids.map(id => new Api.ForumTopic({
+                id,
+                date: 0,
+                title: `Topic ${id}`,
+                iconColor: 0,
+                topMessage: id + 1000,
+                readInboxMaxId: 0,
+                readOutboxMaxId: 0,
+                unreadCount: 0,
+                unreadMentionsCount: 0,
+                unreadReactionsCount: 0,
+                fromId: new Api.PeerUser({userId: helpers.returnBigInt(1)}),
+                notifySettings: new Api.PeerNotifySettings({})
+            })),
+            messages: ids.map(id => new Api.Message({
+                id: id + 1000,
+                peerId: new Api.PeerChannel({channelId: group.channelId}),
+                date: id,
+                message: ''
+            })),
+            chats: [],
+            users: [],
+            pts: 0
+        });
+    };
+
+    it('should page through all forum topics', async () => {
+        const requests: Api.channels.GetForumTopics[] = [];
+        const client = {
+            invoke: jest.fn(async (request: Api.channels.GetForumTopics) => {
+                requests.push(request);
+                return topicPage(250, request);
+            })
+        };
+
+        const topics = await new GramJsGateway(client as any).getForumTopics(group);
+
+        expect(topics).toHaveLength(250);
+        expect(new Set(topics.map(topic => topic.id)).size).toBe(250);
+        expect(requests).toHaveLength(3);
+        expect(requests[1]).toMatchObject({offsetTopic: 151, offsetId: 1151, offsetDate: 151});
+        expect(requests[2]).toMatchObject({offsetTopic: 51, offsetId: 1051, offsetDate: 51});
+    });
+
+    it('should fetch main and archived dialogs once until a forum group is created', async () => {
+        const dialog = (title: string, archived: boolean) => ({title, isGroup: true, isChannel: true, archived});
+        const client = {
+            getDialogs: jest.fn(async ({archived}: { archived: boolean }) =>
+                archived ? [dialog('Old pets', true)] : [dialog('Pets', false)]),
+            invoke: jest.fn(async () => ({
+                chats: [new Api.Channel({
+                    id: helpers.returnBigInt(2),
+                    accessHash: helpers.returnBigInt(14),
+                    title: 'Sorted',
+                    photo: new Api.ChatPhotoEmpty(),
+                    date: 0
+                })]
+            }))
+        };
+        const gateway = new GramJsGateway(client as any);
+
+        expect((await gateway.getDialogs()).map(d => d.title)).toEqual(['Pets', 'Old pets']);
+        await gateway.getDialogs();
+        expect(client.getDialogs).toHaveBeenCalledTimes(2);
+
+        await gateway.createForumGroup('Sorted', '');
+        await gateway.getDialogs();
+        expect(client.getDialogs).toHaveBeenCalledTimes(4);
+    });
+});
@@ -0,0 +1,25 @@
+import {formatTopicIndex, MAX_MESSAGE_LENGTH} from '../src/utils/topic-index';
+
+describe('Topic Index', () => {
+    const processedAt = Date.UTC(2026, 9, 19) / 1000;
+
+    it('should list the count and latest additions', () => {
+        expect(formatTopicIndex('Cats', 2, [
+            {fileName: 'Sleepy cat.mp4', duration: 300, processedAt},
+            {fileName: 'Funny cat.mp4', processedAt}
+        ])).toBe('📂 Cats: 2 videos\n\nLatest additions:\n• Sleepy cat.mp4 (5m 0s, 2026-10-19)\n• Funny cat.mp4 (2026-10-19)');
+    });
+
+    it('should only show the count of empty topics', () => {
+        expect(formatTopicIndex('Cats', 0, [])).toBe('📂 Cats: 0 videos');
+    });
+
+    it('should shorten file names to stay within the message limit', () => {
+        const recent = Array.from({length: 10}, (_, i) => ({fileName: `${i}${'x'.repeat(1000)}.mp4`, processedAt}));
+        const text = formatTopicIndex('Cats', 10, recent);
+
+        expect(text.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+        expect(text.split('\n').filter(line => line.startsWith('• '))).toHaveLength(10);
+        expect(text).toContain('…');
+    });
+});